@@ -0,0 +1,72 @@
+import Dexie from 'dexie';
+
+/**
+ * A compressed copy of every GameDB table
+ */
+export interface Backup {
+  /** Auto-incremented backup ID */
+  id?: number;
+  takenAt: Date;
+  /** Schema version the data was stored at */
+  version: number;
+  /** How the payload is encoded */
+  encoding: 'gzip' | 'utf-8';
+  /** Serialized records keyed by table name */
+  payload: Uint8Array;
+  /** Number of records per table, for listing backups without decoding them */
+  counts: Record<string, number>;
+}
+
+/**
+ * Separate database holding rotating backups, so they survive GameDB being
+ * deleted or corrupted
+ */
+class BackupDB extends Dexie {
+  backups!: Dexie.Table<Backup, number>;
+
+  constructor() {
+    super('GameDBBackups');
+    this.version(1).stores({
+      backups: '++id, takenAt'
+    });
+  }
+}
+
+const backupDb = new BackupDB();
+
+/**
+ * Stores a backup and deletes the ones the retention policy no longer keeps
+ * @param retained - Picks the IDs to keep from the stored backups, newest first
+ * @returns The ID of the new backup
+ */
+export async function saveBackup(
+  backup: Omit<Backup, 'id'>,
+  retained: (backups: { id: number; takenAt: Date }[]) => Set<number>
+): Promise<number> {
+  return backupDb.transaction('rw', backupDb.backups, async () => {
+    const id = await backupDb.backups.add(backup);
+
+    const newestFirst = backupDb.backups.orderBy('takenAt').reverse();
+    const dates = (await newestFirst.keys()) as Date[];
+    const ids = await newestFirst.primaryKeys();
+    const kept = retained(ids.map((key, i) => ({ id: key, takenAt: dates[i] })));
+    await backupDb.backups.bulkDelete(ids.filter((key) => !kept.has(key)));
+
+    return id;
+  });
+}
+
+/**
+ * Lists stored backups, newest first
+ */
+export async function getBackups(): Promise<Backup[]> {
+  return backupDb.backups.orderBy('takenAt').reverse().toArray();
+}
+
+export async function getBackup(id: number): Promise<Backup | undefined> {
+  return backupDb.backups.get(id);
+}
+
+export async function getLatestBackup(): Promise<Backup | undefined> {
+  return backupDb.backups.orderBy('takenAt').last();
+}
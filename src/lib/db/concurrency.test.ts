@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Character, GameInstance } from '../types';
+import { db } from './index';
+import { assertUnchanged, ConflictError, nextStamp } from './concurrency';
+import { characterService } from '../services/characterService';
+import { gameInstanceService } from '../services/gameInstanceService';
+
+function character(instanceId: string): Omit<Character, 'id'> {
+  return {
+    instanceId,
+    name: 'Valeros',
+    type: 'PC',
+    discordId: '111',
+    notes: '',
+    hp: { current: 20, max: 30 },
+    ac: 18,
+    lastUpdated: new Date(1000)
+  };
+}
+
+function instance(): Omit<GameInstance, 'id'> {
+  return {
+    name: 'Abomination Vaults',
+    system: 'pf2e',
+    status: 'active',
+    createdAt: new Date(),
+    lastAccessed: new Date()
+  };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+describe('nextStamp', () => {
+  it('is strictly newer than the previous stamp, even in the same millisecond', () => {
+    const future = new Date(Date.now() + 60_000);
+    expect(nextStamp(future).getTime()).toBe(future.getTime() + 1);
+    expect(nextStamp().getTime()).toBeGreaterThan(0);
+  });
+});
+
+describe('assertUnchanged', () => {
+  const record = { id: 'a', lastUpdated: new Date(5000) };
+
+  it('passes when the stamp matches or no stamp is expected', () => {
+    expect(() => assertUnchanged('characters', record, new Date(5000))).not.toThrow();
+    expect(() => assertUnchanged('characters', record)).not.toThrow();
+  });
+
+  it('throws a ConflictError naming the record when the stamp differs', () => {
+    expect(() => assertUnchanged('characters', record, new Date(4000))).toThrow(ConflictError);
+    try {
+      assertUnchanged('characters', record, new Date(4000));
+    } catch (error) {
+      expect(error).toMatchObject({ table: 'characters', id: 'a' });
+    }
+  });
+});
+
+describe('characterService', () => {
+  it('stamps every write and rejects one made from a stale copy', async () => {
+    const { id, lastUpdated } = await characterService.create(character('instance'));
+    const { patch } = await characterService.update(id, { ac: 19 }, lastUpdated);
+    expect(patch.lastUpdated!.getTime()).toBeGreaterThan(lastUpdated.getTime());
+
+    await expect(characterService.update(id, { ac: 20 }, lastUpdated)).rejects.toThrow(
+      ConflictError
+    );
+    expect((await characterService.get(id))!.ac).toBe(19);
+  });
+
+  it('keeps both changes when two writes read the stored record', async () => {
+    const { id } = await characterService.create(character('instance'));
+    await Promise.all([
+      characterService.mutate(id, (c) => ({ hp: { ...c.hp, current: c.hp.current - 5 } })),
+      characterService.mutate(id, (c) => ({ hp: { ...c.hp, current: c.hp.current - 3 } }))
+    ]);
+    expect((await characterService.get(id))!.hp.current).toBe(12);
+  });
+
+  it('updates hit points through a stamped transaction', async () => {
+    const { id, lastUpdated } = await characterService.create(character('instance'));
+    const { before, patch } = await characterService.updateHitPoints(id, 7);
+    expect(before.hp.current).toBe(20);
+    expect(patch.hp).toEqual({ current: 7, max: 30 });
+    expect(patch.lastUpdated!.getTime()).toBeGreaterThan(lastUpdated.getTime());
+  });
+});
+
+describe('gameInstanceService', () => {
+  it('stamps new instances and every write', async () => {
+    const created = await gameInstanceService.create(instance());
+    expect(created.lastUpdated).toBeInstanceOf(Date);
+
+    const { patch } = await gameInstanceService.update(created.id, { name: 'Renamed' });
+    expect(patch.lastUpdated!.getTime()).toBeGreaterThan(created.lastUpdated!.getTime());
+    expect((await gameInstanceService.get(created.id))!.lastUpdated).toEqual(patch.lastUpdated);
+  });
+
+  it('rejects an edit or tag change made from a stale copy', async () => {
+    const created = await gameInstanceService.create(instance());
+    await gameInstanceService.update(created.id, { status: 'paused' }, created.lastUpdated);
+
+    await expect(
+      gameInstanceService.update(created.id, { status: 'completed' }, created.lastUpdated)
+    ).rejects.toThrow(ConflictError);
+    await expect(
+      gameInstanceService.mutate(created.id, () => ({ tags: ['stale'] }), created.lastUpdated)
+    ).rejects.toThrow(ConflictError);
+
+    const stored = await gameInstanceService.get(created.id);
+    expect(stored!.status).toBe('paused');
+    expect(stored!.tags).toBeUndefined();
+  });
+
+  it('accepts writes to instances saved before they were stamped', async () => {
+    const id = 'legacy';
+    await db.instances.add({ ...instance(), id });
+    await gameInstanceService.update(id, { name: 'Stamped' }, new Date(1));
+    expect((await gameInstanceService.get(id))!.lastUpdated).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Result of a transactional read-modify-write
+ */
+export interface Mutation<T> {
+  /** The record as it was before the change */
+  before: T;
+  /** The fields that were written, including the new lastUpdated stamp */
+  patch: Partial<T>;
+}
+
+/**
+ * Raised when a record changed (in another tab or an earlier click) since the
+ * caller last read it. The write was not applied.
+ */
+export class ConflictError extends Error {
+  constructor(
+    public readonly table: string,
+    public readonly id: string
+  ) {
+    super('This record was changed elsewhere. Review the latest data and try again.');
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Returns a lastUpdated stamp strictly newer than the previous one, so two
+ * writes in the same millisecond still produce different stamps
+ */
+export function nextStamp(previous?: Date): Date {
+  const last = previous ? new Date(previous).getTime() : 0;
+  return new Date(Math.max(Date.now(), last + 1));
+}
+
+/**
+ * Throws a ConflictError if the stored record is not the version the caller saw
+ * @param table - Table name, for the error
+ * @param record - The stored record
+ * @param expected - lastUpdated the caller last saw; no check when omitted
+ */
+export function assertUnchanged(
+  table: string,
+  record: { id: string; lastUpdated?: Date },
+  expected?: Date
+) {
+  if (!expected || !record.lastUpdated) return;
+  if (new Date(record.lastUpdated).getTime() !== new Date(expected).getTime()) {
+    throw new ConflictError(table, record.id);
+  }
+}
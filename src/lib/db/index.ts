@@ -1,30 +1,72 @@
-import type { Character, GameInstance, Encounter } from '../types';
+import type {
+  Character,
+  CombatLogEntry,
+  GameInstance,
+  Encounter,
+  HistoryStack,
+  OutboxMessage
+} from '../types';
 import Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import { schemaVersions } from './versions';
+import type { MigrationData, SchemaVersion } from './versions';
+import { broadcastChanges } from './sync';
 
+/**
+ * A single app-wide setting, stored by key
+ */
+export interface Setting<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Database class for managing game data in IndexedDB
+ * Handles persistence of characters, game instances, and encounters
+ */
 export class GameDB extends Dexie {
   characters!: Dexie.Table<Character, string>;
   instances!: Dexie.Table<GameInstance, string>;
   encounters!: Dexie.Table<Encounter, string>;
+  settings!: Dexie.Table<Setting, string>;
+  history!: Dexie.Table<HistoryStack, string>;
+  combatLog!: Dexie.Table<CombatLogEntry, number>;
+  outbox!: Dexie.Table<OutboxMessage, number>;
 
   constructor() {
     super('GameDB');
-    this.version(1).stores({
-      characters: 'id, name, type, level',
-      instances: 'id, name, date',
-      encounters: 'id, name, gameInstanceId'
-    });
+    for (const schema of schemaVersions) {
+      const version = this.version(schema.version).stores(schema.stores);
+      if (schema.upgrade) {
+        version.upgrade((tx) => applyUpgrade(tx, schema));
+      }
+    }
   }
 }
 
-export const db = new GameDB();
+/**
+ * Runs a registered data upgrade inside Dexie's upgrade transaction
+ * @param tx - The versionchange transaction
+ * @param schema - The version being upgraded to
+ */
+async function applyUpgrade(tx: Transaction, schema: SchemaVersion) {
+  // tx.storeNames lists the tables of the latest version; when several versions
+  // upgrade in one go, only the tables of this step are part of it
+  const data: MigrationData = {};
+  for (const name of Object.keys(schema.stores)) {
+    data[name] = await tx.table(name).toArray();
+  }
 
-// Initialize the database
-export async function initDB() {
-  try {
-    await db.open();
-    console.log("Database initialized successfully");
-  } catch (error) {
-    console.error("Failed to initialize database:", error);
-    throw error;
+  const upgraded = schema.upgrade!(data);
+
+  for (const [name, records] of Object.entries(upgraded)) {
+    if (schema.stores[name] === null) continue;
+    const table = tx.table(name);
+    await table.clear();
+    await table.bulkPut(records);
   }
 }
+
+export const db = new GameDB();
+
+broadcastChanges(db);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { upgradeToV2 } from './legacy';
+
+describe('upgradeToV2', () => {
+  it('rewrites version 1 characters into the unified model', () => {
+    const { characters } = upgradeToV2({
+      characters: [
+        {
+          id: 'valeros',
+          name: 'Valeros',
+          gameInstanceId: 'campaign',
+          hitPoints: { current: 12, maximum: 30 },
+          armorClass: 18
+        }
+      ]
+    });
+    expect(characters).toEqual([
+      {
+        id: 'valeros',
+        instanceId: 'campaign',
+        name: 'Valeros',
+        type: 'PC',
+        notes: '',
+        hp: { current: 12, max: 30 },
+        ac: 18,
+        lastUpdated: expect.any(Date)
+      }
+    ]);
+  });
+
+  it('keeps records that were already in the current shape', () => {
+    const current = {
+      id: 'ezren',
+      instanceId: 'campaign',
+      name: 'Ezren',
+      type: 'PC',
+      notes: 'Wizard',
+      hp: { current: 8, max: 18, temp: 2 },
+      ac: 15,
+      lastUpdated: new Date(2021, 5, 1)
+    };
+    expect(upgradeToV2({ characters: [current] }).characters).toEqual([current]);
+  });
+
+  it('links characters and encounters through the ID lists on their instance', () => {
+    const { characters, encounters, instances } = upgradeToV2({
+      instances: [
+        { id: 'campaign', name: 'Age of Ashes', characters: ['merisiel'], encounters: ['ambush'] }
+      ],
+      characters: [{ id: 'merisiel', name: 'Merisiel', hp: { current: 5, max: 5 }, ac: 16 }],
+      encounters: [{ id: 'ambush', name: 'Ambush' }]
+    });
+    expect(characters[0]).toMatchObject({ instanceId: 'campaign' });
+    expect(encounters[0]).toMatchObject({ instanceId: 'campaign' });
+    expect(instances[0]).not.toHaveProperty('characters');
+    expect(instances[0]).not.toHaveProperty('encounters');
+  });
+
+  it('moves instance dates and notes to createdAt and gmNotes', () => {
+    const date = new Date(2020, 0, 1);
+    const [instance] = upgradeToV2({
+      instances: [{ id: 'campaign', name: 'Age of Ashes', date, notes: 'Secret door' }]
+    }).instances;
+    expect(instance).toEqual({
+      id: 'campaign',
+      name: 'Age of Ashes',
+      createdAt: date,
+      lastAccessed: date,
+      status: 'active',
+      gmNotes: 'Secret door'
+    });
+  });
+
+  it('orders encounter participants by initiative and drops those without a character', () => {
+    const [encounter] = upgradeToV2({
+      encounters: [
+        {
+          id: 'ambush',
+          name: 'Ambush',
+          sessionId: 'campaign',
+          round: 3,
+          isActive: true,
+          participants: [
+            { characterId: 'goblin', initiative: 12, status: 'active', hitPoints: 6 },
+            { characterId: 'valeros', initiative: 18, conditions: ['prone'] },
+            { initiative: 20 }
+          ]
+        }
+      ]
+    }).encounters;
+    expect(encounter).toMatchObject({
+      instanceId: 'campaign',
+      isActive: true,
+      currentRound: 3,
+      currentInitiative: 18,
+      participants: [
+        { characterId: 'valeros', initiative: 18, conditions: ['prone'] },
+        { characterId: 'goblin', initiative: 12 }
+      ]
+    });
+    expect(encounter).not.toHaveProperty('round');
+  });
+
+  it('returns empty tables when there is nothing to upgrade', () => {
+    expect(upgradeToV2({})).toEqual({ characters: [], instances: [], encounters: [] });
+  });
+});
@@ -0,0 +1,219 @@
+import type { Character, GameInstance, Encounter, EncounterParticipant } from '../types';
+import type { MigrationData } from './versions';
+
+/**
+ * Record shapes written by schema version 1.
+ * Version 1 stored whatever the caller passed in, so a record may be in the
+ * old spec shape, the current shape, or a mix of both. Every field is optional.
+ */
+interface V1Character extends Partial<Character> {
+  gameInstanceId?: string;
+  hitPoints?: { current?: number; maximum?: number };
+  armorClass?: number;
+}
+
+interface V1GameInstance extends Partial<GameInstance> {
+  date?: Date;
+  characters?: string[];
+  encounters?: string[];
+  notes?: string;
+}
+
+interface V1Participant extends Omit<Partial<EncounterParticipant>, 'conditions'> {
+  status?: string;
+  hitPoints?: number;
+  conditions?: string[];
+}
+
+interface V1Encounter extends Omit<Partial<V7Encounter>, 'participants'> {
+  gameInstanceId?: string;
+  sessionId?: string;
+  round?: number;
+  participants?: V1Participant[];
+}
+
+/**
+ * Encounters before version 8 pointed at the initiative being acted on,
+ * rather than at a participant
+ */
+interface V7Encounter extends Omit<Encounter, 'currentTurn'> {
+  currentInitiative: number;
+}
+
+/**
+ * Participants before version 7 stored conditions as plain labels, e.g. "frightened 2"
+ */
+interface V6Participant extends Omit<EncounterParticipant, 'conditions'> {
+  conditions?: string[];
+}
+
+interface V6Encounter extends Omit<V7Encounter, 'participants'> {
+  participants: V6Participant[];
+}
+
+/**
+ * Builds lookups from the version 1 `characters`/`encounters` ID arrays on
+ * instances, so records that never stored their own instance ID can be linked
+ */
+function buildInstanceLookup(instances: V1GameInstance[]) {
+  const characterInstances = new Map<string, string>();
+  const encounterInstances = new Map<string, string>();
+  for (const instance of instances) {
+    if (!instance.id) continue;
+    instance.characters?.forEach((id) => characterInstances.set(id, instance.id!));
+    instance.encounters?.forEach((id) => encounterInstances.set(id, instance.id!));
+  }
+  return { characterInstances, encounterInstances };
+}
+
+/**
+ * Rewrites a version 1 character record into the current Character shape
+ * @param record - The stored record
+ * @param instanceId - Instance ID resolved from the owning instance, if any
+ */
+function upgradeCharacter(record: V1Character, instanceId?: string): Character {
+  const { gameInstanceId, hitPoints, armorClass, ...rest } = record;
+  const max = rest.hp?.max ?? hitPoints?.maximum ?? 0;
+
+  return {
+    ...rest,
+    id: rest.id!,
+    instanceId: rest.instanceId ?? gameInstanceId ?? instanceId ?? '',
+    name: rest.name ?? '',
+    type: rest.type ?? 'PC',
+    notes: rest.notes ?? '',
+    hp: rest.hp ?? { current: hitPoints?.current ?? max, max },
+    ac: rest.ac ?? armorClass ?? 10,
+    lastUpdated: rest.lastUpdated ?? new Date()
+  };
+}
+
+/**
+ * Rewrites a version 1 game instance record into the current GameInstance shape
+ * @param record - The stored record
+ */
+function upgradeInstance(record: V1GameInstance): GameInstance {
+  const { date, notes, ...rest } = record;
+  // Membership now lives on the characters and encounters themselves
+  delete rest.characters;
+  delete rest.encounters;
+  const createdAt = rest.createdAt ?? date ?? new Date();
+
+  return {
+    ...rest,
+    id: rest.id!,
+    name: rest.name ?? '',
+    createdAt,
+    lastAccessed: rest.lastAccessed ?? createdAt,
+    status: rest.status ?? 'active',
+    gmNotes: rest.gmNotes ?? (notes || undefined)
+  };
+}
+
+/**
+ * Rewrites a version 1 encounter record into the current Encounter shape
+ * @param record - The stored record
+ * @param instanceId - Instance ID resolved from the owning instance, if any
+ */
+function upgradeEncounter(record: V1Encounter, instanceId?: string): V6Encounter {
+  const { gameInstanceId, sessionId, round, participants = [], ...rest } = record;
+
+  const upgradedParticipants = participants
+    .filter((p) => p.characterId)
+    .map((p) => ({
+      characterId: p.characterId!,
+      initiative: p.initiative ?? 0,
+      ...(p.conditions?.length ? { conditions: p.conditions } : {})
+    }))
+    .sort((a, b) => b.initiative - a.initiative);
+
+  const createdAt = rest.createdAt ?? new Date();
+
+  return {
+    ...rest,
+    id: rest.id!,
+    instanceId: rest.instanceId ?? gameInstanceId ?? sessionId ?? instanceId ?? '',
+    name: rest.name ?? '',
+    isActive: rest.isActive ?? false,
+    currentRound: rest.currentRound ?? round ?? 0,
+    currentInitiative: rest.currentInitiative ?? upgradedParticipants[0]?.initiative ?? 0,
+    participants: upgradedParticipants,
+    createdAt,
+    lastUpdated: rest.lastUpdated ?? createdAt
+  };
+}
+
+/**
+ * Rewrites version 1 records into the unified data model
+ * (e.g. `hitPoints.maximum` → `hp.max`, `gameInstanceId` → `instanceId`)
+ * @param data - All version 1 records keyed by table name
+ * @returns The same records in the version 2 shape
+ */
+export function upgradeToV2(data: MigrationData): MigrationData {
+  const instances = (data.instances ?? []) as V1GameInstance[];
+  const { characterInstances, encounterInstances } = buildInstanceLookup(instances);
+
+  return {
+    characters: ((data.characters ?? []) as V1Character[]).map((record) =>
+      upgradeCharacter(record, characterInstances.get(record.id!))
+    ),
+    instances: instances.map(upgradeInstance),
+    encounters: ((data.encounters ?? []) as V1Encounter[]).map((record) =>
+      upgradeEncounter(record, encounterInstances.get(record.id!))
+    )
+  };
+}
+
+/**
+ * Reads a condition from a label such as "frightened 2" or "Prone". Kept
+ * here as it was in version 7, so later changes to condition IDs do not
+ * change what this upgrade writes.
+ */
+function parseV6ConditionLabel(label: string): { id: string; value?: number } {
+  const conditionId = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
+  const match = label.trim().match(/^(.*?)\s+(\d+)$/);
+  return match
+    ? { id: conditionId(match[1]), value: Number(match[2]) }
+    : { id: conditionId(label) };
+}
+
+/**
+ * Turns condition labels into valued conditions ("frightened 2" → `{ id: 'frightened', value: 2 }`)
+ * @param data - All version 6 records keyed by table name
+ * @returns The same records with version 7 encounters
+ */
+export function upgradeToV7(data: MigrationData): MigrationData {
+  return {
+    ...data,
+    encounters: ((data.encounters ?? []) as V6Encounter[]).map(
+      (encounter): V7Encounter => ({
+        ...encounter,
+        participants: encounter.participants.map(({ conditions, ...participant }) => ({
+          ...participant,
+          ...(conditions?.length ? { conditions: conditions.map(parseV6ConditionLabel) } : {})
+        }))
+      })
+    )
+  };
+}
+
+/**
+ * Points each encounter's turn at the first participant acting at its
+ * current initiative
+ * @param data - All version 7 records keyed by table name
+ * @returns The same records with version 8 encounters
+ */
+export function upgradeToV8(data: MigrationData): MigrationData {
+  return {
+    ...data,
+    encounters: ((data.encounters ?? []) as V7Encounter[]).map(
+      ({ currentInitiative, ...encounter }): Encounter => ({
+        ...encounter,
+        currentTurn: Math.max(
+          encounter.participants.findIndex((p) => p.initiative === currentInitiative),
+          0
+        )
+      })
+    )
+  };
+}
@@ -0,0 +1,133 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './index';
+import { migrateDatabase } from './migrations';
+import { getSnapshots, restoreSnapshot, takeSnapshot } from './snapshots';
+import { latestVersion, schemaVersions } from './versions';
+
+/**
+ * Creates GameDB at version 1 with records in the old spec shape
+ */
+async function seedVersion1() {
+  const legacy = new Dexie(db.name);
+  legacy.version(1).stores(schemaVersions[0].stores as Record<string, string>);
+  await legacy.open();
+  await legacy.table('instances').add({
+    id: 'campaign',
+    name: 'Age of Ashes',
+    date: new Date(2020, 0, 1),
+    characters: ['valeros'],
+    encounters: ['ambush'],
+    notes: 'Secret door in room 3'
+  });
+  await legacy.table('characters').add({
+    id: 'valeros',
+    name: 'Valeros',
+    type: 'PC',
+    hitPoints: { current: 12, maximum: 30 },
+    armorClass: 18
+  });
+  await legacy.table('encounters').add({
+    id: 'ambush',
+    name: 'Ambush',
+    round: 2,
+    participants: [
+      { characterId: 'goblin', initiative: 12, conditions: ['frightened 2'] },
+      { characterId: 'valeros', initiative: 18 },
+      { initiative: 5 }
+    ]
+  });
+  legacy.close();
+}
+
+beforeEach(async () => {
+  db.close();
+  await Dexie.delete(db.name);
+});
+
+describe('migrateDatabase', () => {
+  it('creates a new database at the latest version without a snapshot', async () => {
+    const before = (await getSnapshots()).length;
+    const report = await migrateDatabase();
+
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: latestVersion, steps: [] });
+    expect(report.snapshotId).toBeUndefined();
+    expect(db.verno).toBe(latestVersion);
+    expect(await getSnapshots()).toHaveLength(before);
+  });
+
+  it('reports what each pending step would touch on a dry run, changing nothing', async () => {
+    await seedVersion1();
+    const report = await migrateDatabase({ dryRun: true });
+
+    expect(report.fromVersion).toBe(1);
+    expect(report.dryRun).toBe(true);
+    expect(report.steps.map((s) => s.version)).toEqual([2, 7, 8]);
+    expect(report.steps[0].touched).toEqual({ characters: 1, instances: 1, encounters: 1 });
+    expect(db.isOpen()).toBe(false);
+
+    const stored = new Dexie(db.name);
+    await stored.open();
+    expect(stored.verno).toBe(1);
+    stored.close();
+  });
+
+  it('snapshots the old data and upgrades every record', async () => {
+    await seedVersion1();
+    const report = await migrateDatabase();
+
+    expect(report.snapshotId).toBeDefined();
+    const [snapshot] = await getSnapshots();
+    expect(snapshot).toMatchObject({ id: report.snapshotId, version: 1 });
+
+    const valeros = await db.characters.get('valeros');
+    expect(valeros).toMatchObject({ instanceId: 'campaign', hp: { current: 12, max: 30 }, ac: 18 });
+    const campaign = await db.instances.get('campaign');
+    expect(campaign).toMatchObject({ status: 'active', gmNotes: 'Secret door in room 3' });
+    expect(campaign).not.toHaveProperty('characters');
+
+    const ambush = await db.encounters.get('ambush');
+    expect(ambush).toMatchObject({ instanceId: 'campaign', currentRound: 2, currentTurn: 0 });
+    expect(ambush!.participants).toEqual([
+      { characterId: 'valeros', initiative: 18 },
+      { characterId: 'goblin', initiative: 12, conditions: [{ id: 'frightened', value: 2 }] }
+    ]);
+  });
+
+  it('does nothing more once the database is up to date', async () => {
+    await seedVersion1();
+    await migrateDatabase();
+    const snapshots = (await getSnapshots()).length;
+    db.close();
+
+    const report = await migrateDatabase();
+    expect(report).toMatchObject({ fromVersion: latestVersion, steps: [] });
+    expect(report.snapshotId).toBeUndefined();
+    expect(await getSnapshots()).toHaveLength(snapshots);
+  });
+});
+
+describe('restoreSnapshot', () => {
+  it('puts back the records of the snapshot', async () => {
+    await migrateDatabase();
+    const data = { characters: [], instances: [{ id: 'kept', name: 'Kept' }], encounters: [] };
+    db.close();
+    const id = await takeSnapshot(latestVersion, data);
+
+    await db.open();
+    await db.instances.clear();
+    db.close();
+    await restoreSnapshot(id);
+
+    await db.open();
+    expect(await db.instances.toArray()).toMatchObject([{ id: 'kept', name: 'Kept' }]);
+  });
+
+  it('refuses a snapshot taken at another version', async () => {
+    await migrateDatabase();
+    db.close();
+    const id = await takeSnapshot(1, {});
+    await expect(restoreSnapshot(id)).rejects.toThrow(/snapshot is at version 1/);
+  });
+});
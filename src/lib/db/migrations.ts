@@ -0,0 +1,188 @@
+import Dexie from 'dexie';
+import { db } from './index';
+import { latestVersion, schemaVersions } from './versions';
+import type { MigrationData, SchemaVersion } from './versions';
+import { restoreSnapshot, takeSnapshot } from './snapshots';
+
+/**
+ * Number of records a single upgrade step changes, per table
+ */
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  touched: Record<string, number>;
+}
+
+/**
+ * Outcome (or, for dry runs, forecast) of bringing GameDB up to date
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStepReport[];
+  /** ID of the pre-migration snapshot, when one was taken */
+  snapshotId?: number;
+}
+
+/**
+ * Raised when a schema upgrade fails. The database has been rolled back
+ * to `fromVersion` and the app can keep running without the upgrade.
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly snapshotId?: number,
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Opens GameDB with whatever schema is on disk, without triggering upgrades
+ * @returns The result of `read`, or `empty` when GameDB has never been created
+ */
+async function withStoredDatabase<T>(read: (stored: Dexie) => Promise<T>, empty: T): Promise<T> {
+  if (!(await Dexie.exists(db.name))) return empty;
+
+  // Opening without declared versions uses whatever schema is on disk
+  const stored = new Dexie(db.name);
+  try {
+    await stored.open();
+    return await read(stored);
+  } finally {
+    stored.close();
+  }
+}
+
+/**
+ * Reads the stored schema version, 0 when GameDB has never been created
+ */
+function readStoredVersion(): Promise<number> {
+  return withStoredDatabase(async (stored) => stored.verno, 0);
+}
+
+/**
+ * Reads every stored record, for dry runs and the pre-migration snapshot
+ */
+function readStoredData(): Promise<MigrationData> {
+  return withStoredDatabase(async (stored) => {
+    const data: MigrationData = {};
+    for (const table of stored.tables) {
+      data[table.name] = await table.toArray();
+    }
+    return data;
+  }, {});
+}
+
+/**
+ * Reads the primary key path from a Dexie store definition (e.g. `++id, name` → `id`)
+ */
+function primaryKeyPath(definition: string | null | undefined): string {
+  return definition?.split(',')[0].replace(/^[+&]+/, '').trim() || 'id';
+}
+
+/**
+ * Counts records a step added, changed or removed in each table
+ */
+function countTouched(
+  before: MigrationData,
+  after: MigrationData,
+  stores: SchemaVersion['stores']
+): Record<string, number> {
+  const touched: Record<string, number> = {};
+  for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const keyPath = primaryKeyPath(stores[name]);
+    const keyOf = (record: unknown) => (record as Record<string, unknown>)[keyPath];
+    const previous = new Map(
+      (before[name] ?? []).map((record) => [keyOf(record), JSON.stringify(record)])
+    );
+    let count = 0;
+    for (const record of after[name] ?? []) {
+      const key = keyOf(record);
+      if (previous.get(key) !== JSON.stringify(record)) count++;
+      previous.delete(key);
+    }
+    touched[name] = count + previous.size;
+  }
+  return touched;
+}
+
+/**
+ * Replays pending upgrade steps in memory to see what each would change
+ */
+function simulate(fromVersion: number, data: MigrationData): MigrationStepReport[] {
+  const steps: MigrationStepReport[] = [];
+  let current = data;
+  for (const schema of schemaVersions) {
+    if (schema.version <= fromVersion || !schema.upgrade) continue;
+    const next = schema.upgrade(current);
+    steps.push({
+      version: schema.version,
+      description: schema.description,
+      touched: countTouched(current, next, schema.stores)
+    });
+    current = next;
+  }
+  return steps;
+}
+
+/**
+ * Brings GameDB up to the latest schema version and opens it.
+ * Pending steps are always dry-run first, then a snapshot is taken before
+ * the real upgrade; if the upgrade fails the snapshot is restored and a
+ * MigrationError is thrown.
+ * @param options.dryRun - Only report what each pending step would touch
+ * @returns Report of the steps that ran (or would run)
+ * @throws {MigrationError} If an upgrade fails
+ */
+export async function migrateDatabase(
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationReport> {
+  const fromVersion = await readStoredVersion();
+  const pending = fromVersion > 0 && fromVersion < latestVersion;
+  // Records are only read when an upgrade has to run
+  const data = pending ? await readStoredData() : {};
+
+  let steps: MigrationStepReport[] = [];
+  try {
+    steps = pending ? simulate(fromVersion, data) : [];
+  } catch (error) {
+    console.error('Database upgrade dry run failed:', error);
+    throw new MigrationError(
+      `Database upgrade from version ${fromVersion} cannot be applied; your data was left unchanged`,
+      fromVersion
+    );
+  }
+
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: latestVersion,
+    dryRun: !!options.dryRun,
+    steps
+  };
+
+  if (options.dryRun) return report;
+
+  if (pending) {
+    report.snapshotId = await takeSnapshot(fromVersion, data);
+  }
+
+  try {
+    await db.open();
+  } catch (error) {
+    console.error('Database upgrade failed:', error);
+    if (report.snapshotId === undefined) throw error;
+
+    await restoreSnapshot(report.snapshotId);
+    throw new MigrationError(
+      `Database upgrade from version ${fromVersion} failed; your data was restored`,
+      fromVersion,
+      report.snapshotId
+    );
+  }
+
+  return report;
+}
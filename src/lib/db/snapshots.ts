@@ -0,0 +1,107 @@
+import Dexie from 'dexie';
+import { db } from './index';
+import { schemaVersions } from './versions';
+import type { MigrationData } from './versions';
+
+/**
+ * A full copy of GameDB taken before a schema upgrade
+ */
+export interface MigrationSnapshot {
+  /** Auto-incremented snapshot ID */
+  id?: number;
+  /** When the snapshot was taken */
+  takenAt: Date;
+  /** Schema version the data was stored at */
+  version: number;
+  /** Every record of every table at that version */
+  data: MigrationData;
+}
+
+/** Number of snapshots kept before the oldest are discarded */
+const MAX_SNAPSHOTS = 3;
+
+/**
+ * Separate database holding pre-migration snapshots, so they survive
+ * GameDB being deleted during a rollback
+ */
+class SnapshotDB extends Dexie {
+  snapshots!: Dexie.Table<MigrationSnapshot, number>;
+
+  constructor() {
+    super('GameDBSnapshots');
+    this.version(1).stores({
+      snapshots: '++id, takenAt'
+    });
+  }
+}
+
+const snapshotDb = new SnapshotDB();
+
+/**
+ * Stores a snapshot and prunes old ones
+ * @param version - Schema version the data is stored at
+ * @param data - Records keyed by table name
+ * @returns The ID of the new snapshot
+ */
+export async function takeSnapshot(version: number, data: MigrationData): Promise<number> {
+  const id = await snapshotDb.snapshots.add({ takenAt: new Date(), version, data });
+
+  const stale = await snapshotDb.snapshots
+    .orderBy('takenAt')
+    .reverse()
+    .offset(MAX_SNAPSHOTS)
+    .primaryKeys();
+  await snapshotDb.snapshots.bulkDelete(stale);
+
+  return id;
+}
+
+/**
+ * Lists stored snapshots, newest first
+ */
+export async function getSnapshots(): Promise<MigrationSnapshot[]> {
+  return snapshotDb.snapshots.orderBy('takenAt').reverse().toArray();
+}
+
+/**
+ * Replaces the contents of GameDB with a snapshot, at the snapshot's schema
+ * version. The next time GameDB opens, pending upgrades run again from that
+ * version. The records are swapped in one transaction, so if the restore
+ * fails GameDB is left as it was; it is never deleted.
+ * @param id - ID of the snapshot to restore
+ * @throws {Error} If the snapshot does not exist, or GameDB is stored at
+ *         another schema version than the snapshot
+ */
+export async function restoreSnapshot(id: number): Promise<void> {
+  const snapshot = await snapshotDb.snapshots.get(id);
+  if (!snapshot) throw new Error('Snapshot not found');
+
+  const exists = await Dexie.exists(db.name);
+  const restored = new Dexie(db.name);
+  if (!exists) {
+    // Nothing to lose: create GameDB at the snapshot's version
+    for (const schema of schemaVersions) {
+      if (schema.version > snapshot.version) break;
+      restored.version(schema.version).stores(schema.stores);
+    }
+  }
+
+  try {
+    // Without declared versions, the schema on disk is used as it is. A failed
+    // upgrade rolls back, so that is normally the snapshot's version.
+    await restored.open();
+    if (restored.verno !== snapshot.version) {
+      throw new Error(
+        `Database is at version ${restored.verno} but the snapshot is at version ${snapshot.version}`
+      );
+    }
+    await restored.transaction('rw', restored.tables, async () => {
+      for (const table of restored.tables) {
+        await table.clear();
+        await table.bulkPut(snapshot.data[table.name] ?? []);
+      }
+    });
+  } finally {
+    restored.close();
+  }
+}
@@ -0,0 +1,117 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Character } from '../types';
+import { db } from './index';
+import { onRemoteChanges } from './sync';
+import type { SyncChange } from './sync';
+
+/** Stands in for another tab of the app */
+const otherTab = new BroadcastChannel('pbdtool-sync');
+
+const valeros: Character = {
+  id: 'valeros',
+  instanceId: 'campaign',
+  name: 'Valeros',
+  type: 'PC',
+  notes: '',
+  hp: { current: 20, max: 30 },
+  ac: 18,
+  lastUpdated: new Date(1000)
+};
+
+/**
+ * Resolves with the next batch of changes the other tab receives
+ */
+function nextBroadcast(): Promise<SyncChange[]> {
+  return new Promise((resolve) => {
+    otherTab.addEventListener('message', (event) => resolve(event.data), { once: true });
+  });
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([db.characters.clear(), db.history.clear()]);
+});
+
+afterAll(() => {
+  otherTab.close();
+});
+
+describe('broadcastChanges', () => {
+  it('announces a committed write once its transaction completes', async () => {
+    const received = nextBroadcast();
+    await db.characters.add(valeros);
+    expect(await received).toEqual([{ table: 'characters', key: 'valeros', deleted: false }]);
+  });
+
+  it('sends only the last change to each record in a transaction', async () => {
+    const added = nextBroadcast();
+    await db.characters.add(valeros);
+    await added;
+    const received = nextBroadcast();
+    await db.transaction('rw', db.characters, async () => {
+      await db.characters.update('valeros', { ac: 19 });
+      await db.characters.add({ ...valeros, id: 'ezren', name: 'Ezren' });
+      await db.characters.delete('valeros');
+    });
+    expect(await received).toEqual([
+      { table: 'characters', key: 'valeros', deleted: true },
+      { table: 'characters', key: 'ezren', deleted: false }
+    ]);
+  });
+
+  it('announces nothing for an aborted transaction', async () => {
+    const messages: SyncChange[][] = [];
+    const listener = (event: MessageEvent<SyncChange[]>) => messages.push(event.data);
+    otherTab.addEventListener('message', listener);
+
+    await expect(
+      db.transaction('rw', db.characters, async () => {
+        await db.characters.add(valeros);
+        throw new Error('Abort');
+      })
+    ).rejects.toThrow('Abort');
+    const received = nextBroadcast();
+    await db.characters.add({ ...valeros, id: 'ezren' });
+    await received;
+
+    otherTab.removeEventListener('message', listener);
+    expect(messages).toEqual([[{ table: 'characters', key: 'ezren', deleted: false }]]);
+  });
+
+  it('does not announce tables other tabs do not mirror', async () => {
+    const messages: SyncChange[][] = [];
+    const listener = (event: MessageEvent<SyncChange[]>) => messages.push(event.data);
+    otherTab.addEventListener('message', listener);
+
+    await db.history.put({ scope: 'global', undo: [], redo: [] });
+    const received = nextBroadcast();
+    await db.characters.add(valeros);
+    await received;
+
+    otherTab.removeEventListener('message', listener);
+    expect(messages.flat().map((c) => c.table)).toEqual(['characters']);
+  });
+});
+
+describe('onRemoteChanges', () => {
+  it('passes on changes from other tabs until stopped', async () => {
+    const change: SyncChange = { table: 'encounters', key: 'ambush', deleted: false };
+    const received: SyncChange[][] = [];
+    const stop = await new Promise<() => void>((resolve) => {
+      const stop = onRemoteChanges((changes) => {
+        received.push(changes);
+        resolve(stop);
+      });
+      otherTab.postMessage([change]);
+    });
+    stop();
+
+    otherTab.postMessage([change]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(received).toEqual([[change]]);
+  });
+});
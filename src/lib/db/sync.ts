@@ -0,0 +1,84 @@
+import type { Transaction } from 'dexie';
+import type { GameDB } from './index';
+
+/** BroadcastChannel shared by every tab of the app */
+const CHANNEL_NAME = 'pbdtool-sync';
+
+/** Tables whose changes are announced to other tabs */
+const SYNCED_TABLES = ['characters', 'instances', 'encounters', 'settings'] as const;
+
+export type SyncedTable = (typeof SYNCED_TABLES)[number];
+
+/**
+ * A record written or deleted in another tab
+ */
+export interface SyncChange {
+  table: SyncedTable;
+  /** Primary key of the record */
+  key: string;
+  deleted: boolean;
+}
+
+/**
+ * This tab's end of the channel. A BroadcastChannel never receives its own
+ * messages, so changes are only applied by the other tabs.
+ */
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+/** Changes made by each open transaction, posted once it commits */
+const pending = new WeakMap<Transaction, Map<string, SyncChange>>();
+
+/**
+ * Queues a change to be posted when its transaction commits, so aborted
+ * writes are never announced
+ */
+function queue(tx: Transaction, change: SyncChange) {
+  let changes = pending.get(tx);
+  if (!changes) {
+    const queued = new Map<string, SyncChange>();
+    changes = queued;
+    pending.set(tx, queued);
+    tx.on('complete', () => {
+      channel?.postMessage([...queued.values()]);
+    });
+  }
+  // Only the last change to a record in a transaction matters
+  changes.set(`${change.table}:${change.key}`, change);
+}
+
+/**
+ * Hooks the synced tables so every committed write is announced to other tabs
+ * @param database - The GameDB instance to watch
+ */
+export function broadcastChanges(database: GameDB) {
+  if (!channel) return;
+
+  for (const name of SYNCED_TABLES) {
+    const table = database.table(name);
+    const keyOf = (key: unknown, record?: Record<string, unknown>) =>
+      String(key ?? record?.[table.schema.primKey.keyPath as string]);
+
+    table.hook('creating', (key, record, tx) => {
+      queue(tx, { table: name, key: keyOf(key, record), deleted: false });
+    });
+    table.hook('updating', (_modifications, key, _record, tx) => {
+      queue(tx, { table: name, key: keyOf(key), deleted: false });
+    });
+    table.hook('deleting', (key, _record, tx) => {
+      queue(tx, { table: name, key: keyOf(key), deleted: true });
+    });
+  }
+}
+
+/**
+ * Listens for changes committed by other tabs
+ * @param listener - Called with the changes of each committed transaction
+ * @returns Function that stops listening
+ */
+export function onRemoteChanges(listener: (changes: SyncChange[]) => void): () => void {
+  if (!channel) return () => {};
+
+  const handler = (event: MessageEvent<SyncChange[]>) => listener(event.data);
+  channel.addEventListener('message', handler);
+  return () => channel.removeEventListener('message', handler);
+}
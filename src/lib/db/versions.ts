@@ -0,0 +1,140 @@
+import { upgradeToV2, upgradeToV7, upgradeToV8 } from './legacy';
+
+/**
+ * Records of every table keyed by table name, as read from or written to IndexedDB
+ */
+export type MigrationData = Record<string, unknown[]>;
+
+/**
+ * A single schema version of GameDB
+ */
+export interface SchemaVersion {
+  /** Dexie schema version number */
+  version: number;
+  /** Short description shown in migration reports */
+  description: string;
+  /** Dexie store definitions (null deletes a table) */
+  stores: Record<string, string | null>;
+  /**
+   * Rewrites the records of the previous version into this version's shape.
+   * Must be pure so it can be replayed in memory for dry runs.
+   */
+  upgrade?: (data: MigrationData) => MigrationData;
+}
+
+/**
+ * Ordered registry of every GameDB schema version.
+ * Append new versions to the end; never edit or remove a released entry.
+ */
+export const schemaVersions: SchemaVersion[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      characters: 'id, name, type, level',
+      instances: 'id, name, date',
+      encounters: 'id, name, gameInstanceId'
+    }
+  },
+  {
+    version: 2,
+    description: 'Unified character, instance and encounter model',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId'
+    },
+    upgrade: upgradeToV2
+  },
+  {
+    version: 3,
+    description: 'Settings table for app-wide configuration',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key'
+    }
+  },
+  {
+    version: 4,
+    description: 'Undo/redo history per encounter',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key',
+      history: 'scope'
+    }
+  },
+  {
+    version: 5,
+    description: 'Append-only combat log per encounter',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key',
+      history: 'scope',
+      combatLog: '++id, encounterId'
+    }
+  },
+  {
+    version: 6,
+    description: 'Outbox of Discord webhook messages waiting to be sent',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key',
+      history: 'scope',
+      combatLog: '++id, encounterId',
+      outbox: '++id, instanceId'
+    }
+  },
+  {
+    version: 7,
+    description: 'Valued conditions on encounter participants',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key',
+      history: 'scope',
+      combatLog: '++id, encounterId',
+      outbox: '++id, instanceId'
+    },
+    upgrade: upgradeToV7
+  },
+  {
+    version: 8,
+    description: 'Explicit turn order for encounters',
+    stores: {
+      characters: 'id, name, instanceId, type, relatedCharacterId',
+      instances: 'id, name, status',
+      encounters: 'id, name, instanceId',
+      settings: 'key',
+      history: 'scope',
+      combatLog: '++id, encounterId',
+      outbox: '++id, instanceId'
+    },
+    upgrade: upgradeToV8
+  }
+];
+
+/**
+ * The schema version GameDB is opened at
+ */
+export const latestVersion = schemaVersions[schemaVersions.length - 1].version;
+
+/**
+ * Runs every upgrade after `fromVersion` over a full copy of the data,
+ * e.g. to bring an old backup up to the current shape
+ * @param fromVersion - Schema version the data was stored at
+ * @param data - Records keyed by table name
+ */
+export function upgradeData(fromVersion: number, data: MigrationData): MigrationData {
+  return schemaVersions
+    .filter((schema) => schema.version > fromVersion && schema.upgrade)
+    .reduce((current, schema) => schema.upgrade!(current), data);
+}
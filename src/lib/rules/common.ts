@@ -0,0 +1,138 @@
+import type { TieBreaker } from '../types';
+import type { GameSystemId } from '../utils/gameSystem';
+
+/**
+ * How applying a valued condition the participant already has combines
+ * max: keep the higher value (PF2e)
+ * add: add the values (5e exhaustion levels)
+ */
+export type ConditionStacking = 'max' | 'add';
+
+/**
+ * A condition in a game system's catalogue
+ */
+export interface ConditionDefinition {
+  id: string;
+  name: string;
+  /** Whether the condition has a value, like frightened 2 */
+  valued: boolean;
+  /** Highest value the condition can reach, e.g. dying 4 */
+  maxValue?: number;
+  stacking?: ConditionStacking;
+  /** Reduced by 1 at the end of the affected creature's turn */
+  decrementAtEndOfTurn?: boolean;
+  /** Conditions that come with this one and go when it ends */
+  implies?: string[];
+}
+
+/**
+ * Condition definitions keyed by catalogue ID
+ */
+export type ConditionCatalogue = Record<string, Omit<ConditionDefinition, 'id'>>;
+
+/**
+ * How far a character is trained in a skill, save or attack. 5e only has
+ * proficiency and expertise, read as trained and expert.
+ */
+export type ProficiencyRank = 'untrained' | 'trained' | 'expert' | 'master' | 'legendary';
+
+/**
+ * How typed damage meets immunities, weaknesses and resistances
+ * flat: each instance on its own, with flat weakness and resistance values (PF2e)
+ * byType: totalled per type, then halved for resistance and doubled for vulnerability (5e)
+ */
+export type DamageRule = 'flat' | 'byType';
+
+/**
+ * What happens to a creature at 0 HP
+ * dying: it gains the dying condition and dies at `maxDying`, less its doomed value (PF2e)
+ * deathSaves: it makes death saves until `saves` successes or failures (5e)
+ * none: nothing; the GM decides
+ */
+export type DyingRules =
+  | { model: 'dying'; maxDying: number }
+  | { model: 'deathSaves'; saves: number }
+  | { model: 'none' };
+
+/**
+ * An encounter difficulty and the XP budget it starts at
+ */
+export interface DifficultyBudget {
+  difficulty: string;
+  /** Budget for a party of four */
+  xp: number;
+  /** Added or taken away for each character more or fewer than four */
+  perCharacter: number;
+}
+
+/**
+ * How an encounter's difficulty is worked out
+ * levelBudget: creatures cost XP by their level against the party's, and
+ * the total is compared with budgets for the party's size (PF2e)
+ * xpThresholds: creatures are worth XP by challenge rating, multiplied by
+ * how many there are and compared with per-character thresholds (5e)
+ * none: not rated
+ */
+export type EncounterBudget =
+  | {
+      model: 'levelBudget';
+      /** From easiest to hardest */
+      difficulties: DifficultyBudget[];
+      /** XP cost of a creature by its level minus the party's, from -4 to +4 */
+      creatureXp: Record<number, number>;
+    }
+  | {
+      model: 'xpThresholds';
+      /** From easiest to hardest */
+      difficulties: string[];
+      /** Each character's XP threshold per difficulty, by character level */
+      thresholds: Record<number, number[]>;
+      /** XP a creature is worth, by challenge rating ("1/4", "5") */
+      challengeXp: Record<string, number>;
+      /** Multiplier for the number of creatures, as [at least this many, multiplier] */
+      multipliers: [number, number][];
+    }
+  | { model: 'none' };
+
+/**
+ * The rules of a game system that the app automates. Selected per game
+ * instance from its free-text `system`, see rulesFor.
+ */
+export interface GameRules {
+  id: GameSystemId;
+  /** Display name, e.g. "Pathfinder 2E" */
+  name: string;
+  /** Modifier for an ability score, e.g. 16 → +3 */
+  abilityModifier(score: number): number;
+  /** Bonus a proficiency rank adds to checks at a character level */
+  proficiencyBonus(rank: ProficiencyRank, level: number): number;
+  /** Conditions that can be applied; any other name is a custom condition */
+  conditions: ConditionCatalogue;
+  /** How ties on initiative are broken unless the instance chooses otherwise */
+  tieBreaker: TieBreaker;
+  damage: DamageRule;
+  dying: DyingRules;
+  encounterBudget: EncounterBudget;
+  /**
+   * Who earns encounter XP
+   * party: every character earns the same, tracked as one total (PF2e)
+   * individual: the party splits it and each character tracks their own (5e)
+   */
+  experience: 'party' | 'individual';
+}
+
+/**
+ * The d20 convention both PF2e and 5e use: +1 for every 2 points above 10
+ */
+export function d20AbilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+export const flag = (name: string, implies?: string[]) => ({ name, valued: false, implies });
+
+export const valued = (name: string, options: Partial<ConditionDefinition> = {}) => ({
+  name,
+  valued: true,
+  stacking: 'max' as ConditionStacking,
+  ...options
+});
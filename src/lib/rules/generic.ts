@@ -0,0 +1,19 @@
+import { d20AbilityModifier, type GameRules } from './common';
+
+/**
+ * Fallback for systems without rules support: d20 ability modifiers and
+ * nothing automated beyond that
+ */
+export const genericRules: GameRules = {
+  id: 'generic',
+  name: 'Generic',
+  abilityModifier: d20AbilityModifier,
+  proficiencyBonus: () => 0,
+  // Free-form labels; any name can be applied
+  conditions: {},
+  tieBreaker: 'manual',
+  damage: 'flat',
+  dying: { model: 'none' },
+  encounterBudget: { model: 'none' },
+  experience: 'party'
+};
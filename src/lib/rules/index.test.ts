@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_RULES, formatModifier, rulesFor } from './index';
+
+describe('rulesFor', () => {
+  it('picks the rules module from the free-text game system', () => {
+    expect(rulesFor('Pathfinder 2E').id).toBe('pf2e');
+    expect(rulesFor('PF2e (Remaster)').id).toBe('pf2e');
+    expect(rulesFor('D&D 5E').id).toBe('dnd5e');
+    expect(rulesFor('Blades in the Dark').id).toBe('generic');
+    expect(rulesFor().id).toBe('generic');
+  });
+});
+
+describe('abilityModifier', () => {
+  it('uses the d20 ability modifier in every system', () => {
+    for (const rules of Object.values(GAME_RULES)) {
+      expect(rules.abilityModifier(16)).toBe(3);
+      expect(rules.abilityModifier(10)).toBe(0);
+      expect(rules.abilityModifier(7)).toBe(-2);
+    }
+  });
+});
+
+describe('proficiencyBonus', () => {
+  it('adds the level to the rank bonus in PF2e, except when untrained', () => {
+    expect(GAME_RULES.pf2e.proficiencyBonus('untrained', 5)).toBe(0);
+    expect(GAME_RULES.pf2e.proficiencyBonus('trained', 3)).toBe(5);
+    expect(GAME_RULES.pf2e.proficiencyBonus('legendary', 20)).toBe(28);
+  });
+
+  it('grows with level in 5e and doubles for expertise', () => {
+    expect(GAME_RULES.dnd5e.proficiencyBonus('untrained', 5)).toBe(0);
+    expect(GAME_RULES.dnd5e.proficiencyBonus('trained', 4)).toBe(2);
+    expect(GAME_RULES.dnd5e.proficiencyBonus('trained', 5)).toBe(3);
+    expect(GAME_RULES.dnd5e.proficiencyBonus('expert', 5)).toBe(6);
+  });
+
+  it('is always 0 for generic systems', () => {
+    expect(GAME_RULES.generic.proficiencyBonus('master', 10)).toBe(0);
+  });
+});
+
+describe('formatModifier', () => {
+  it('shows the sign', () => {
+    expect(formatModifier(3)).toBe('+3');
+    expect(formatModifier(0)).toBe('+0');
+    expect(formatModifier(-1)).toBe('-1');
+  });
+});
@@ -0,0 +1,38 @@
+import { gameSystemOf, type GameSystemId } from '../utils/gameSystem';
+import type { GameRules } from './common';
+import { dnd5eRules } from './dnd5e';
+import { genericRules } from './generic';
+import { pf2eRules } from './pf2e';
+
+export type {
+  ConditionCatalogue,
+  ConditionDefinition,
+  ConditionStacking,
+  DamageRule,
+  DifficultyBudget,
+  DyingRules,
+  EncounterBudget,
+  GameRules,
+  ProficiencyRank
+} from './common';
+
+export const GAME_RULES: Record<GameSystemId, GameRules> = {
+  pf2e: pf2eRules,
+  dnd5e: dnd5eRules,
+  generic: genericRules
+};
+
+/**
+ * The rules module for a game instance's free-text `system`, e.g.
+ * "Pathfinder 2E"; generic rules if it isn't one we support
+ */
+export function rulesFor(system?: string): GameRules {
+  return GAME_RULES[gameSystemOf(system)];
+}
+
+/**
+ * Shows a modifier with its sign, e.g. +3 or -1
+ */
+export function formatModifier(modifier: number): string {
+  return modifier >= 0 ? `+${modifier}` : `${modifier}`;
+}
@@ -0,0 +1,71 @@
+import { d20AbilityModifier, flag, valued, type GameRules, type ProficiencyRank } from './common';
+
+const RANK_BONUS: Record<ProficiencyRank, number> = {
+  untrained: 0,
+  trained: 2,
+  expert: 4,
+  master: 6,
+  legendary: 8
+};
+
+/**
+ * Pathfinder Second Edition (including the Remaster)
+ */
+export const pf2eRules: GameRules = {
+  id: 'pf2e',
+  name: 'Pathfinder 2E',
+  abilityModifier: d20AbilityModifier,
+  // Trained and better add the character's level
+  proficiencyBonus: (rank, level) => (rank === 'untrained' ? 0 : RANK_BONUS[rank] + level),
+  conditions: {
+    blinded: flag('Blinded'),
+    clumsy: valued('Clumsy'),
+    concealed: flag('Concealed'),
+    confused: flag('Confused', ['off-guard']),
+    controlled: flag('Controlled'),
+    dazzled: flag('Dazzled'),
+    deafened: flag('Deafened'),
+    doomed: valued('Doomed', { maxValue: 3 }),
+    drained: valued('Drained'),
+    dying: valued('Dying', { maxValue: 4 }),
+    encumbered: flag('Encumbered', ['clumsy']),
+    enfeebled: valued('Enfeebled'),
+    fascinated: flag('Fascinated'),
+    fatigued: flag('Fatigued'),
+    fleeing: flag('Fleeing'),
+    frightened: valued('Frightened', { decrementAtEndOfTurn: true }),
+    grabbed: flag('Grabbed', ['off-guard', 'immobilized']),
+    hidden: flag('Hidden'),
+    immobilized: flag('Immobilized'),
+    invisible: flag('Invisible'),
+    'off-guard': flag('Off-Guard'),
+    paralyzed: flag('Paralyzed', ['off-guard']),
+    petrified: flag('Petrified'),
+    prone: flag('Prone', ['off-guard']),
+    quickened: flag('Quickened'),
+    restrained: flag('Restrained', ['off-guard', 'immobilized']),
+    sickened: valued('Sickened'),
+    slowed: valued('Slowed'),
+    stunned: valued('Stunned'),
+    stupefied: valued('Stupefied'),
+    unconscious: flag('Unconscious', ['blinded', 'off-guard', 'prone']),
+    undetected: flag('Undetected'),
+    unnoticed: flag('Unnoticed'),
+    wounded: valued('Wounded')
+  },
+  tieBreaker: 'enemiesFirst',
+  damage: 'flat',
+  dying: { model: 'dying', maxDying: 4 },
+  encounterBudget: {
+    model: 'levelBudget',
+    difficulties: [
+      { difficulty: 'trivial', xp: 40, perCharacter: 10 },
+      { difficulty: 'low', xp: 60, perCharacter: 15 },
+      { difficulty: 'moderate', xp: 80, perCharacter: 20 },
+      { difficulty: 'severe', xp: 120, perCharacter: 30 },
+      { difficulty: 'extreme', xp: 160, perCharacter: 40 }
+    ],
+    creatureXp: { [-4]: 10, [-3]: 15, [-2]: 20, [-1]: 30, 0: 40, 1: 60, 2: 80, 3: 120, 4: 160 }
+  },
+  experience: 'party'
+};
@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { latestVersion, upgradeData } from '../db/versions';
+import type { MigrationData } from '../db/versions';
+import { getBackup } from '../db/backups';
+import { gunzip } from '../utils/compression';
+
+/**
+ * IDs of records that differ between a backup and the current data
+ */
+export interface TableDiff {
+  /** Records that exist now but not in the backup */
+  added: string[];
+  /** Records in the backup that have since been deleted */
+  removed: string[];
+  /** Records whose contents changed since the backup */
+  changed: string[];
+}
+
+export type BackupDiff = Record<'instances' | 'characters' | 'encounters', TableDiff>;
+
+/**
+ * Raised when a backup cannot be read or restored
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Serializes table data to JSON, tagging dates so they survive the round trip
+ */
+export function serialize(data: unknown): string {
+  return JSON.stringify(data, function (key, value) {
+    const raw = (this as Record<string, unknown>)[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+function deserialize(json: string): MigrationData {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$date === 'string'
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+/**
+ * GameDB tables that are backed up. The webhook outbox is left out: restoring
+ * it would post stale turn announcements again.
+ */
+export function backedUpTables() {
+  return db.tables.filter((table) => table.name !== 'outbox');
+}
+
+/**
+ * Reads every backed-up table in one consistent transaction
+ */
+export async function readAll(): Promise<MigrationData> {
+  const tables = backedUpTables();
+  return db.transaction('r', tables, async () => {
+    const data: MigrationData = {};
+    for (const table of tables) {
+      data[table.name] = await table.toArray();
+    }
+    return data;
+  });
+}
+
+/**
+ * Decodes a backup and upgrades it to the current schema version
+ * @throws {BackupError} If the backup does not exist or is from a newer version
+ */
+export async function loadBackupData(id: number): Promise<MigrationData> {
+  const backup = await getBackup(id);
+  if (!backup) {
+    throw new BackupError('Backup not found');
+  }
+  if (backup.version > latestVersion) {
+    throw new BackupError('Backup was created by a newer version of PbDTool');
+  }
+
+  const json =
+    backup.encoding === 'gzip'
+      ? await gunzip(backup.payload)
+      : new TextDecoder().decode(backup.payload);
+  return upgradeData(backup.version, deserialize(json));
+}
+
+/**
+ * Compares records by ID, optionally limited to one game instance
+ */
+export function diffTable(
+  backup: unknown[],
+  current: unknown[],
+  include: (record: Record<string, unknown>) => boolean
+): TableDiff {
+  const index = (records: unknown[]) =>
+    new Map(
+      (records as Record<string, unknown>[])
+        .filter(include)
+        .map((record) => [record.id as string, serialize(record)])
+    );
+  const before = index(backup);
+  const after = index(current);
+
+  const diff: TableDiff = { added: [], removed: [], changed: [] };
+  for (const [id, record] of after) {
+    if (!before.has(id)) diff.added.push(id);
+    else if (before.get(id) !== record) diff.changed.push(id);
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) diff.removed.push(id);
+  }
+  return diff;
+}
@@ -0,0 +1,73 @@
+export type BackupTier = 'hourly' | 'daily' | 'weekly';
+
+const TIERS: BackupTier[] = ['hourly', 'daily', 'weekly'];
+
+const INTERVAL_MS: Record<BackupTier, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Number of backups kept per tier. Each tier keeps the newest backup of each of
+ * its most recent periods, so the defaults keep a day of hourly backups, a week
+ * of daily ones and a month of weekly ones. A backup kept by any tier is kept.
+ */
+export type BackupRetention = Record<BackupTier, number>;
+
+/**
+ * Whether backups are taken and how many are kept
+ */
+export interface BackupConfig {
+  enabled: boolean;
+  retention: BackupRetention;
+}
+
+export const DEFAULT_CONFIG: BackupConfig = {
+  enabled: true,
+  retention: { hourly: 24, daily: 7, weekly: 4 }
+};
+
+/**
+ * Identifies the period a backup falls in, in local time so days and weeks
+ * start at local midnight
+ */
+const PERIOD_OF: Record<BackupTier, (date: Date) => number> = {
+  hourly: (date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()).getTime(),
+  daily: (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime(),
+  weekly: (date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay()).getTime()
+};
+
+/**
+ * How often backups must be taken to fill the finest tier that keeps any
+ * @returns Milliseconds between backups, or null if no tier keeps backups
+ */
+export function backupInterval(retention: BackupRetention): number | null {
+  const tier = TIERS.find((t) => retention[t] > 0);
+  return tier ? INTERVAL_MS[tier] : null;
+}
+
+/**
+ * Picks the backups the retention tiers keep. The newest backup is always kept.
+ * @param backups - Stored backups, newest first
+ * @returns IDs of the backups to keep
+ */
+export function retainedBackups(
+  backups: { id: number; takenAt: Date }[],
+  retention: BackupRetention
+): Set<number> {
+  const kept = new Set<number>(backups.slice(0, 1).map((b) => b.id));
+  for (const tier of TIERS) {
+    const periods = new Set<number>();
+    for (const backup of backups) {
+      if (periods.size >= retention[tier]) break;
+      const period = PERIOD_OF[tier](backup.takenAt);
+      if (periods.has(period)) continue;
+      periods.add(period);
+      kept.add(backup.id);
+    }
+  }
+  return kept;
+}
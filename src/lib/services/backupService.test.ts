@@ -0,0 +1,158 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Character, GameInstance } from '../types';
+import { db } from '../db';
+import { BackupError, backupService } from './backupService';
+import { backupInterval, retainedBackups } from './backupRetention';
+
+function instance(id: string): GameInstance {
+  return {
+    id,
+    name: id,
+    status: 'active',
+    createdAt: new Date(2024, 0, 1),
+    lastAccessed: new Date(2024, 0, 1)
+  };
+}
+
+function character(id: string, instanceId: string): Character {
+  return {
+    id,
+    instanceId,
+    name: id,
+    type: 'PC',
+    notes: '',
+    hp: { current: 10, max: 10 },
+    ac: 15,
+    lastUpdated: new Date(2024, 0, 2)
+  };
+}
+
+/**
+ * Backups taken at the given local times, newest first
+ */
+function takenAt(...dates: Date[]) {
+  return dates.map((date, i) => ({ id: i + 1, takenAt: date }));
+}
+
+async function clearBackups() {
+  const backups = new Dexie('GameDBBackups');
+  backups.version(1).stores({ backups: '++id, takenAt' });
+  await backups.open();
+  await backups.table('backups').clear();
+  backups.close();
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    db.instances.clear(),
+    db.characters.clear(),
+    db.encounters.clear(),
+    db.settings.clear(),
+    clearBackups()
+  ]);
+  await db.instances.bulkAdd([instance('campaign'), instance('other')]);
+  await db.characters.bulkAdd([character('valeros', 'campaign'), character('seoni', 'other')]);
+  await backupService.setConfig({
+    enabled: true,
+    retention: { hourly: 100, daily: 0, weekly: 0 }
+  });
+});
+
+describe('retainedBackups', () => {
+  const none = { hourly: 0, daily: 0, weekly: 0 };
+
+  it('keeps the newest backup of each of the most recent hours', () => {
+    const backups = takenAt(
+      new Date(2024, 5, 3, 12, 40),
+      new Date(2024, 5, 3, 12, 10),
+      new Date(2024, 5, 3, 11, 50),
+      new Date(2024, 5, 3, 9, 0)
+    );
+    expect([...retainedBackups(backups, { ...none, hourly: 2 })]).toEqual([1, 3]);
+  });
+
+  it('keeps one backup per day and per week on top of the hourly ones', () => {
+    const backups = takenAt(
+      new Date(2024, 5, 5, 10), // Wednesday
+      new Date(2024, 5, 5, 9),
+      new Date(2024, 5, 4, 22),
+      new Date(2024, 5, 4, 8),
+      new Date(2024, 5, 1, 20), // Saturday of the week before
+      new Date(2024, 4, 20, 20)
+    );
+    const kept = retainedBackups(backups, { hourly: 2, daily: 2, weekly: 3 });
+    expect([...kept].sort()).toEqual([1, 2, 3, 5, 6]);
+  });
+
+  it('always keeps the newest backup', () => {
+    expect([...retainedBackups(takenAt(new Date(), new Date(0)), none)]).toEqual([1]);
+  });
+});
+
+describe('backupInterval', () => {
+  it('backs up as often as the finest tier that keeps backups', () => {
+    expect(backupInterval({ hourly: 0, daily: 7, weekly: 4 })).toBe(24 * 60 * 60 * 1000);
+    expect(backupInterval({ hourly: 0, daily: 0, weekly: 0 })).toBeNull();
+  });
+});
+
+describe('backupService', () => {
+  it('takes a backup and deletes the ones the retention tiers no longer keep', async () => {
+    await backupService.setConfig({ retention: { hourly: 1, daily: 0, weekly: 0 } });
+    await backupService.create();
+    const id = await backupService.create();
+
+    const backups = await backupService.list();
+    expect(backups.map((b) => b.id)).toEqual([id]);
+    expect(backups[0].counts).toMatchObject({ instances: 2, characters: 2 });
+  });
+
+  it('only takes a scheduled backup when one is due', async () => {
+    expect(await backupService.runIfDue()).toBeDefined();
+    expect(await backupService.runIfDue()).toBeUndefined();
+
+    await db.characters.add(character('ezren', 'campaign'));
+    await backupService.setConfig({ enabled: false });
+    expect(await backupService.runIfDue()).toBeUndefined();
+  });
+
+  it('lists what changed since a backup, optionally for one instance', async () => {
+    const id = await backupService.create();
+    await db.characters.add(character('ezren', 'campaign'));
+    await db.characters.update('seoni', { ac: 16 });
+    await db.instances.delete('other');
+
+    const diff = await backupService.diff(id);
+    expect(diff.characters).toEqual({ added: ['ezren'], removed: [], changed: ['seoni'] });
+    expect(diff.instances.removed).toEqual(['other']);
+    expect((await backupService.diff(id, 'campaign')).characters.changed).toEqual([]);
+  });
+
+  it('restores the whole database, backing up the current data first', async () => {
+    const id = await backupService.create();
+    await db.characters.clear();
+
+    await backupService.restore(id);
+    expect(await db.characters.get('valeros')).toEqual(character('valeros', 'campaign'));
+    // Both backups fall in the same hour, so only the newest one is kept
+    const [latest] = await backupService.list();
+    expect(latest.counts.characters).toBe(0);
+  });
+
+  it('restores one instance and leaves the others as they are', async () => {
+    const id = await backupService.create();
+    await db.characters.bulkDelete(['valeros', 'seoni']);
+    await db.characters.add(character('ezren', 'campaign'));
+
+    await backupService.restoreInstance(id, 'campaign');
+    expect((await db.characters.toArray()).map((c) => c.id)).toEqual(['valeros']);
+    await expect(backupService.restoreInstance(id, 'missing')).rejects.toThrow(BackupError);
+    await expect(backupService.restoreInstance(-1, 'campaign')).rejects.toThrow('Backup not found');
+  });
+});
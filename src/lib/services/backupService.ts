@@ -0,0 +1,298 @@
+import type { Character, CombatLogEntry, Encounter, GameInstance } from '../types';
+import { db } from '../db';
+import type { Setting } from '../db';
+import { latestVersion } from '../db/versions';
+import { getBackups, getLatestBackup, saveBackup } from '../db/backups';
+import type { Backup } from '../db/backups';
+import { canCompress, gzip } from '../utils/compression';
+import { vaultService, VaultError } from './vaultService';
+import {
+  backedUpTables,
+  BackupError,
+  diffTable,
+  loadBackupData,
+  readAll,
+  serialize
+} from './backupData';
+import type { BackupDiff } from './backupData';
+import { backupInterval, DEFAULT_CONFIG, retainedBackups } from './backupRetention';
+import type { BackupConfig } from './backupRetention';
+
+export { BackupError } from './backupData';
+export type { BackupDiff, TableDiff } from './backupData';
+export type { BackupConfig, BackupRetention, BackupTier } from './backupRetention';
+
+/** Settings key the backup configuration is stored under */
+const CONFIG_KEY = 'backups';
+
+/** LocalStorage key of the manifest describing the latest backup */
+const MANIFEST_KEY = 'pbdtool-backup-manifest';
+
+/** How often the scheduler checks whether a backup is due */
+const CHECK_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Summary of the latest backup, kept in LocalStorage so it can be shown
+ * without opening the backup database
+ */
+export interface BackupManifest {
+  id: number;
+  /** ISO timestamp */
+  takenAt: string;
+  version: number;
+  counts: Record<string, number>;
+  /** Size of the stored payload in bytes */
+  size: number;
+}
+
+function writeManifest(manifest: BackupManifest) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(MANIFEST_KEY, JSON.stringify(manifest));
+  } catch (error) {
+    // The manifest is a convenience; a full LocalStorage must not fail the backup
+    console.error('Error writing backup manifest:', error);
+  }
+}
+
+export const backupService = {
+  async getConfig(): Promise<BackupConfig> {
+    try {
+      const setting = await db.settings.get(CONFIG_KEY);
+      return { ...DEFAULT_CONFIG, ...(setting?.value as Partial<BackupConfig> | undefined) };
+    } catch (error) {
+      console.error('Error getting backup config:', error);
+      throw error;
+    }
+  },
+
+  async setConfig(config: Partial<BackupConfig>): Promise<BackupConfig> {
+    try {
+      const next = { ...(await this.getConfig()), ...config };
+      await db.settings.put({ key: CONFIG_KEY, value: next });
+      return next;
+    } catch (error) {
+      console.error('Error saving backup config:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * The latest backup's manifest from LocalStorage, if any
+   */
+  getManifest(): BackupManifest | null {
+    if (typeof localStorage === 'undefined') return null;
+    const raw = localStorage.getItem(MANIFEST_KEY);
+    return raw ? (JSON.parse(raw) as BackupManifest) : null;
+  },
+
+  /**
+   * Lists stored backups, newest first
+   */
+  async list(): Promise<Backup[]> {
+    try {
+      return await getBackups();
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Takes a compressed backup of the GameDB tables and deletes the backups the
+   * retention tiers no longer keep.
+   * Vault-protected fields stay encrypted in the backup.
+   * @returns The ID of the new backup
+   */
+  async create(): Promise<number> {
+    try {
+      const data = await readAll();
+      const json = serialize(data);
+      const payload = canCompress ? await gzip(json) : new TextEncoder().encode(json);
+      const counts = Object.fromEntries(
+        Object.entries(data).map(([name, records]) => [name, records.length])
+      );
+      const takenAt = new Date();
+
+      const { retention } = await this.getConfig();
+      const id = await saveBackup(
+        {
+          takenAt,
+          version: latestVersion,
+          encoding: canCompress ? 'gzip' : 'utf-8',
+          payload,
+          counts
+        },
+        (backups) => retainedBackups(backups, retention)
+      );
+      writeManifest({
+        id,
+        takenAt: takenAt.toISOString(),
+        version: latestVersion,
+        counts,
+        size: payload.byteLength
+      });
+      return id;
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Takes a backup if backups are enabled and the latest one is older than
+   * the finest retention tier that keeps any
+   * @returns The ID of the new backup, or undefined if none was due
+   */
+  async runIfDue(): Promise<number | undefined> {
+    const config = await this.getConfig();
+    const interval = backupInterval(config.retention);
+    if (!config.enabled || interval === null) return undefined;
+
+    const latest = await getLatestBackup();
+    if (latest && Date.now() - latest.takenAt.getTime() < interval) {
+      return undefined;
+    }
+    return this.create();
+  },
+
+  /**
+   * Checks for a due backup now and then periodically
+   * @returns Function that stops the schedule
+   */
+  schedule(): () => void {
+    const run = () => {
+      this.runIfDue().catch((error) => console.error('Scheduled backup failed:', error));
+    };
+    run();
+    const timer = setInterval(run, CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  },
+
+  /**
+   * Compares a backup with the current data
+   * @param id - Backup ID
+   * @param instanceId - Only compare this game instance and its records
+   */
+  async diff(id: number, instanceId?: string): Promise<BackupDiff> {
+    try {
+      const [backup, current] = await Promise.all([loadBackupData(id), readAll()]);
+      const inInstance = (field: string) => (record: Record<string, unknown>) =>
+        !instanceId || record[field] === instanceId;
+
+      return {
+        instances: diffTable(backup.instances ?? [], current.instances, inInstance('id')),
+        characters: diffTable(
+          backup.characters ?? [],
+          current.characters,
+          inInstance('instanceId')
+        ),
+        encounters: diffTable(
+          backup.encounters ?? [],
+          current.encounters,
+          inInstance('instanceId')
+        )
+      };
+    } catch (error) {
+      console.error('Error comparing backup:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replaces all backed-up GameDB data with a backup. A backup of the current data is
+   * taken first, so the restore itself can be undone.
+   * @param id - Backup ID
+   */
+  async restore(id: number): Promise<void> {
+    try {
+      const data = await loadBackupData(id);
+      await this.create();
+
+      const tables = backedUpTables();
+      await db.transaction('rw', tables, async () => {
+        for (const table of tables) {
+          // Deleting through a collection rather than clear() announces the deletes to other tabs
+          await table.toCollection().delete();
+          await table.bulkPut(data[table.name] ?? []);
+        }
+      });
+      // The vault configuration may have been restored too
+      await vaultService.load();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Restores one game instance, its characters, encounters and combat log
+   * from a backup, leaving everything else untouched. A backup of the current
+   * data is taken first.
+   * @param id - Backup ID
+   * @param instanceId - Instance to restore
+   * @throws {VaultError} If the backup was encrypted under a different passphrase
+   */
+  async restoreInstance(id: number, instanceId: string): Promise<void> {
+    try {
+      const data = await loadBackupData(id);
+      const instance = (data.instances as GameInstance[]).find((i) => i.id === instanceId);
+      if (!instance) {
+        throw new BackupError('Game instance is not in this backup');
+      }
+      let restored = instance;
+      let characters = (data.characters as Character[]).filter(
+        (c) => c.instanceId === instanceId
+      );
+      const encounters = (data.encounters as Encounter[]).filter(
+        (e) => e.instanceId === instanceId
+      );
+      const encounterIds = new Set(encounters.map((e) => e.id));
+      const combatLog = ((data.combatLog ?? []) as CombatLogEntry[]).filter((entry) =>
+        encounterIds.has(entry.encounterId)
+      );
+
+      // Records from a backup under another vault key cannot be mixed with current data
+      const vaultSalt = (setting?: Setting) => (setting?.value as { salt?: string } | undefined)?.salt;
+      const backupSalt = vaultSalt(
+        ((data.settings ?? []) as Setting[]).find((s) => s.key === 'vault')
+      );
+      const currentSalt = vaultSalt(await db.settings.get('vault'));
+      if (backupSalt !== currentSalt) {
+        if (backupSalt) {
+          throw new VaultError(
+            'This backup was encrypted with a different vault passphrase; restore the whole database instead'
+          );
+        }
+        restored = await vaultService.encryptInstance(restored);
+        characters = await Promise.all(characters.map(vaultService.encryptCharacter));
+      }
+      await this.create();
+
+      await db.transaction(
+        'rw',
+        [db.instances, db.characters, db.encounters, db.combatLog],
+        async () => {
+          const currentEncounterIds = await db.encounters
+            .where('instanceId')
+            .equals(instanceId)
+            .primaryKeys();
+          await db.characters.where('instanceId').equals(instanceId).delete();
+          await db.encounters.where('instanceId').equals(instanceId).delete();
+          await db.combatLog
+            .where('encounterId')
+            .anyOf([...currentEncounterIds, ...encounterIds])
+            .delete();
+
+          await db.instances.put(restored);
+          await db.characters.bulkPut(characters);
+          await db.encounters.bulkPut(encounters);
+          await db.combatLog.bulkPut(combatLog);
+        }
+      );
+    } catch (error) {
+      console.error('Error restoring game instance from backup:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Character, CharacterType, Encounter, GameInstance } from '../types';
+import { db } from '../db';
+import { latestVersion } from '../db/versions';
+import { BundleError, campaignBundleService } from './campaignBundleService';
+import type { CampaignBundle } from './campaignBundleService';
+
+const instance: GameInstance = {
+  id: 'campaign',
+  name: 'Age of Ashes',
+  webhookUrl: 'https://discord.com/api/webhooks/1/secret',
+  status: 'active',
+  createdAt: new Date(2024, 0, 1),
+  lastAccessed: new Date(2024, 0, 2)
+};
+
+function character(id: string, type: CharacterType = 'PC', relatedCharacterId?: string): Character {
+  return {
+    id,
+    instanceId: 'campaign',
+    name: id,
+    type,
+    ...(relatedCharacterId && { relatedCharacterId }),
+    notes: '',
+    hp: { current: 10, max: 10 },
+    ac: 15,
+    lastUpdated: new Date(2024, 0, 3)
+  };
+}
+
+function encounter(characterIds: string[], currentTurn = 0): Encounter {
+  return {
+    id: 'ambush',
+    instanceId: 'campaign',
+    name: 'Ambush',
+    isActive: true,
+    currentRound: 2,
+    currentTurn,
+    participants: characterIds.map((characterId, i) => ({ characterId, initiative: 20 - i })),
+    createdAt: new Date(2024, 0, 4),
+    lastUpdated: new Date(2024, 0, 4)
+  };
+}
+
+function bundle(characters: Character[], encounters: Encounter[]): CampaignBundle {
+  return {
+    format: 'pbdtool-campaign',
+    version: 1,
+    schemaVersion: latestVersion,
+    exportedAt: new Date(),
+    instance,
+    characters,
+    encounters
+  };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([db.instances.clear(), db.characters.clear(), db.encounters.clear()]);
+});
+
+describe('campaignBundleService.exportInstance', () => {
+  it('packages the instance with its characters and encounters, without the webhook', async () => {
+    await db.instances.add(instance);
+    await db.characters.bulkAdd([character('ezren'), character('hoot', 'Familiar', 'ezren')]);
+    await db.encounters.add(encounter(['ezren', 'hoot']));
+
+    const exported = await campaignBundleService.exportInstance('campaign');
+    expect(exported.schemaVersion).toBe(latestVersion);
+    expect(exported.instance).not.toHaveProperty('webhookUrl');
+    expect(exported.characters.map((c) => c.id).sort()).toEqual(['ezren', 'hoot']);
+    expect(exported.encounters).toHaveLength(1);
+  });
+});
+
+describe('campaignBundleService.parse', () => {
+  it('reads back a serialized bundle with its dates', () => {
+    const json = campaignBundleService.serialize(bundle([character('ezren')], []));
+    const parsed = campaignBundleService.parse(json);
+    expect(parsed.instance.createdAt).toEqual(instance.createdAt);
+    expect(parsed.characters[0].lastUpdated).toBeInstanceOf(Date);
+  });
+
+  it('rejects files that are not bundles this version can read', () => {
+    expect(() => campaignBundleService.parse('not json')).toThrow(BundleError);
+    expect(() => campaignBundleService.parse('{"format":"other"}')).toThrow(BundleError);
+    const newer = { ...bundle([], []), schemaVersion: latestVersion + 1 };
+    expect(() => campaignBundleService.parse(JSON.stringify(newer))).toThrow(/newer version/);
+  });
+
+  it('upgrades encounters exported before the explicit turn order', () => {
+    const old: Partial<Encounter> = encounter(['ezren', 'valeros']);
+    delete old.currentTurn;
+    const json = JSON.stringify({
+      ...bundle([character('ezren'), character('valeros')], []),
+      schemaVersion: 7,
+      encounters: [{ ...old, currentInitiative: 19 }]
+    });
+    expect(campaignBundleService.parse(json).encounters[0].currentTurn).toBe(1);
+  });
+});
+
+describe('campaignBundleService.importBundle', () => {
+  it('imports under fresh IDs and rewires the references', async () => {
+    const result = await campaignBundleService.importBundle(
+      bundle([character('ezren'), character('hoot', 'Familiar', 'ezren')], [encounter(['hoot'])])
+    );
+    const ezren = result.idMap.get('ezren')!;
+    const hoot = await db.characters.get(result.idMap.get('hoot')!);
+    expect(ezren).not.toBe('ezren');
+    expect(hoot).toMatchObject({ relatedCharacterId: ezren, instanceId: result.instance.id });
+    const [imported] = await db.encounters.toArray();
+    expect(imported.participants[0].characterId).toBe(hoot!.id);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('writes nothing on a dry run, and reports a duplicate name', async () => {
+    await db.instances.add(instance);
+    const result = await campaignBundleService.importBundle(bundle([character('ezren')], []), {
+      dryRun: true
+    });
+    expect(result.conflicts.map((c) => c.kind)).toEqual(['duplicate-instance']);
+    expect(await db.characters.count()).toBe(0);
+  });
+
+  it('imports a Familiar whose master is missing as a standalone NPC', async () => {
+    const result = await campaignBundleService.importBundle(
+      bundle([character('hoot', 'Familiar', 'ezren')], [])
+    );
+    const [hoot] = await db.characters.toArray();
+    expect(hoot.type).toBe('NPC');
+    expect(hoot).not.toHaveProperty('relatedCharacterId');
+    expect(result.conflicts.map((c) => c.kind)).toEqual(['missing-related-character']);
+  });
+
+  it('keeps the turn with the creature that has it when others are dropped', async () => {
+    const result = await campaignBundleService.importBundle(
+      bundle(
+        [character('ezren'), character('valeros')],
+        [encounter(['lost', 'ezren', 'valeros'], 2)]
+      )
+    );
+    const [imported] = result.encounters;
+    expect(imported.participants).toHaveLength(2);
+    expect(imported.participants[imported.currentTurn].characterId).toBe(
+      result.idMap.get('valeros')
+    );
+    expect(result.conflicts.map((c) => c.kind)).toEqual(['missing-participant']);
+  });
+
+  it('passes the turn on when the creature that had it is dropped', async () => {
+    const result = await campaignBundleService.importBundle(
+      bundle([character('ezren')], [encounter(['ezren', 'lost'], 1)])
+    );
+    const [imported] = result.encounters;
+    expect(imported).toMatchObject({ currentTurn: 0, currentRound: 3 });
+  });
+});
@@ -0,0 +1,294 @@
+import type { Character, GameInstance, Encounter, ParticipantEffect } from '../types';
+import { db } from '../db';
+import { latestVersion, upgradeData } from '../db/versions';
+import { followTurn } from '../utils/turnOrder';
+import { vaultService, VaultError } from './vaultService';
+
+/** Identifies a PbDTool campaign bundle file */
+const BUNDLE_FORMAT = 'pbdtool-campaign';
+
+/** Version of the bundle file layout */
+const BUNDLE_VERSION = 1;
+
+/**
+ * A game instance with all of its characters and encounters, as a portable file
+ */
+export interface CampaignBundle {
+  format: typeof BUNDLE_FORMAT;
+  /** Version of the bundle layout */
+  version: number;
+  /** GameDB schema version the records were exported from */
+  schemaVersion: number;
+  exportedAt: Date;
+  instance: GameInstance;
+  characters: Character[];
+  encounters: Encounter[];
+}
+
+/**
+ * A problem found while importing a bundle
+ */
+export interface ImportConflict {
+  kind: 'duplicate-instance' | 'missing-related-character' | 'missing-participant';
+  message: string;
+}
+
+/**
+ * Outcome (or, for dry runs, forecast) of importing a bundle
+ */
+export interface ImportResult {
+  dryRun: boolean;
+  instance: GameInstance;
+  characters: Character[];
+  encounters: Encounter[];
+  /** Maps IDs in the bundle to the newly generated IDs */
+  idMap: Map<string, string>;
+  conflicts: ImportConflict[];
+}
+
+/**
+ * Raised when a file is not a bundle this version of the app can read
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+/**
+ * Converts serialized date strings back into Date objects
+ */
+function reviveDates<T>(record: T, fields: (keyof T)[]): T {
+  const revived = { ...record };
+  for (const field of fields) {
+    const value = revived[field];
+    if (value !== undefined) {
+      revived[field] = new Date(value as string) as T[keyof T];
+    }
+  }
+  return revived;
+}
+
+/**
+ * Points an effect at the re-keyed creatures. A source or anchor that is not
+ * in the bundle is dropped; the expiry then falls back to its initiative.
+ */
+function rekeyEffect(effect: ParticipantEffect, idMap: Map<string, string>): ParticipantEffect {
+  const { sourceId, expiresAt, ...rest } = effect;
+  const { characterId, ...expiry } = expiresAt;
+  const source = sourceId && idMap.get(sourceId);
+  const anchor = characterId && idMap.get(characterId);
+  return {
+    ...rest,
+    ...(source && { sourceId: source }),
+    expiresAt: { ...expiry, ...(anchor && { characterId: anchor }) }
+  };
+}
+
+/**
+ * Re-keys every record in a bundle and rewires the references between them
+ */
+function rekeyBundle(bundle: CampaignBundle) {
+  const idMap = new Map<string, string>();
+  const conflicts: ImportConflict[] = [];
+  const instanceId = crypto.randomUUID();
+  idMap.set(bundle.instance.id, instanceId);
+  bundle.characters.forEach((c) => idMap.set(c.id, crypto.randomUUID()));
+  bundle.encounters.forEach((e) => idMap.set(e.id, crypto.randomUUID()));
+
+  const characters = bundle.characters.map((character): Character => {
+    const { relatedCharacterId, ...rekeyed } = {
+      ...character,
+      id: idMap.get(character.id)!,
+      instanceId
+    };
+    if (!relatedCharacterId) return rekeyed;
+
+    const related = idMap.get(relatedCharacterId);
+    if (related) return { ...rekeyed, relatedCharacterId: related };
+    // Familiars, Eidolons and Companions need the character they belong to
+    conflicts.push({
+      kind: 'missing-related-character',
+      message: `${character.name} is linked to a character that is not in the bundle, and is imported as an NPC`
+    });
+    return { ...rekeyed, type: 'NPC' };
+  });
+
+  const encounters = bundle.encounters.map((encounter) => {
+    const participants = encounter.participants.filter((participant) => {
+      if (idMap.has(participant.characterId)) return true;
+      conflicts.push({
+        kind: 'missing-participant',
+        message: `${encounter.name} has a participant that is not in the bundle`
+      });
+      return false;
+    });
+    return {
+      ...encounter,
+      // The turn stays with the creature that has it, or passes on if it was dropped
+      ...followTurn(encounter, participants),
+      id: idMap.get(encounter.id)!,
+      instanceId,
+      participants: participants.map((participant) => ({
+        ...participant,
+        characterId: idMap.get(participant.characterId)!,
+        ...(participant.effects && {
+          effects: participant.effects.map((effect) => rekeyEffect(effect, idMap))
+        })
+      }))
+    };
+  });
+
+  return {
+    instance: { ...bundle.instance, id: instanceId },
+    characters,
+    encounters,
+    idMap,
+    conflicts
+  };
+}
+
+export const campaignBundleService = {
+  /**
+   * Packages a game instance with its characters (including related
+   * Familiars/Eidolons/Companions) and encounters
+   * @param instanceId - ID of the instance to export
+   * @throws {Error} If the instance does not exist
+   */
+  async exportInstance(instanceId: string): Promise<CampaignBundle> {
+    try {
+      if (vaultService.status() === 'locked') {
+        throw new VaultError('Unlock the vault before exporting');
+      }
+
+      const instance = await db.instances.get(instanceId);
+      if (!instance) {
+        throw new Error('Game instance not found');
+      }
+
+      const [characters, encounters] = await Promise.all([
+        db.characters.where('instanceId').equals(instanceId).toArray(),
+        db.encounters.where('instanceId').equals(instanceId).toArray()
+      ]);
+
+      // Pull in related characters that were filed under another instance
+      const ids = new Set(characters.map((c) => c.id));
+      const related = await db.characters
+        .where('relatedCharacterId')
+        .anyOf([...ids])
+        .filter((c) => !ids.has(c.id))
+        .toArray();
+
+      // Anyone holding the webhook URL can post to the channel, so it is not shared
+      const shared = await vaultService.decryptInstance(instance);
+      delete shared.webhookUrl;
+
+      return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        schemaVersion: latestVersion,
+        exportedAt: new Date(),
+        instance: shared,
+        characters: await Promise.all(
+          [...characters, ...related].map(vaultService.decryptCharacter)
+        ),
+        encounters
+      };
+    } catch (error) {
+      console.error('Error exporting game instance:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Serializes a bundle to the JSON file contents
+   */
+  serialize(bundle: CampaignBundle): string {
+    return JSON.stringify(bundle, null, 2);
+  },
+
+  /**
+   * Parses and validates bundle file contents
+   * @throws {BundleError} If the contents are not a readable bundle
+   */
+  parse(json: string): CampaignBundle {
+    let raw: CampaignBundle;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new BundleError('File is not valid JSON');
+    }
+
+    if (raw?.format !== BUNDLE_FORMAT) {
+      throw new BundleError('File is not a PbDTool campaign bundle');
+    }
+    if (raw.version > BUNDLE_VERSION || raw.schemaVersion > latestVersion) {
+      throw new BundleError('Bundle was created by a newer version of PbDTool');
+    }
+    if (!raw.instance || !Array.isArray(raw.characters) || !Array.isArray(raw.encounters)) {
+      throw new BundleError('Bundle is missing required data');
+    }
+
+    // Bring records from older versions up to the current shape
+    const upgraded = upgradeData(raw.schemaVersion, {
+      instances: [raw.instance],
+      characters: raw.characters,
+      encounters: raw.encounters
+    });
+    const instance = upgraded.instances[0] as GameInstance;
+    const characters = upgraded.characters as Character[];
+    const encounters = upgraded.encounters as Encounter[];
+
+    return {
+      ...raw,
+      schemaVersion: latestVersion,
+      exportedAt: new Date(raw.exportedAt),
+      instance: reviveDates(instance, ['createdAt', 'lastAccessed']),
+      characters: characters.map((c) => reviveDates(c, ['lastUpdated'])),
+      encounters: encounters.map((e) => reviveDates(e, ['createdAt', 'lastUpdated']))
+    };
+  },
+
+  /**
+   * Imports a bundle under fresh IDs so it never overwrites existing data
+   * @param bundle - Parsed bundle
+   * @param options.dryRun - Only report what would be imported and any conflicts
+   */
+  async importBundle(
+    bundle: CampaignBundle,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ImportResult> {
+    try {
+      const rekeyed = rekeyBundle(bundle);
+
+      const sameName = await db.instances
+        .where('name')
+        .equals(bundle.instance.name)
+        .count();
+      if (sameName > 0) {
+        rekeyed.conflicts.unshift({
+          kind: 'duplicate-instance',
+          message: `A game instance named "${bundle.instance.name}" already exists`
+        });
+      }
+
+      if (!options.dryRun) {
+        const instance = await vaultService.encryptInstance(rekeyed.instance);
+        const characters = await Promise.all(
+          rekeyed.characters.map(vaultService.encryptCharacter)
+        );
+        await db.transaction('rw', db.instances, db.characters, db.encounters, async () => {
+          await db.instances.add(instance);
+          await db.characters.bulkAdd(characters);
+          await db.encounters.bulkAdd(rekeyed.encounters);
+        });
+      }
+
+      return { dryRun: !!options.dryRun, ...rekeyed };
+    } catch (error) {
+      console.error('Error importing campaign bundle:', error);
+      throw error;
+    }
+  }
+};
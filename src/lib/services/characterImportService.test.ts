@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ImportedCharacter } from '../types';
+import { db } from '../db';
+import { CharacterImportError, characterImportService } from './characterImportService';
+
+function imported(hpMax: number, ac = 21): ImportedCharacter {
+  return {
+    character: { name: 'Ezren', ac, level: 3, class: 'Wizard', hpMax },
+    related: [{ name: 'Hoot', type: 'Familiar', level: 3, hpMax: 15, ac }],
+    warnings: []
+  };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([db.instances.clear(), db.characters.clear()]);
+  await db.instances.add({
+    id: 'campaign',
+    name: 'Age of Ashes',
+    status: 'active',
+    createdAt: new Date(),
+    lastAccessed: new Date()
+  });
+});
+
+describe('characterImportService.importCharacter', () => {
+  it('creates a PC at full HP with its Familiar linked to it', async () => {
+    const result = await characterImportService.importCharacter('campaign', imported(30), {
+      discordId: '222'
+    });
+    expect(result.created).toBe(true);
+    expect(result.character).toMatchObject({
+      instanceId: 'campaign',
+      type: 'PC',
+      discordId: '222',
+      class: 'Wizard',
+      hp: { current: 30, max: 30 }
+    });
+    expect(result.related).toMatchObject([
+      { name: 'Hoot', type: 'Familiar', relatedCharacterId: result.character.id, ac: 21 }
+    ]);
+  });
+
+  it('needs a Discord ID to create a new PC', async () => {
+    await expect(characterImportService.importCharacter('campaign', imported(30))).rejects.toThrow(
+      CharacterImportError
+    );
+    expect(await db.characters.count()).toBe(0);
+  });
+
+  it('updates the PC with the same name on re-import, keeping HP and notes', async () => {
+    const first = await characterImportService.importCharacter('campaign', imported(30), {
+      discordId: '222'
+    });
+    await db.characters.update(first.character.id, {
+      notes: 'Owes Hoot a mouse',
+      hp: { current: 12, max: 30 }
+    });
+
+    const second = await characterImportService.importCharacter('campaign', imported(36, 22));
+    expect(second.created).toBe(false);
+    expect(second.character).toMatchObject({
+      id: first.character.id,
+      notes: 'Owes Hoot a mouse',
+      discordId: '222',
+      ac: 22,
+      hp: { current: 12, max: 36 }
+    });
+    expect(second.related).toMatchObject([{ id: first.related[0].id, ac: 22 }]);
+    expect(await db.characters.count()).toBe(2);
+  });
+
+  it('caps current HP at a lower new maximum', async () => {
+    await characterImportService.importCharacter('campaign', imported(30), { discordId: '222' });
+    const { character } = await characterImportService.importCharacter('campaign', imported(20));
+    expect(character.hp).toEqual({ current: 20, max: 20 });
+  });
+
+  it('rejects an unknown instance or character', async () => {
+    await expect(
+      characterImportService.importCharacter('missing', imported(30), { discordId: '222' })
+    ).rejects.toThrow('Game instance not found');
+    await expect(
+      characterImportService.importCharacter('campaign', imported(30), { characterId: 'missing' })
+    ).rejects.toThrow('Character not found');
+  });
+});
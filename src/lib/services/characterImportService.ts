@@ -0,0 +1,150 @@
+import type { Character, ImportedCharacter } from '../types';
+import { db } from '../db';
+import { nextStamp } from '../db/concurrency';
+import { vaultService } from './vaultService';
+
+export interface CharacterImportOptions {
+  /** Character to update; by default the instance's PC with the same name */
+  characterId?: string;
+  /** Player's Discord ID; required when a new PC is created */
+  discordId?: string;
+}
+
+export interface CharacterImportResult {
+  character: Character;
+  /** Familiars, Companions and Eidolons created or updated with it */
+  related: Character[];
+  /** Whether a new PC was created rather than an existing one updated */
+  created: boolean;
+  warnings: string[];
+}
+
+/**
+ * Raised when an imported character cannot be stored
+ */
+export class CharacterImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CharacterImportError';
+  }
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Sets a new maximum, keeping current HP (but never above the maximum)
+ */
+function withMax(hp: Character['hp'], max: number): Character['hp'] {
+  return { ...hp, max, current: Math.min(hp.current, max) };
+}
+
+export const characterImportService = {
+  /**
+   * Stores a character read from another tool's export in a game instance,
+   * with its Familiars, Companions and Eidolons as related characters.
+   * Re-importing updates the existing character instead, keeping its current
+   * HP, notes and Discord ID; related characters are matched by name and type.
+   * @param instanceId - Game instance to import into
+   * @param imported - Output of an importer such as fromPathbuilder
+   * @throws {CharacterImportError} If a new PC would have no Discord ID
+   */
+  async importCharacter(
+    instanceId: string,
+    imported: ImportedCharacter,
+    options: CharacterImportOptions = {}
+  ): Promise<CharacterImportResult> {
+    try {
+      // WebCrypto cannot run inside a Dexie transaction, so encrypt up front
+      const { discordId } = options.discordId
+        ? await vaultService.encryptCharacter({ discordId: options.discordId })
+        : { discordId: undefined };
+      const { hpMax, ...fields } = imported.character;
+
+      const { ids, created } = await db.transaction('rw', db.instances, db.characters, async () => {
+        if (!(await db.instances.get(instanceId))) {
+          throw new Error('Game instance not found');
+        }
+
+        const existing = options.characterId
+          ? await db.characters.get(options.characterId)
+          : await db.characters
+              .where('instanceId')
+              .equals(instanceId)
+              .filter((c) => c.type === 'PC' && normalize(c.name) === normalize(fields.name))
+              .first();
+        if (options.characterId && !existing) {
+          throw new Error('Character not found');
+        }
+
+        let characterId: string;
+        if (existing) {
+          characterId = existing.id;
+          await db.characters.update(characterId, {
+            ...fields,
+            hp: withMax(existing.hp, hpMax),
+            ...(discordId && { discordId }),
+            lastUpdated: nextStamp(existing.lastUpdated)
+          });
+        } else {
+          if (!discordId) {
+            throw new CharacterImportError(`A Discord ID is needed to import ${fields.name} as a new PC`);
+          }
+          characterId = crypto.randomUUID();
+          await db.characters.add({
+            ...fields,
+            id: characterId,
+            instanceId,
+            type: 'PC',
+            discordId,
+            notes: '',
+            hp: { current: hpMax, max: hpMax },
+            lastUpdated: new Date()
+          });
+        }
+
+        const current = await db.characters.where('relatedCharacterId').equals(characterId).toArray();
+        const relatedIds: string[] = [];
+        for (const related of imported.related) {
+          const match = current.find(
+            (c) => c.type === related.type && normalize(c.name) === normalize(related.name)
+          );
+          if (match) {
+            await db.characters.update(match.id, {
+              ...(related.level !== undefined && { level: related.level }),
+              ...(related.hpMax !== undefined && { hp: withMax(match.hp, related.hpMax) }),
+              ...(related.ac !== undefined && { ac: related.ac }),
+              lastUpdated: nextStamp(match.lastUpdated)
+            });
+            relatedIds.push(match.id);
+          } else {
+            const id = crypto.randomUUID();
+            await db.characters.add({
+              id,
+              instanceId: existing?.instanceId ?? instanceId,
+              name: related.name,
+              type: related.type,
+              relatedCharacterId: characterId,
+              notes: '',
+              hp: { current: related.hpMax ?? 0, max: related.hpMax ?? 0 },
+              ac: related.ac ?? 0,
+              level: related.level,
+              lastUpdated: new Date()
+            });
+            relatedIds.push(id);
+          }
+        }
+        return { ids: [characterId, ...relatedIds], created: !existing };
+      });
+
+      const [character, ...related] = await Promise.all(
+        ids.map(async (id) => vaultService.decryptCharacter((await db.characters.get(id))!))
+      );
+      return { character, related, created, warnings: imported.warnings };
+    } catch (error) {
+      console.error('Error importing character:', error);
+      throw error;
+    }
+  }
+};
@@ -1,12 +1,15 @@
 import type { Character } from '../types';
 import { db } from '../db';
+import { assertUnchanged, nextStamp } from '../db/concurrency';
+import type { Mutation } from '../db/concurrency';
+import { vaultService } from './vaultService';
 
 export const characterService = {
   async create(character: Omit<Character, 'id'>): Promise<Character> {
     try {
       const id = crypto.randomUUID();
       const newCharacter = { ...character, id };
-      await db.characters.add(newCharacter);
+      await db.characters.add(await vaultService.encryptCharacter(newCharacter));
       return newCharacter;
     } catch (error) {
       console.error('Error creating character:', error);
@@ -16,16 +19,62 @@ export const characterService = {
 
   async get(id: string): Promise<Character | undefined> {
     try {
-      return await db.characters.get(id);
+      const character = await db.characters.get(id);
+      return character && (await vaultService.decryptCharacter(character));
     } catch (error) {
       console.error('Error getting character:', error);
       throw error;
     }
   },
 
-  async update(id: string, character: Partial<Character>): Promise<void> {
+  /**
+   * Writes a partial character, encrypting protected fields first
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The previous record (decrypted) and the fields written
+   */
+  async update(
+    id: string,
+    character: Partial<Character>,
+    expected?: Date
+  ): Promise<Mutation<Character>> {
     try {
-      await db.characters.update(id, character);
+      // WebCrypto cannot run inside a Dexie transaction, so encrypt up front
+      const encrypted = await vaultService.encryptCharacter(character);
+      const { before, patch } = await this.mutate(id, () => encrypted, expected);
+      return {
+        before: await vaultService.decryptCharacter(before),
+        patch: { ...character, lastUpdated: patch.lastUpdated }
+      };
+    } catch (error) {
+      console.error('Error updating character:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reads, changes and writes a character in one transaction, so concurrent
+   * changes are never lost. The change must not write vault-protected fields.
+   * @param change - Computes the fields to write from the stored record
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The stored record before the change and the fields written
+   */
+  async mutate(
+    id: string,
+    change: (character: Character) => Partial<Character>,
+    expected?: Date
+  ): Promise<Mutation<Character>> {
+    try {
+      return await db.transaction('rw', db.characters, async () => {
+        const character = await db.characters.get(id);
+        if (!character) {
+          throw new Error('Character not found');
+        }
+        assertUnchanged('characters', character, expected);
+
+        const patch = { ...change(character), lastUpdated: nextStamp(character.lastUpdated) };
+        await db.characters.update(id, patch);
+        return { before: character, patch };
+      });
     } catch (error) {
       console.error('Error updating character:', error);
       throw error;
@@ -43,18 +92,17 @@ export const characterService = {
 
   async getAll(): Promise<Character[]> {
     try {
-      return await db.characters.toArray();
+      const characters = await db.characters.toArray();
+      return await Promise.all(characters.map(vaultService.decryptCharacter));
     } catch (error) {
       console.error('Error getting all characters:', error);
       throw error;
     }
   },
 
-  async updateHitPoints(id: string, current: number): Promise<void> {
+  async updateHitPoints(id: string, current: number): Promise<Mutation<Character>> {
     try {
-      await db.characters.update(id, {
-        hitPoints: { current }
-      });
+      return await this.mutate(id, (character) => ({ hp: { ...character.hp, current } }));
     } catch (error) {
       console.error('Error updating character hit points:', error);
       throw error;
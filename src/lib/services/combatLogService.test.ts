@@ -0,0 +1,88 @@
+import 'fake-indexeddb/auto';
+import { get } from 'svelte/store';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { CombatLogEntry } from '../types';
+import { db } from '../db';
+import { combatLogStore, encounterLog } from '../stores/combatLogStore';
+import { combatLogService, formatLogEntry } from './combatLogService';
+
+function entry(encounterId: string, round: number, after = {}): Omit<CombatLogEntry, 'id'> {
+  return {
+    encounterId,
+    action: 'nextTurn',
+    round,
+    initiative: 18,
+    before: {},
+    after,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 20, 0, round))
+  };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await db.combatLog.clear();
+});
+
+describe('formatLogEntry', () => {
+  it('names the turn, action and target, and lists the values that changed', () => {
+    const line = formatLogEntry({
+      ...entry('ambush', 2),
+      action: 'damage',
+      actorName: 'Valeros',
+      targetId: 'goblin-1',
+      targetName: 'Goblin',
+      before: { current: 6, temp: 0 },
+      after: { current: 1, temp: 0 }
+    });
+    expect(line).toBe(
+      "[2024-01-01T20:00:02.000Z] R2 I18 (Valeros's turn) damage Goblin: current 6 → 1"
+    );
+  });
+
+  it('marks values that were added or removed', () => {
+    const line = formatLogEntry({ ...entry('ambush', 1), before: { temp: 5 }, after: {} });
+    expect(line).toMatch(/nextTurn: temp 5 → –$/);
+  });
+
+  it('falls back to the target ID and leaves out unchanged values', () => {
+    const line = formatLogEntry({ ...entry('ambush', 1), targetId: 'goblin-1' });
+    expect(line).toBe('[2024-01-01T20:00:01.000Z] R1 I18 nextTurn goblin-1');
+  });
+});
+
+describe('combatLogService', () => {
+  it('returns the entries of one encounter in the order they were written', async () => {
+    await combatLogService.append(entry('ambush', 1));
+    await combatLogService.append(entry('elsewhere', 1));
+    const stored = await combatLogService.append(entry('ambush', 2));
+    expect(stored.id).toBeDefined();
+
+    const log = await combatLogService.getForEncounter('ambush');
+    expect(log.map((e) => e.round)).toEqual([1, 2]);
+  });
+
+  it('exports a text log one line per entry, and JSON that reads back', async () => {
+    await combatLogService.append(entry('ambush', 1));
+    await combatLogService.append(entry('ambush', 2));
+    const log = await combatLogService.getForEncounter('ambush');
+
+    expect(combatLogService.toText(log).split('\n')).toHaveLength(2);
+    expect(JSON.parse(combatLogService.toJSON(log))).toMatchObject([{ round: 1 }, { round: 2 }]);
+  });
+});
+
+describe('combatLogStore', () => {
+  it('appends to a loaded log and only persists an unloaded one', async () => {
+    await combatLogService.append(entry('ambush', 1));
+    await combatLogStore.load('ambush');
+    await combatLogStore.append(entry('ambush', 2));
+    await combatLogStore.append(entry('elsewhere', 1));
+
+    expect(get(encounterLog('ambush')).map((e) => e.round)).toEqual([1, 2]);
+    expect(get(encounterLog('elsewhere'))).toEqual([]);
+    expect(await combatLogService.getForEncounter('elsewhere')).toHaveLength(1);
+  });
+});
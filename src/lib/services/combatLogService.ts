@@ -0,0 +1,63 @@
+import type { CombatLogEntry } from '../types';
+import { db } from '../db';
+
+/**
+ * Describes the values of a log entry, e.g. "current 20 → 14, temp 5 → 0"
+ */
+function describeValues(entry: CombatLogEntry): string {
+  const keys = new Set([...Object.keys(entry.before), ...Object.keys(entry.after)]);
+  return [...keys]
+    .filter((key) => entry.before[key] !== entry.after[key])
+    .map((key) => `${key} ${entry.before[key] ?? '–'} → ${entry.after[key] ?? '–'}`)
+    .join(', ');
+}
+
+/**
+ * Formats a single entry as one line of a text log
+ */
+export function formatLogEntry(entry: CombatLogEntry): string {
+  const parts = [`[${entry.timestamp.toISOString()}]`, `R${entry.round} I${entry.initiative}`];
+  if (entry.actorName) parts.push(`(${entry.actorName}'s turn)`);
+  parts.push(entry.action);
+  const target = entry.targetName ?? entry.targetId;
+  if (target) parts.push(target);
+
+  const values = describeValues(entry);
+  return values ? `${parts.join(' ')}: ${values}` : parts.join(' ');
+}
+
+export const combatLogService = {
+  /**
+   * Appends an entry. Log entries are never updated.
+   * @returns The stored entry with its ID
+   */
+  async append(entry: Omit<CombatLogEntry, 'id'>): Promise<CombatLogEntry> {
+    try {
+      const id = await db.combatLog.add(entry);
+      return { ...entry, id };
+    } catch (error) {
+      console.error('Error appending to combat log:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * All entries for an encounter, oldest first
+   */
+  async getForEncounter(encounterId: string): Promise<CombatLogEntry[]> {
+    try {
+      return await db.combatLog.where('encounterId').equals(encounterId).sortBy('id');
+    } catch (error) {
+      console.error('Error getting combat log:', error);
+      throw error;
+    }
+  },
+
+  toText(entries: CombatLogEntry[]): string {
+    return entries.map(formatLogEntry).join('\n');
+  },
+
+  toJSON(entries: CombatLogEntry[]): string {
+    return JSON.stringify(entries, null, 2);
+  }
+};
@@ -1,5 +1,31 @@
-import type { Encounter } from '../types';
+import type { Character, Encounter, GameInstance } from '../types';
 import { db } from '../db';
+import { assertUnchanged, nextStamp } from '../db/concurrency';
+import type { Mutation } from '../db/concurrency';
+import { followTurn, sortTurnOrder } from '../utils/turnOrder';
+import { gameInstanceService } from './gameInstanceService';
+
+/**
+ * XP earned by ending an encounter
+ */
+export interface ExperienceAward {
+  /** Added to the game instance's party total */
+  party: number;
+  /** Characters who track their own XP */
+  characterIds: string[];
+  /** Added to each of those characters' XP */
+  perCharacter: number;
+}
+
+/**
+ * The writes made by ending an encounter
+ */
+export interface EncounterEnd {
+  encounter: Mutation<Encounter>;
+  /** The party XP total, when XP was awarded */
+  instance?: Mutation<GameInstance>;
+  characters: Mutation<Character>[];
+}
 
 export const encounterService = {
   async create(encounter: Omit<Encounter, 'id'>): Promise<Encounter> {
@@ -23,18 +49,115 @@ export const encounterService = {
     }
   },
 
-  async update(id: string, encounter: Partial<Encounter>): Promise<void> {
+  /**
+   * Writes a partial encounter
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The previous record and the fields written
+   */
+  async update(
+    id: string,
+    encounter: Partial<Encounter>,
+    expected?: Date
+  ): Promise<Mutation<Encounter>> {
+    return this.mutate(id, () => encounter, expected);
+  },
+
+  /**
+   * Reads, changes and writes an encounter in one transaction, so concurrent
+   * changes are never lost
+   * @param change - Computes the fields to write from the stored record
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The stored record before the change and the fields written
+   */
+  async mutate(
+    id: string,
+    change: (encounter: Encounter) => Partial<Encounter>,
+    expected?: Date
+  ): Promise<Mutation<Encounter>> {
     try {
-      await db.encounters.update(id, encounter);
+      return await db.transaction('rw', db.encounters, async () => {
+        const encounter = await db.encounters.get(id);
+        if (!encounter) {
+          throw new Error('Encounter not found');
+        }
+        assertUnchanged('encounters', encounter, expected);
+
+        const patch = { ...change(encounter), lastUpdated: nextStamp(encounter.lastUpdated) };
+        await db.encounters.update(id, patch);
+        return { before: encounter, patch };
+      });
     } catch (error) {
       console.error('Error updating encounter:', error);
       throw error;
     }
   },
 
+  /**
+   * Stops a running encounter and awards its XP in one transaction. XP
+   * totals are read inside it, so awards from other tabs are never lost.
+   * @param award - XP to award, or undefined to award none
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @throws {Error} If the encounter is not running
+   */
+  async end(id: string, award?: ExperienceAward, expected?: Date): Promise<EncounterEnd> {
+    try {
+      return await db.transaction(
+        'rw',
+        [db.encounters, db.instances, db.characters],
+        async (): Promise<EncounterEnd> => {
+          const encounter = await this.mutate(
+            id,
+            (stored) => {
+              if (!stored.isActive) throw new Error('Encounter is not running');
+              return { isActive: false };
+            },
+            expected
+          );
+          if (!award) return { encounter, characters: [] };
+
+          const { instanceId } = encounter.before;
+          const gameInstance = await db.instances.get(instanceId);
+          if (!gameInstance) {
+            throw new Error('Game instance not found');
+          }
+          const instance = await gameInstanceService.updateExperiencePoints(
+            instanceId,
+            (gameInstance.experiencePoints ?? 0) + award.party
+          );
+
+          const characters: Mutation<Character>[] = [];
+          for (const characterId of award.characterIds) {
+            const character = await db.characters.get(characterId);
+            if (!character) continue;
+            const patch = {
+              experiencePoints: (character.experiencePoints ?? 0) + award.perCharacter,
+              lastUpdated: nextStamp(character.lastUpdated)
+            };
+            await db.characters.update(characterId, patch);
+            characters.push({ before: character, patch });
+          }
+          return {
+            encounter,
+            instance,
+            characters
+          };
+        }
+      );
+    } catch (error) {
+      console.error('Error ending encounter:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Deletes an encounter and its combat log in one transaction
+   */
   async delete(id: string): Promise<void> {
     try {
-      await db.encounters.delete(id);
+      await db.transaction('rw', db.encounters, db.combatLog, async () => {
+        await db.encounters.delete(id);
+        await db.combatLog.where('encounterId').equals(id).delete();
+      });
     } catch (error) {
       console.error('Error deleting encounter:', error);
       throw error;
@@ -56,23 +179,14 @@ export const encounterService = {
     initiative: number
   ): Promise<void> {
     try {
-      const encounter = await db.encounters.get(encounterId);
-      if (!encounter) {
-        throw new Error('Encounter not found');
-      }
-
-      if (!encounter.participants.some((p) => p.characterId === characterId)) {
-        await db.encounters.update(encounterId, {
-          participants: [
-            ...encounter.participants,
-            {
-              characterId,
-              initiative,
-              status: 'active'
-            }
-          ]
-        });
-      }
+      await this.mutate(encounterId, (encounter) => {
+        if (encounter.participants.some((p) => p.characterId === characterId)) return {};
+        const participants = sortTurnOrder([
+          ...encounter.participants,
+          { characterId, initiative }
+        ]);
+        return { participants, ...followTurn(encounter, participants) };
+      });
     } catch (error) {
       console.error('Error adding participant:', error);
       throw error;
@@ -81,15 +195,9 @@ export const encounterService = {
 
   async removeParticipant(encounterId: string, characterId: string): Promise<void> {
     try {
-      const encounter = await db.encounters.get(encounterId);
-      if (!encounter) {
-        throw new Error('Encounter not found');
-      }
-
-      await db.encounters.update(encounterId, {
-        participants: encounter.participants.filter(
-          (p) => p.characterId !== characterId
-        )
+      await this.mutate(encounterId, (encounter) => {
+        const participants = encounter.participants.filter((p) => p.characterId !== characterId);
+        return { participants, ...followTurn(encounter, participants) };
       });
     } catch (error) {
       console.error('Error removing participant:', error);
@@ -1,12 +1,15 @@
 import type { GameInstance } from '../types';
 import { db } from '../db';
+import { assertUnchanged, nextStamp } from '../db/concurrency';
+import type { Mutation } from '../db/concurrency';
+import { vaultService } from './vaultService';
 
 export const gameInstanceService = {
   async create(gameInstance: Omit<GameInstance, 'id'>): Promise<GameInstance> {
     try {
       const id = crypto.randomUUID();
-      const newInstance = { ...gameInstance, id };
-      await db.instances.add(newInstance);
+      const newInstance = { ...gameInstance, id, lastUpdated: new Date() };
+      await db.instances.add(await vaultService.encryptInstance(newInstance));
       return newInstance;
     } catch (error) {
       console.error('Error creating game instance:', error);
@@ -16,16 +19,65 @@ export const gameInstanceService = {
 
   async get(id: string): Promise<GameInstance | undefined> {
     try {
-      return await db.instances.get(id);
+      const instance = await db.instances.get(id);
+      return instance && (await vaultService.decryptInstance(instance));
     } catch (error) {
       console.error('Error getting game instance:', error);
       throw error;
     }
   },
 
-  async update(id: string, gameInstance: Partial<GameInstance>): Promise<void> {
+  /**
+   * Writes a partial game instance, encrypting protected fields first
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The previous record (decrypted) and the fields written
+   */
+  async update(
+    id: string,
+    gameInstance: Partial<GameInstance>,
+    expected?: Date
+  ): Promise<Mutation<GameInstance>> {
     try {
-      await db.instances.update(id, gameInstance);
+      // WebCrypto cannot run inside a Dexie transaction, so encrypt up front
+      const encrypted = await vaultService.encryptInstance(gameInstance);
+      const { before, patch } = await this.mutate(id, () => encrypted, expected);
+      return {
+        before: await vaultService.decryptInstance(before),
+        patch: { ...gameInstance, lastUpdated: patch.lastUpdated }
+      };
+    } catch (error) {
+      console.error('Error updating game instance:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reads, changes and writes a game instance in one transaction, so concurrent
+   * changes are never lost. The change must not write vault-protected fields.
+   * @param change - Computes the fields to write from the stored record
+   * @param expected - lastUpdated the caller last saw; a newer stored record throws a ConflictError
+   * @returns The stored record before the change and the fields written
+   */
+  async mutate(
+    id: string,
+    change: (gameInstance: GameInstance) => Partial<GameInstance>,
+    expected?: Date
+  ): Promise<Mutation<GameInstance>> {
+    try {
+      return await db.transaction('rw', db.instances, async () => {
+        const gameInstance = await db.instances.get(id);
+        if (!gameInstance) {
+          throw new Error('Game instance not found');
+        }
+        assertUnchanged('instances', gameInstance, expected);
+
+        const patch = {
+          ...change(gameInstance),
+          lastUpdated: nextStamp(gameInstance.lastUpdated)
+        };
+        await db.instances.update(id, patch);
+        return { before: gameInstance, patch };
+      });
     } catch (error) {
       console.error('Error updating game instance:', error);
       throw error;
@@ -43,7 +95,8 @@ export const gameInstanceService = {
 
   async getAll(): Promise<GameInstance[]> {
     try {
-      return await db.instances.toArray();
+      const instances = await db.instances.toArray();
+      return await Promise.all(instances.map(vaultService.decryptInstance));
     } catch (error) {
       console.error('Error getting all game instances:', error);
       throw error;
@@ -52,41 +105,37 @@ export const gameInstanceService = {
 
   async addCharacter(gameInstanceId: string, characterId: string): Promise<void> {
     try {
-      const gameInstance = await db.instances.get(gameInstanceId);
-      if (!gameInstance) {
-        throw new Error('Game instance not found');
-      }
+      await db.transaction('rw', db.instances, db.characters, async () => {
+        const gameInstance = await db.instances.get(gameInstanceId);
+        if (!gameInstance) {
+          throw new Error('Game instance not found');
+        }
 
-      if (!gameInstance.characters.includes(characterId)) {
-        await db.instances.update(gameInstanceId, {
-          characters: [...gameInstance.characters, characterId]
+        const character = await db.characters.get(characterId);
+        if (!character) {
+          throw new Error('Character not found');
+        }
+        await db.characters.update(characterId, {
+          instanceId: gameInstanceId,
+          lastUpdated: nextStamp(character.lastUpdated)
         });
-      }
-    } catch (error) {
-      console.error('Error adding character to game instance:', error);
-      throw error;
-    }
-  },
-
-  async removeCharacter(gameInstanceId: string, characterId: string): Promise<void> {
-    try {
-      const gameInstance = await db.instances.get(gameInstanceId);
-      if (!gameInstance) {
-        throw new Error('Game instance not found');
-      }
-
-      await db.instances.update(gameInstanceId, {
-        characters: gameInstance.characters.filter((id) => id !== characterId)
       });
     } catch (error) {
-      console.error('Error removing character from game instance:', error);
+      console.error('Error adding character to game instance:', error);
       throw error;
     }
   },
 
-  async updateExperiencePoints(gameInstanceId: string, experiencePoints: number): Promise<void> {
+  /**
+   * Sets the party's XP total. Runs inside the caller's transaction when there is one.
+   * @returns The previous record and the fields written
+   */
+  async updateExperiencePoints(
+    gameInstanceId: string,
+    experiencePoints: number
+  ): Promise<Mutation<GameInstance>> {
     try {
-      await db.instances.update(gameInstanceId, { experiencePoints });
+      return await this.mutate(gameInstanceId, () => ({ experiencePoints }));
     } catch (error) {
       console.error('Error updating experience points:', error);
       throw error;
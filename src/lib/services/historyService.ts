@@ -0,0 +1,111 @@
+import type { HistoryChange, HistoryEntry, HistoryStack } from '../types';
+import { db } from '../db';
+import { vaultService } from './vaultService';
+
+/**
+ * Runs the vault over the character and instance values in history entries,
+ * so protected fields are never persisted in plain text
+ */
+async function transformEntries(
+  entries: HistoryEntry[],
+  mode: 'encrypt' | 'decrypt'
+): Promise<HistoryEntry[]> {
+  const transform = async (change: HistoryChange, values: Record<string, unknown>) => {
+    if (change.table === 'characters') {
+      return mode === 'encrypt'
+        ? vaultService.encryptCharacter(values)
+        : vaultService.decryptCharacter(values);
+    }
+    if (change.table === 'instances') {
+      return mode === 'encrypt'
+        ? vaultService.encryptInstance(values)
+        : vaultService.decryptInstance(values);
+    }
+    return values;
+  };
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      changes: await Promise.all(
+        entry.changes.map(async (change) => ({
+          ...change,
+          before: await transform(change, change.before),
+          after: await transform(change, change.after)
+        }))
+      )
+    }))
+  );
+}
+
+export const historyService = {
+  async get(scope: string): Promise<HistoryStack> {
+    try {
+      const stack = await db.history.get(scope);
+      if (!stack) return { scope, undo: [], redo: [] };
+      return {
+        scope,
+        undo: await transformEntries(stack.undo, 'decrypt'),
+        redo: await transformEntries(stack.redo, 'decrypt')
+      };
+    } catch (error) {
+      console.error('Error getting history:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Appends an entry to the undo stack and clears redo. Only the new entry is
+   * encrypted; the stored entries are moved as they are.
+   * @param limit - Maximum number of entries kept in the undo stack
+   */
+  async push(scope: string, entry: HistoryEntry, limit: number): Promise<void> {
+    try {
+      const [encrypted] = await transformEntries([entry], 'encrypt');
+      await db.transaction('rw', db.history, async () => {
+        const stack = await db.history.get(scope);
+        await db.history.put({
+          scope,
+          undo: [...(stack?.undo ?? []), encrypted].slice(-limit),
+          redo: []
+        });
+      });
+    } catch (error) {
+      console.error('Error saving history:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Moves the top entry of one stack onto the other, after an undo or redo
+   * @param from - Stack the entry is taken from
+   * @param limit - Maximum number of entries kept in the receiving stack
+   */
+  async move(scope: string, from: 'undo' | 'redo', limit: number): Promise<void> {
+    try {
+      await db.transaction('rw', db.history, async () => {
+        const stack = await db.history.get(scope);
+        const entry = stack?.[from][stack[from].length - 1];
+        if (!stack || !entry) return;
+        const to = from === 'undo' ? 'redo' : 'undo';
+        await db.history.put({
+          ...stack,
+          [from]: stack[from].slice(0, -1),
+          [to]: [...stack[to], entry].slice(-limit)
+        });
+      });
+    } catch (error) {
+      console.error('Error saving history:', error);
+      throw error;
+    }
+  },
+
+  async delete(scope: string): Promise<void> {
+    try {
+      await db.history.delete(scope);
+    } catch (error) {
+      console.error('Error deleting history:', error);
+      throw error;
+    }
+  }
+};
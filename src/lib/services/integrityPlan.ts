@@ -0,0 +1,229 @@
+import type { Character, GameInstance, Encounter } from '../types';
+import { nextStamp } from '../db/concurrency';
+import { followTurn } from '../utils/turnOrder';
+
+/**
+ * What happens to the records that depend on a deleted record
+ * cascade: dependents are deleted too
+ * reassign: dependents are moved to another instance or character
+ * block: the delete is refused while dependents exist
+ */
+export type DeletePolicy = 'cascade' | 'reassign' | 'block';
+
+export interface DeleteOptions {
+  policy: DeletePolicy;
+  /** Instance or character that dependents move to, required for 'reassign' */
+  reassignTo?: string;
+}
+
+/**
+ * Fields written to a surviving record
+ */
+export interface RecordPatch<T> {
+  id: string;
+  patch: Partial<T>;
+}
+
+/**
+ * Records deleted and changed by a delete or repair
+ */
+export interface ChangeSet {
+  deletedCharacters: string[];
+  deletedEncounters: string[];
+  /** Changes to surviving characters, e.g. a new instanceId or relatedCharacterId */
+  characterUpdates: RecordPatch<Character>[];
+  /** Changes to surviving encounters, e.g. participants removed */
+  encounterUpdates: RecordPatch<Encounter>[];
+}
+
+/**
+ * The full impact of deleting a game instance, character or encounter
+ */
+export interface DeletePlan extends ChangeSet {
+  table: 'instances' | 'characters' | 'encounters';
+  /** ID of the record being deleted */
+  id: string;
+  policy: DeletePolicy;
+  /** Why the delete cannot go ahead; only filled for the 'block' policy */
+  blockers: string[];
+}
+
+/**
+ * Raised when a delete is blocked by dependent records or cannot be planned
+ */
+export class IntegrityError extends Error {
+  constructor(
+    message: string,
+    public readonly blockers: string[] = []
+  ) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Every record that can hold or be the target of a reference
+ */
+export interface Graph {
+  instances: GameInstance[];
+  characters: Character[];
+  encounters: Encounter[];
+}
+
+export function emptyChangeSet(): ChangeSet {
+  return {
+    deletedCharacters: [],
+    deletedEncounters: [],
+    characterUpdates: [],
+    encounterUpdates: []
+  };
+}
+
+/**
+ * Collects characters and everything linked to them through relatedCharacterId,
+ * e.g. a PC, their Familiar and the Familiar's Companion
+ */
+function withLinkedCharacters(characters: Character[], ids: string[]): string[] {
+  const collected = new Set(ids);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const character of characters) {
+      if (
+        character.relatedCharacterId &&
+        collected.has(character.relatedCharacterId) &&
+        !collected.has(character.id)
+      ) {
+        collected.add(character.id);
+        added = true;
+      }
+    }
+  }
+  return [...collected];
+}
+
+/**
+ * Removes participants from an encounter, passing the turn on if it was one of theirs
+ * @returns The fields to write, or undefined if none of the characters take part
+ */
+export function withoutParticipants(
+  encounter: Encounter,
+  removed: Set<string>
+): Partial<Encounter> | undefined {
+  if (!encounter.participants.some((p) => removed.has(p.characterId))) return undefined;
+
+  const participants = encounter.participants.filter((p) => !removed.has(p.characterId));
+  return {
+    participants,
+    ...followTurn(encounter, participants),
+    lastUpdated: nextStamp(encounter.lastUpdated)
+  };
+}
+
+/**
+ * Removes deleted characters from every encounter that is not itself deleted
+ */
+function dropParticipants(graph: Graph, changes: ChangeSet) {
+  const removed = new Set(changes.deletedCharacters);
+  const deletedEncounters = new Set(changes.deletedEncounters);
+  for (const encounter of graph.encounters) {
+    if (deletedEncounters.has(encounter.id)) continue;
+    const patch = withoutParticipants(encounter, removed);
+    if (patch) changes.encounterUpdates.push({ id: encounter.id, patch });
+  }
+}
+
+export function buildPlan(
+  graph: Graph,
+  table: DeletePlan['table'],
+  id: string,
+  { policy, reassignTo }: DeleteOptions
+): DeletePlan {
+  const plan: DeletePlan = { table, id, policy, blockers: [], ...emptyChangeSet() };
+  if (policy === 'reassign' && !reassignTo) {
+    throw new IntegrityError('Choose where to reassign the dependent records');
+  }
+  if (policy === 'reassign' && reassignTo === id) {
+    throw new IntegrityError('Cannot reassign records to the record being deleted');
+  }
+
+  if (table === 'instances') {
+    if (!graph.instances.some((i) => i.id === id)) {
+      throw new Error('Game instance not found');
+    }
+    const characters = graph.characters.filter((c) => c.instanceId === id);
+    const encounters = graph.encounters.filter((e) => e.instanceId === id);
+
+    if (policy === 'block') {
+      if (characters.length > 0) {
+        plan.blockers.push(`${characters.length} character(s) belong to this game instance`);
+      }
+      if (encounters.length > 0) {
+        plan.blockers.push(`${encounters.length} encounter(s) belong to this game instance`);
+      }
+    } else if (policy === 'reassign') {
+      if (!graph.instances.some((i) => i.id === reassignTo)) {
+        throw new Error('Game instance not found');
+      }
+      plan.characterUpdates = characters.map((c) => ({
+        id: c.id,
+        patch: { instanceId: reassignTo, lastUpdated: nextStamp(c.lastUpdated) }
+      }));
+      plan.encounterUpdates = encounters.map((e) => ({
+        id: e.id,
+        patch: { instanceId: reassignTo, lastUpdated: nextStamp(e.lastUpdated) }
+      }));
+    } else {
+      plan.deletedCharacters = withLinkedCharacters(
+        graph.characters,
+        characters.map((c) => c.id)
+      );
+      plan.deletedEncounters = encounters.map((e) => e.id);
+    }
+  } else if (table === 'encounters') {
+    if (!graph.encounters.some((e) => e.id === id)) {
+      throw new Error('Encounter not found');
+    }
+    // Only the encounter's combat log refers to it, and is deleted along with it
+    plan.deletedEncounters = [id];
+  } else {
+    const character = graph.characters.find((c) => c.id === id);
+    if (!character) {
+      throw new Error('Character not found');
+    }
+    const linked = graph.characters.filter((c) => c.relatedCharacterId === id);
+
+    if (policy === 'block') {
+      linked.forEach((c) => plan.blockers.push(`${c.name} is linked to ${character.name}`));
+      graph.encounters
+        .filter((e) => e.participants.some((p) => p.characterId === id))
+        .forEach((e) => plan.blockers.push(`${character.name} is in ${e.name}`));
+      plan.deletedCharacters = [id];
+    } else if (policy === 'reassign') {
+      const target = graph.characters.find((c) => c.id === reassignTo);
+      if (!target) {
+        throw new Error('Character not found');
+      }
+      if (target.instanceId !== character.instanceId) {
+        throw new IntegrityError(
+          'Linked characters can only be reassigned to a character in the same game instance'
+        );
+      }
+      if (linked.some((c) => c.id === reassignTo)) {
+        throw new IntegrityError('Cannot link a character to itself');
+      }
+      plan.deletedCharacters = [id];
+      plan.characterUpdates = linked.map((c) => ({
+        id: c.id,
+        patch: { relatedCharacterId: reassignTo, lastUpdated: nextStamp(c.lastUpdated) }
+      }));
+    } else {
+      plan.deletedCharacters = withLinkedCharacters(graph.characters, [id]);
+    }
+  }
+
+  if (plan.blockers.length === 0) {
+    dropParticipants(graph, plan);
+  }
+  return plan;
+}
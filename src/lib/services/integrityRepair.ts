@@ -0,0 +1,120 @@
+import type { Character } from '../types';
+import { nextStamp } from '../db/concurrency';
+import { emptyChangeSet, withoutParticipants } from './integrityPlan';
+import type { ChangeSet, Graph } from './integrityPlan';
+
+/**
+ * A dangling reference found in GameDB
+ */
+export interface IntegrityIssue {
+  kind:
+    | 'orphaned-character'
+    | 'orphaned-encounter'
+    | 'missing-related-character'
+    | 'orphaned-participant';
+  table: 'characters' | 'encounters';
+  /** ID of the record holding the dangling reference */
+  id: string;
+  message: string;
+}
+
+/**
+ * Issues found by a repair and the changes made to fix them
+ */
+export interface RepairResult extends ChangeSet {
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Finds dangling references and the changes that repair them
+ * @param reassignTo - Instance to move orphaned characters and encounters to;
+ *                     they are deleted when omitted
+ */
+export function buildRepair(graph: Graph, reassignTo?: string): RepairResult {
+  const result: RepairResult = { issues: [], ...emptyChangeSet() };
+  const instanceIds = new Set(graph.instances.map((i) => i.id));
+  if (reassignTo && !instanceIds.has(reassignTo)) {
+    throw new Error('Game instance not found');
+  }
+
+  for (const character of graph.characters) {
+    if (instanceIds.has(character.instanceId)) continue;
+    result.issues.push({
+      kind: 'orphaned-character',
+      table: 'characters',
+      id: character.id,
+      message: `${character.name} belongs to a game instance that no longer exists`
+    });
+    if (reassignTo) {
+      result.characterUpdates.push({
+        id: character.id,
+        patch: { instanceId: reassignTo, lastUpdated: nextStamp(character.lastUpdated) }
+      });
+    } else {
+      result.deletedCharacters.push(character.id);
+    }
+  }
+
+  for (const encounter of graph.encounters) {
+    if (instanceIds.has(encounter.instanceId)) continue;
+    result.issues.push({
+      kind: 'orphaned-encounter',
+      table: 'encounters',
+      id: encounter.id,
+      message: `${encounter.name} belongs to a game instance that no longer exists`
+    });
+    if (reassignTo) {
+      result.encounterUpdates.push({
+        id: encounter.id,
+        patch: { instanceId: reassignTo, lastUpdated: nextStamp(encounter.lastUpdated) }
+      });
+    } else {
+      result.deletedEncounters.push(encounter.id);
+    }
+  }
+
+  // References are checked against the characters that survive the repair
+  const deleted = new Set(result.deletedCharacters);
+  const surviving = new Set(graph.characters.filter((c) => !deleted.has(c.id)).map((c) => c.id));
+
+  for (const character of graph.characters) {
+    const { relatedCharacterId } = character;
+    if (deleted.has(character.id) || !relatedCharacterId || surviving.has(relatedCharacterId)) {
+      continue;
+    }
+    result.issues.push({
+      kind: 'missing-related-character',
+      table: 'characters',
+      id: character.id,
+      message: `${character.name} is linked to a character that no longer exists`
+    });
+    // Keep the character but drop the link, which only Familiars/Eidolons/Companions require
+    const existing = result.characterUpdates.find((u) => u.id === character.id);
+    const patch: Partial<Character> = {
+      type: 'NPC',
+      relatedCharacterId: undefined,
+      lastUpdated: nextStamp(character.lastUpdated)
+    };
+    if (existing) Object.assign(existing.patch, patch);
+    else result.characterUpdates.push({ id: character.id, patch });
+  }
+
+  const deletedEncounters = new Set(result.deletedEncounters);
+  for (const encounter of graph.encounters) {
+    if (deletedEncounters.has(encounter.id)) continue;
+    const missing = encounter.participants.filter((p) => !surviving.has(p.characterId));
+    if (missing.length === 0) continue;
+    result.issues.push({
+      kind: 'orphaned-participant',
+      table: 'encounters',
+      id: encounter.id,
+      message: `${encounter.name} has ${missing.length} participant(s) that no longer exist`
+    });
+    const patch = withoutParticipants(encounter, new Set(missing.map((p) => p.characterId)))!;
+    const existing = result.encounterUpdates.find((u) => u.id === encounter.id);
+    if (existing) Object.assign(existing.patch, patch);
+    else result.encounterUpdates.push({ id: encounter.id, patch });
+  }
+
+  return result;
+}
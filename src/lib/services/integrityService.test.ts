@@ -0,0 +1,187 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Character, CharacterType, Encounter, GameInstance } from '../types';
+import { db } from '../db';
+import { IntegrityError, integrityService } from './integrityService';
+
+function instance(id: string): GameInstance {
+  return { id, name: id, status: 'active', createdAt: new Date(), lastAccessed: new Date() };
+}
+
+function character(
+  id: string,
+  instanceId: string,
+  type: CharacterType = 'PC',
+  relatedCharacterId?: string
+): Character {
+  return {
+    id,
+    instanceId,
+    name: id,
+    type,
+    relatedCharacterId,
+    notes: '',
+    hp: { current: 10, max: 10 },
+    ac: 15,
+    lastUpdated: new Date(1000)
+  };
+}
+
+function encounter(id: string, instanceId: string, characterIds: string[]): Encounter {
+  return {
+    id,
+    instanceId,
+    name: id,
+    isActive: true,
+    currentRound: 1,
+    currentTurn: 0,
+    participants: characterIds.map((characterId, i) => ({ characterId, initiative: 20 - i })),
+    createdAt: new Date(),
+    lastUpdated: new Date(1000)
+  };
+}
+
+function logEntry(encounterId: string) {
+  return {
+    encounterId,
+    action: 'nextTurn' as const,
+    round: 1,
+    initiative: 20,
+    before: {},
+    after: {},
+    timestamp: new Date()
+  };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    db.instances.clear(),
+    db.characters.clear(),
+    db.encounters.clear(),
+    db.combatLog.clear()
+  ]);
+  await db.instances.bulkAdd([instance('campaign'), instance('other')]);
+  await db.characters.bulkAdd([
+    character('ezren', 'campaign'),
+    character('hoot', 'campaign', 'Familiar', 'ezren'),
+    character('valeros', 'campaign'),
+    character('seoni', 'other')
+  ]);
+  await db.encounters.add(encounter('ambush', 'campaign', ['valeros', 'ezren', 'hoot']));
+  await db.combatLog.bulkAdd([logEntry('ambush'), logEntry('ambush')]);
+});
+
+describe('integrityService.planDelete', () => {
+  it('lists what blocks deleting a character, changing nothing', async () => {
+    const plan = await integrityService.planDelete('characters', 'ezren', { policy: 'block' });
+    expect(plan.blockers).toEqual(['hoot is linked to ezren', 'ezren is in ambush']);
+    expect(await db.characters.count()).toBe(4);
+  });
+
+  it('cascades to linked characters and their places in encounters', async () => {
+    const plan = await integrityService.planDelete('characters', 'ezren', { policy: 'cascade' });
+    expect(plan.deletedCharacters.sort()).toEqual(['ezren', 'hoot']);
+    expect(plan.encounterUpdates).toHaveLength(1);
+    expect(plan.encounterUpdates[0].patch.participants).toEqual([
+      { characterId: 'valeros', initiative: 20 }
+    ]);
+  });
+
+  it('rejects reassigning linked characters to a character of another instance', async () => {
+    await expect(
+      integrityService.planDelete('characters', 'ezren', {
+        policy: 'reassign',
+        reassignTo: 'seoni'
+      })
+    ).rejects.toThrow(IntegrityError);
+  });
+
+  it('reassigns linked characters within the instance', async () => {
+    const plan = await integrityService.planDelete('characters', 'ezren', {
+      policy: 'reassign',
+      reassignTo: 'valeros'
+    });
+    expect(plan.characterUpdates).toMatchObject([
+      { id: 'hoot', patch: { relatedCharacterId: 'valeros' } }
+    ]);
+  });
+
+  it('requires a target to reassign to', async () => {
+    await expect(
+      integrityService.planDelete('instances', 'campaign', { policy: 'reassign' })
+    ).rejects.toThrow(IntegrityError);
+  });
+});
+
+describe('integrityService.executeDelete', () => {
+  it('refuses a blocked delete and leaves everything in place', async () => {
+    await expect(
+      integrityService.executeDelete('instances', 'campaign', { policy: 'block' })
+    ).rejects.toThrow(IntegrityError);
+    expect(await db.instances.get('campaign')).toBeDefined();
+  });
+
+  it('deletes an instance with its characters, encounters and combat log', async () => {
+    await integrityService.executeDelete('instances', 'campaign', { policy: 'cascade' });
+    expect(await db.instances.get('campaign')).toBeUndefined();
+    expect((await db.characters.toArray()).map((c) => c.id)).toEqual(['seoni']);
+    expect(await db.encounters.count()).toBe(0);
+    expect(await db.combatLog.count()).toBe(0);
+  });
+
+  it("moves an instance's records to another instance", async () => {
+    await integrityService.executeDelete('instances', 'campaign', {
+      policy: 'reassign',
+      reassignTo: 'other'
+    });
+    expect((await db.characters.get('hoot'))!.instanceId).toBe('other');
+    expect((await db.encounters.get('ambush'))!.instanceId).toBe('other');
+  });
+
+  it('deletes an encounter together with its combat log', async () => {
+    await db.combatLog.add(logEntry('elsewhere'));
+    const plan = await integrityService.executeDelete('encounters', 'ambush', {
+      policy: 'cascade'
+    });
+    expect(plan.deletedEncounters).toEqual(['ambush']);
+    expect(await db.encounters.get('ambush')).toBeUndefined();
+    expect((await db.combatLog.toArray()).map((e) => e.encounterId)).toEqual(['elsewhere']);
+  });
+});
+
+describe('integrityService.repair', () => {
+  beforeEach(async () => {
+    await db.instances.delete('other');
+    await db.characters.delete('ezren');
+  });
+
+  it('finds orphans and dangling references', async () => {
+    const kinds = (await integrityService.check()).map((i) => `${i.kind}:${i.id}`);
+    expect(kinds.sort()).toEqual([
+      'missing-related-character:hoot',
+      'orphaned-character:seoni',
+      'orphaned-participant:ambush'
+    ]);
+  });
+
+  it('repairs them in one go', async () => {
+    const result = await integrityService.repair();
+    expect(result.deletedCharacters).toEqual(['seoni']);
+    expect(await db.characters.get('hoot')).toMatchObject({ type: 'NPC' });
+    expect((await db.characters.get('hoot'))!.relatedCharacterId).toBeUndefined();
+    expect((await db.encounters.get('ambush'))!.participants.map((p) => p.characterId)).toEqual([
+      'valeros',
+      'hoot'
+    ]);
+    expect(await integrityService.check()).toEqual([]);
+  });
+
+  it('moves orphans to the chosen instance instead of deleting them', async () => {
+    await integrityService.repair({ reassignTo: 'campaign' });
+    expect((await db.characters.get('seoni'))!.instanceId).toBe('campaign');
+  });
+});
@@ -0,0 +1,130 @@
+import { db } from '../db';
+import { buildPlan, IntegrityError } from './integrityPlan';
+import type { ChangeSet, DeleteOptions, DeletePlan, Graph } from './integrityPlan';
+import { buildRepair } from './integrityRepair';
+import type { IntegrityIssue, RepairResult } from './integrityRepair';
+
+export { IntegrityError } from './integrityPlan';
+export type {
+  ChangeSet,
+  DeleteOptions,
+  DeletePlan,
+  DeletePolicy,
+  RecordPatch
+} from './integrityPlan';
+export type { IntegrityIssue, RepairResult } from './integrityRepair';
+
+async function loadGraph(): Promise<Graph> {
+  const [instances, characters, encounters] = await Promise.all([
+    db.instances.toArray(),
+    db.characters.toArray(),
+    db.encounters.toArray()
+  ]);
+  return { instances, characters, encounters };
+}
+
+/**
+ * Writes a change set. Must run inside a transaction over the characters,
+ * encounters and combatLog tables.
+ */
+async function applyChangeSet(changes: ChangeSet) {
+  for (const { id, patch } of changes.characterUpdates) {
+    await db.characters.update(id, patch);
+  }
+  for (const { id, patch } of changes.encounterUpdates) {
+    await db.encounters.update(id, patch);
+  }
+  await db.characters.bulkDelete(changes.deletedCharacters);
+  await db.encounters.bulkDelete(changes.deletedEncounters);
+  await db.combatLog.where('encounterId').anyOf(changes.deletedEncounters).delete();
+}
+
+export const integrityService = {
+  /**
+   * Computes everything a delete would touch, without changing anything
+   * @param table - Table of the record to delete
+   * @param id - ID of the record to delete
+   * @throws {IntegrityError} If a 'reassign' has no valid target
+   */
+  async planDelete(
+    table: DeletePlan['table'],
+    id: string,
+    options: DeleteOptions
+  ): Promise<DeletePlan> {
+    try {
+      return buildPlan(await loadGraph(), table, id, options);
+    } catch (error) {
+      console.error('Error planning delete:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Deletes a record and applies its plan in one transaction. The plan is
+   * recomputed inside the transaction so it matches the data it is applied to.
+   * @returns The plan that was applied
+   * @throws {IntegrityError} If the 'block' policy found dependents
+   */
+  async executeDelete(
+    table: DeletePlan['table'],
+    id: string,
+    options: DeleteOptions
+  ): Promise<DeletePlan> {
+    try {
+      return await db.transaction(
+        'rw',
+        [db.instances, db.characters, db.encounters, db.combatLog],
+        async () => {
+          const plan = buildPlan(await loadGraph(), table, id, options);
+          if (plan.blockers.length > 0) {
+            throw new IntegrityError(`Cannot delete: ${plan.blockers.join('; ')}`, plan.blockers);
+          }
+
+          await applyChangeSet(plan);
+          if (table === 'instances') {
+            await db.instances.delete(id);
+          }
+          return plan;
+        }
+      );
+    } catch (error) {
+      console.error('Error deleting record:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lists dangling references in GameDB without changing anything
+   */
+  async check(): Promise<IntegrityIssue[]> {
+    try {
+      return buildRepair(await loadGraph()).issues;
+    } catch (error) {
+      console.error('Error checking integrity:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Repairs every dangling reference in one transaction: orphaned participants
+   * are removed, characters linked to a missing character become NPCs, and
+   * orphaned characters and encounters are moved or deleted
+   * @param options.reassignTo - Instance to move orphaned characters and encounters to
+   */
+  async repair(options: { reassignTo?: string } = {}): Promise<RepairResult> {
+    try {
+      return await db.transaction(
+        'rw',
+        [db.instances, db.characters, db.encounters, db.combatLog],
+        async () => {
+          const result = buildRepair(await loadGraph(), options.reassignTo);
+          await applyChangeSet(result);
+          return result;
+        }
+      );
+    } catch (error) {
+      console.error('Error repairing integrity:', error);
+      throw error;
+    }
+  }
+};
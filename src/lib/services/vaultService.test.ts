@@ -0,0 +1,145 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Character, GameInstance, HistoryStack } from '../types';
+import { db } from '../db';
+import { isEncrypted } from '../utils/crypto';
+import { characterService } from './characterService';
+import { gameInstanceService } from './gameInstanceService';
+import { VaultError, vaultService } from './vaultService';
+
+const valeros: Character = {
+  id: 'valeros',
+  instanceId: 'campaign',
+  name: 'Valeros',
+  type: 'PC',
+  discordId: '111',
+  notes: 'Owes the Pathfinder Society 50 gp',
+  hp: { current: 20, max: 30 },
+  ac: 18,
+  lastUpdated: new Date(1000)
+};
+
+const campaign: GameInstance = {
+  id: 'campaign',
+  name: 'Age of Ashes',
+  gmNotes: 'The mayor is a dragon',
+  status: 'active',
+  createdAt: new Date(),
+  lastAccessed: new Date()
+};
+
+const history: HistoryStack = {
+  scope: 'global',
+  undo: [
+    {
+      label: 'Edit Valeros',
+      timestamp: new Date(),
+      changes: [
+        {
+          table: 'characters',
+          id: 'valeros',
+          before: { notes: 'Old notes', ac: 17 },
+          after: { notes: valeros.notes, ac: 18 }
+        }
+      ]
+    }
+  ],
+  redo: []
+};
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    db.characters.clear(),
+    db.instances.clear(),
+    db.history.clear(),
+    db.settings.clear()
+  ]);
+  await vaultService.load();
+  await db.characters.add(valeros);
+  await db.instances.add(campaign);
+  await db.history.add(history);
+});
+
+afterEach(async () => {
+  await vaultService.load();
+});
+
+describe('vaultService', () => {
+  it('stores fields in plain text while disabled', async () => {
+    expect(vaultService.status()).toBe('disabled');
+    expect(await vaultService.encryptCharacter(valeros)).toEqual(valeros);
+  });
+
+  it('encrypts existing records and their history when enabled', async () => {
+    await vaultService.enable('correct horse');
+    expect(vaultService.status()).toBe('unlocked');
+
+    const stored = (await db.characters.get('valeros'))!;
+    expect(isEncrypted(stored.notes)).toBe(true);
+    expect(isEncrypted(stored.discordId)).toBe(true);
+    expect(stored.name).toBe('Valeros');
+    expect(isEncrypted((await db.instances.get('campaign'))!.gmNotes)).toBe(true);
+    const [change] = (await db.history.get('global'))!.undo[0].changes;
+    expect(isEncrypted(change.before.notes)).toBe(true);
+    expect(change.before.ac).toBe(17);
+
+    expect(await characterService.get('valeros')).toEqual(valeros);
+    expect((await gameInstanceService.get('campaign'))!.gmNotes).toBe(campaign.gmNotes);
+  });
+
+  it('starts locked after a reload, showing ciphertext and refusing plain-text writes', async () => {
+    await vaultService.enable('correct horse');
+    await vaultService.load();
+    expect(vaultService.status()).toBe('locked');
+
+    expect(isEncrypted((await characterService.get('valeros'))!.notes)).toBe(true);
+    await expect(characterService.update('valeros', { notes: 'New notes' })).rejects.toThrow(
+      VaultError
+    );
+    await characterService.update('valeros', { ac: 19 });
+    expect((await db.characters.get('valeros'))!.ac).toBe(19);
+  });
+
+  it('unlocks with the passphrase and rejects a wrong one', async () => {
+    await vaultService.enable('correct horse');
+    vaultService.lock();
+    await expect(vaultService.unlock('wrong')).rejects.toThrow('Incorrect passphrase');
+    expect(vaultService.status()).toBe('locked');
+
+    await vaultService.unlock('correct horse');
+    expect((await characterService.get('valeros'))!.notes).toBe(valeros.notes);
+  });
+
+  it('re-encrypts everything when the passphrase changes', async () => {
+    await vaultService.enable('correct horse');
+    const before = (await db.characters.get('valeros'))!.notes;
+    await vaultService.changePassphrase('correct horse', 'battery staple');
+    expect((await db.characters.get('valeros'))!.notes).not.toBe(before);
+
+    await vaultService.load();
+    await expect(vaultService.unlock('correct horse')).rejects.toThrow(VaultError);
+    await vaultService.unlock('battery staple');
+    expect((await characterService.get('valeros'))!.notes).toBe(valeros.notes);
+  });
+
+  it('decrypts everything when disabled', async () => {
+    await vaultService.enable('correct horse');
+    await expect(vaultService.disable('wrong')).rejects.toThrow(VaultError);
+    await vaultService.disable('correct horse');
+
+    expect(vaultService.status()).toBe('disabled');
+    expect(await db.characters.get('valeros')).toEqual(valeros);
+    expect((await db.instances.get('campaign'))!.gmNotes).toBe(campaign.gmNotes);
+    expect(await db.history.get('global')).toEqual(history);
+  });
+
+  it('cannot be enabled twice or unlocked while disabled', async () => {
+    await expect(vaultService.unlock('correct horse')).rejects.toThrow('Vault is not enabled');
+    await vaultService.enable('correct horse');
+    await expect(vaultService.enable('again')).rejects.toThrow('Vault is already enabled');
+  });
+});
@@ -0,0 +1,366 @@
+import type { Character, GameInstance, HistoryEntry, HistoryStack, HistoryTable } from '../types';
+import type { Table } from 'dexie';
+import { db } from '../db';
+import {
+  DEFAULT_ITERATIONS,
+  decryptString,
+  deriveKey,
+  encryptString,
+  generateSalt,
+  isEncrypted
+} from '../utils/crypto';
+
+/** Settings key the vault configuration is stored under */
+const CONFIG_KEY = 'vault';
+
+/** Known plaintext used to verify a passphrase */
+const CHECK_VALUE = 'pbdtool-vault';
+
+/** Character fields encrypted when the vault is enabled */
+const CHARACTER_FIELDS = ['notes', 'discordId'] as const;
+
+/** Game instance fields encrypted when the vault is enabled */
+const INSTANCE_FIELDS = ['gmNotes'] as const;
+
+/** Encrypted fields of the records history entries refer to */
+const HISTORY_FIELDS: Record<HistoryTable, readonly string[]> = {
+  characters: CHARACTER_FIELDS,
+  instances: INSTANCE_FIELDS,
+  encounters: []
+};
+
+/**
+ * Stored vault configuration. Never contains the passphrase or key.
+ */
+interface VaultConfig {
+  /** Base64 PBKDF2 salt */
+  salt: string;
+  /** PBKDF2 iteration count */
+  iterations: number;
+  /** CHECK_VALUE encrypted under the vault key */
+  check: string;
+}
+
+/**
+ * disabled: fields are stored in plain text
+ * locked: fields are encrypted and cannot be read or written
+ * unlocked: fields are encrypted and transparently decrypted
+ */
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+/**
+ * Raised for vault failures such as a wrong passphrase or writing while locked
+ */
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+/** Vault configuration, loaded from GameDB by vaultService.load() */
+let config: VaultConfig | null = null;
+
+/** Derived key, held in memory only while unlocked */
+let key: CryptoKey | null = null;
+
+/**
+ * Applies an async transform to the non-empty string fields of a record
+ */
+async function transformFields<T>(
+  record: T,
+  fields: readonly string[],
+  transform: (value: string) => Promise<string>
+): Promise<T> {
+  const result = { ...record } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = result[field];
+    if (typeof value === 'string' && value !== '') {
+      result[field] = await transform(value);
+    }
+  }
+  return result as T;
+}
+
+async function encryptValue(value: string): Promise<string> {
+  // Ciphertext read while locked is written back untouched
+  if (isEncrypted(value)) return value;
+  if (!key) throw new VaultError('Vault is locked');
+  return encryptString(key, value);
+}
+
+async function decryptValue(value: string): Promise<string> {
+  if (!isEncrypted(value) || !key) return value;
+  return decryptString(key, value);
+}
+
+/**
+ * Verifies a passphrase against the stored configuration
+ * @throws {VaultError} If the passphrase is wrong
+ */
+async function verify(passphrase: string, vault: VaultConfig): Promise<CryptoKey> {
+  const derived = await deriveKey(passphrase, vault.salt, vault.iterations);
+  try {
+    await decryptString(derived, vault.check);
+  } catch {
+    throw new VaultError('Incorrect passphrase');
+  }
+  return derived;
+}
+
+/** Attempts rewriteAll makes before giving up on records that keep changing */
+const REWRITE_ATTEMPTS = 3;
+
+/**
+ * Raised inside the rewrite transaction when a protected field changed after it
+ * was read, so the whole rewrite is rolled back and tried again
+ */
+class StaleRewrite extends Error {}
+
+/**
+ * Computes the new protected field values of each record, keyed by ID
+ */
+async function transformAll<T extends { id: string }>(
+  records: T[],
+  fields: readonly string[],
+  transform: (value: string) => Promise<string>
+): Promise<Map<string, { read: Partial<T>; patch: Partial<T> }>> {
+  const changes = new Map<string, { read: Partial<T>; patch: Partial<T> }>();
+  for (const record of records) {
+    const read = pickFields(record, fields);
+    const patch = await transformFields(read, fields, transform);
+    changes.set(record.id, { read, patch });
+  }
+  return changes;
+}
+
+function pickFields<T>(record: T, fields: readonly string[]): Partial<T> {
+  const source = record as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) picked[field] = source[field];
+  return picked as Partial<T>;
+}
+
+/**
+ * Writes the new protected field values of a table, leaving every other field
+ * as it is stored now
+ * @throws {StaleRewrite} If a protected field changed since it was read
+ */
+async function patchAll<T extends { id: string }>(
+  table: Table<T, string>,
+  fields: readonly string[],
+  changes: Map<string, { read: Partial<T>; patch: Partial<T> }>
+) {
+  const current = await table.toArray();
+  for (const record of current) {
+    const change = changes.get(record.id);
+    const stored = record as Record<string, unknown>;
+    const read = change?.read as Record<string, unknown> | undefined;
+    if (!change || fields.some((field) => stored[field] !== read?.[field])) {
+      throw new StaleRewrite();
+    }
+    // Only the protected fields, so concurrent edits to the rest survive
+    await table.update(record.id, change.patch as Record<string, unknown>);
+  }
+}
+
+/**
+ * Applies an async transform to the protected values held in a history stack
+ */
+async function transformHistory(
+  stack: HistoryStack,
+  transform: (value: string) => Promise<string>
+): Promise<HistoryStack> {
+  const entries = (list: HistoryEntry[]) =>
+    Promise.all(
+      list.map(async (entry) => ({
+        ...entry,
+        changes: await Promise.all(
+          entry.changes.map(async (change) => ({
+            ...change,
+            before: await transformFields(change.before, HISTORY_FIELDS[change.table], transform),
+            after: await transformFields(change.after, HISTORY_FIELDS[change.table], transform)
+          }))
+        )
+      }))
+    );
+  return { ...stack, undo: await entries(stack.undo), redo: await entries(stack.redo) };
+}
+
+/**
+ * Writes the rewritten history stacks
+ * @throws {StaleRewrite} If a stack changed since it was read
+ */
+async function replaceHistory(read: HistoryStack[], rewritten: HistoryStack[]) {
+  const current = await db.history.toArray();
+  const before = new Map(read.map((stack) => [stack.scope, JSON.stringify(stack)]));
+  if (current.some((stack) => before.get(stack.scope) !== JSON.stringify(stack))) {
+    throw new StaleRewrite();
+  }
+  await db.history.bulkPut(rewritten);
+}
+
+/**
+ * Rewrites every protected field, in records and their undo history, and the
+ * vault configuration in one transaction.
+ * New values are computed first, since WebCrypto calls cannot run inside a Dexie
+ * transaction; if a protected field changes in the meantime the rewrite starts over.
+ */
+async function rewriteAll(
+  transform: (value: string) => Promise<string>,
+  nextConfig: VaultConfig | null
+) {
+  for (let attempt = 1; ; attempt++) {
+    const [characters, instances, history] = await Promise.all([
+      db.characters.toArray(),
+      db.instances.toArray(),
+      db.history.toArray()
+    ]);
+    const characterChanges = await transformAll(characters, CHARACTER_FIELDS, transform);
+    const instanceChanges = await transformAll(instances, INSTANCE_FIELDS, transform);
+    const rewrittenHistory = await Promise.all(
+      history.map((stack) => transformHistory(stack, transform))
+    );
+
+    const tables = [db.characters, db.instances, db.history, db.settings];
+    try {
+      await db.transaction('rw', tables, async () => {
+        await patchAll(db.characters, CHARACTER_FIELDS, characterChanges);
+        await patchAll(db.instances, INSTANCE_FIELDS, instanceChanges);
+        await replaceHistory(history, rewrittenHistory);
+        if (nextConfig) {
+          await db.settings.put({ key: CONFIG_KEY, value: nextConfig });
+        } else {
+          await db.settings.delete(CONFIG_KEY);
+        }
+      });
+      config = nextConfig;
+      return;
+    } catch (error) {
+      if (!(error instanceof StaleRewrite)) throw error;
+      if (attempt === REWRITE_ATTEMPTS) {
+        throw new VaultError('Records kept changing during the update. Try again.');
+      }
+    }
+  }
+}
+
+/**
+ * Creates a vault configuration and key for a passphrase
+ */
+async function createConfig(passphrase: string) {
+  const salt = generateSalt();
+  const derived = await deriveKey(passphrase, salt, DEFAULT_ITERATIONS);
+  const check = await encryptString(derived, CHECK_VALUE);
+  return { key: derived, config: { salt, iterations: DEFAULT_ITERATIONS, check } };
+}
+
+export const vaultService = {
+  /**
+   * Loads the vault configuration from GameDB. The vault starts locked.
+   */
+  async load(): Promise<void> {
+    try {
+      const setting = await db.settings.get(CONFIG_KEY);
+      config = (setting?.value as VaultConfig | undefined) ?? null;
+      key = null;
+    } catch (error) {
+      console.error('Error loading vault:', error);
+      throw error;
+    }
+  },
+
+  status(): VaultStatus {
+    if (!config) return 'disabled';
+    return key ? 'unlocked' : 'locked';
+  },
+
+  /**
+   * Turns on encryption and encrypts all existing protected fields
+   * @throws {VaultError} If the vault is already enabled
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (config) throw new VaultError('Vault is already enabled');
+    const created = await createConfig(passphrase);
+    key = created.key;
+    await rewriteAll(encryptValue, created.config);
+  },
+
+  /**
+   * Derives the key so protected fields can be read and written
+   * @throws {VaultError} If the vault is disabled or the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<void> {
+    if (!config) throw new VaultError('Vault is not enabled');
+    key = await verify(passphrase, config);
+  },
+
+  /**
+   * Forgets the key. Protected fields stay encrypted until unlocked again.
+   */
+  lock(): void {
+    key = null;
+  },
+
+  /**
+   * Re-encrypts every protected field under a new passphrase
+   * @throws {VaultError} If the vault is disabled or the current passphrase is wrong
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    if (!config) throw new VaultError('Vault is not enabled');
+    const oldKey = await verify(current, config);
+    const created = await createConfig(next);
+
+    await rewriteAll(
+      async (value) =>
+        encryptString(created.key, isEncrypted(value) ? await decryptString(oldKey, value) : value),
+      created.config
+    );
+    key = created.key;
+  },
+
+  /**
+   * Decrypts every protected field and turns encryption off
+   * @throws {VaultError} If the vault is disabled or the passphrase is wrong
+   */
+  async disable(passphrase: string): Promise<void> {
+    if (!config) throw new VaultError('Vault is not enabled');
+    key = await verify(passphrase, config);
+    await rewriteAll(decryptValue, null);
+    key = null;
+  },
+
+  /**
+   * Encrypts the protected fields of a character before it is written
+   * @throws {VaultError} If the vault is locked and a field holds plain text
+   */
+  async encryptCharacter<T extends Partial<Character>>(character: T): Promise<T> {
+    if (!config) return character;
+    return transformFields(character, CHARACTER_FIELDS, encryptValue);
+  },
+
+  /**
+   * Decrypts the protected fields of a stored character. While locked the
+   * ciphertext is returned unchanged.
+   */
+  async decryptCharacter<T extends Partial<Character>>(character: T): Promise<T> {
+    return transformFields(character, CHARACTER_FIELDS, decryptValue);
+  },
+
+  /**
+   * Encrypts the protected fields of a game instance before it is written
+   * @throws {VaultError} If the vault is locked and a field holds plain text
+   */
+  async encryptInstance<T extends Partial<GameInstance>>(instance: T): Promise<T> {
+    if (!config) return instance;
+    return transformFields(instance, INSTANCE_FIELDS, encryptValue);
+  },
+
+  /**
+   * Decrypts the protected fields of a stored game instance. While locked the
+   * ciphertext is returned unchanged.
+   */
+  async decryptInstance<T extends Partial<GameInstance>>(instance: T): Promise<T> {
+    return transformFields(instance, INSTANCE_FIELDS, decryptValue);
+  }
+};
@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { webhookService } from './webhookService';
+
+type Reply = (response: ServerResponse) => void;
+
+/** Stand-in for Discord: answers each post with the next queued reply, 200 once they run out */
+let server: Server;
+let url: string;
+let replies: Reply[] = [];
+let received: { content: string; allowed_mentions: { users: string[] } }[] = [];
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+  });
+}
+
+function json(status: number, body: object): Reply {
+  return (response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+}
+
+async function outbox() {
+  return (await db.outbox.toArray()).sort((a, b) => a.id! - b.id!);
+}
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    received.push(JSON.parse(await readBody(request)));
+    (replies.shift() ?? json(200, {}))(response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  await db.open();
+});
+
+afterAll(async () => {
+  db.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  replies = [];
+  received = [];
+  await db.outbox.clear();
+});
+
+describe('webhookService.flush', () => {
+  it('posts queued messages in order and removes them once sent', async () => {
+    await webhookService.enqueue('instance', url, ['first', 'second']);
+
+    expect(await webhookService.flush()).toBe(2);
+    expect(received.map((body) => body.content)).toEqual(['first', 'second']);
+    expect(await outbox()).toEqual([]);
+  });
+
+  it('allows only the mentions the messages were queued with', async () => {
+    await webhookService.enqueue('instance', url, ["<@123> you're up!"], ['123']);
+    await webhookService.enqueue('instance', url, ['@everyone']);
+
+    await webhookService.flush();
+    expect(received.map((body) => body.allowed_mentions)).toEqual([
+      { users: ['123'] },
+      { users: [] }
+    ]);
+  });
+
+  it('waits for the retry_after Discord asks for when rate limited', async () => {
+    replies.push(json(429, { retry_after: 2.5 }));
+    await webhookService.enqueue('instance', url, ['first', 'second']);
+
+    const before = Date.now();
+    expect(await webhookService.flush()).toBe(0);
+    const [first, second] = await outbox();
+    expect(first).toMatchObject({ attempts: 1, lastError: 'HTTP 429' });
+    expect(first.failed).toBeUndefined();
+    expect(first.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2500);
+    expect(second.attempts).toBe(0);
+
+    // The second message is due, but stays behind the first one across flushes
+    expect(await webhookService.flush()).toBe(0);
+    expect(received.map((body) => body.content)).toEqual(['first']);
+  });
+
+  it('marks a message rejected with a client error as failed and moves on', async () => {
+    replies.push(json(404, { message: 'Unknown Webhook' }));
+    await webhookService.enqueue('instance', url, ['first', 'second']);
+
+    expect(await webhookService.flush()).toBe(0);
+    const [first] = await outbox();
+    expect(first).toMatchObject({ failed: true, lastError: 'HTTP 404' });
+    expect(await webhookService.status('instance')).toMatchObject({ pending: 1, failed: 1 });
+
+    expect(await webhookService.flush()).toBe(1);
+    expect(received.map((body) => body.content)).toEqual(['first', 'second']);
+  });
+
+  it('retries after a network failure with backoff', async () => {
+    // Nothing listens on the port of a closed server
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+    await webhookService.enqueue('instance', `http://127.0.0.1:${port}/webhook`, ['first']);
+
+    const before = Date.now();
+    expect(await webhookService.flush()).toBe(0);
+    const [first] = await outbox();
+    expect(first.attempts).toBe(1);
+    expect(first.failed).toBeUndefined();
+    expect(first.lastError).toBeTruthy();
+    expect(first.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 5000);
+  });
+});
@@ -0,0 +1,289 @@
+import type { OutboxMessage } from '../types';
+import { db } from '../db';
+
+/** How long a tab may hold a message it is sending before others retry it */
+const LEASE_DURATION = 30 * 1000;
+
+/** How often the outbox is checked for messages due a retry */
+const RETRY_INTERVAL = 30 * 1000;
+
+/** How long a send may take before it is abandoned and retried later */
+const SEND_TIMEOUT = 10 * 1000;
+
+/** First retry delay; each failed attempt doubles it, up to MAX_BACKOFF */
+const BASE_BACKOFF = 5 * 1000;
+const MAX_BACKOFF = 5 * 60 * 1000;
+
+/**
+ * Raised for a webhook URL that cannot be posted to
+ */
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Number of queued messages and those Discord rejected for good
+ */
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  /** Error of the most recent failed attempt, if any */
+  lastError?: string;
+}
+
+/**
+ * Accepts any http(s) URL, so a local stand-in server can be used in place of Discord
+ */
+function assertWebhookUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookError('Webhook URL is not a valid URL');
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new WebhookError('Webhook URL must use http or https');
+  }
+}
+
+function backoff(attempts: number): number {
+  return Math.min(BASE_BACKOFF * 2 ** (attempts - 1), MAX_BACKOFF);
+}
+
+/**
+ * Leases every message that is due, so another tab flushing at the same
+ * time does not send it twice. Messages to one webhook are posted in order,
+ * so a message waits while an earlier one to its URL is still unsent, even
+ * if that one is not due yet; messages Discord rejected for good no longer
+ * hold the others up.
+ */
+async function claimDue(now: Date): Promise<OutboxMessage[]> {
+  return db.transaction('rw', db.outbox, async () => {
+    const pending = await db.outbox.filter((m) => !m.failed).toArray();
+    pending.sort((a, b) => a.id! - b.id!);
+
+    const waiting = new Set<string>();
+    const due: OutboxMessage[] = [];
+    for (const message of pending) {
+      if (waiting.has(message.url)) continue;
+      const leased = message.leaseUntil && message.leaseUntil > now;
+      if (message.nextAttemptAt <= now && !leased) {
+        due.push(message);
+      } else {
+        waiting.add(message.url);
+      }
+    }
+
+    const leaseUntil = new Date(now.getTime() + LEASE_DURATION);
+    await Promise.all(due.map((m) => db.outbox.update(m.id!, { leaseUntil })));
+    return due;
+  });
+}
+
+type SendResult =
+  | { ok: true }
+  | { ok: false; retryAfter?: number; permanent: boolean; error: string };
+
+async function send(message: OutboxMessage): Promise<SendResult> {
+  // A request that hangs would hold up every later message to the webhook
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SEND_TIMEOUT);
+  try {
+    let response: Response;
+    try {
+      response = await fetch(message.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Only the players the message was queued for are pinged, never roles or @everyone
+        body: JSON.stringify({
+          content: message.content,
+          allowed_mentions: { users: message.mentions ?? [] }
+        }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      const reason = controller.signal.aborted
+        ? 'Timed out'
+        : error instanceof Error
+          ? error.message
+          : 'Network error';
+      return { ok: false, permanent: false, error: reason };
+    }
+    if (response.ok) return { ok: true };
+
+    const error = `HTTP ${response.status}`;
+    if (response.status === 429) {
+      const body = await response.json().catch(() => ({}));
+      const seconds = Number(body.retry_after ?? response.headers.get('Retry-After'));
+      return {
+        ok: false,
+        permanent: false,
+        error,
+        retryAfter: Number.isFinite(seconds) ? seconds * 1000 : undefined
+      };
+    }
+    // Other client errors (deleted webhook, bad payload) will not succeed on retry
+    return { ok: false, permanent: response.status >= 400 && response.status < 500, error };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+let flushing: Promise<number> | null = null;
+
+async function flushOutbox(): Promise<number> {
+  const due = await claimDue(new Date());
+  due.sort((a, b) => a.id! - b.id!);
+
+  // Once a message fails, later ones to its webhook wait for it
+  const blocked = new Set<string>();
+  let sent = 0;
+  for (const message of due) {
+    if (blocked.has(message.url)) {
+      await db.outbox.update(message.id!, { leaseUntil: undefined });
+      continue;
+    }
+
+    const result = await send(message);
+    if (result.ok) {
+      await db.outbox.delete(message.id!);
+      sent++;
+      continue;
+    }
+
+    blocked.add(message.url);
+    const attempts = message.attempts + 1;
+    await db.outbox.update(message.id!, {
+      attempts,
+      lastError: result.error,
+      leaseUntil: undefined,
+      failed: result.permanent || undefined,
+      nextAttemptAt: new Date(Date.now() + (result.retryAfter ?? backoff(attempts)))
+    });
+  }
+  return sent;
+}
+
+export const webhookService = {
+  /**
+   * Queues messages for a webhook. They are sent by the next flush.
+   * @param mentions - Discord user IDs the messages may ping
+   * @throws {WebhookError} If the URL is not an http(s) URL
+   */
+  async enqueue(
+    instanceId: string,
+    url: string,
+    messages: string[],
+    mentions: string[] = []
+  ): Promise<void> {
+    try {
+      assertWebhookUrl(url);
+      const now = new Date();
+      await db.outbox.bulkAdd(
+        messages.map((content) => ({
+          instanceId,
+          url,
+          content,
+          mentions,
+          createdAt: now,
+          attempts: 0,
+          nextAttemptAt: now
+        }))
+      );
+    } catch (error) {
+      console.error('Error queueing webhook messages:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Sends every queued message that is due. Messages that fail are retried
+   * with exponential backoff, or after the delay Discord asks for when rate
+   * limited. Concurrent calls share a single flush.
+   * @returns Number of messages sent
+   */
+  async flush(): Promise<number> {
+    if (!flushing) {
+      flushing = flushOutbox().finally(() => {
+        flushing = null;
+      });
+    }
+    try {
+      return await flushing;
+    } catch (error) {
+      console.error('Error flushing webhook outbox:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Flushes the outbox now, when the browser comes back online and periodically
+   * @returns Function that stops sending
+   */
+  start(): () => void {
+    const run = () => {
+      this.flush().catch(() => {});
+    };
+    run();
+    const timer = setInterval(run, RETRY_INTERVAL);
+    if (typeof window !== 'undefined') window.addEventListener('online', run);
+    return () => {
+      clearInterval(timer);
+      if (typeof window !== 'undefined') window.removeEventListener('online', run);
+    };
+  },
+
+  /**
+   * Summarizes the outbox, optionally for one game instance
+   */
+  async status(instanceId?: string): Promise<OutboxStatus> {
+    try {
+      const messages = instanceId
+        ? await db.outbox.where('instanceId').equals(instanceId).toArray()
+        : await db.outbox.toArray();
+      const failed = messages.filter((m) => m.failed);
+      const lastError = messages
+        .filter((m) => m.lastError)
+        .sort((a, b) => b.id! - a.id!)[0]?.lastError;
+      return { pending: messages.length - failed.length, failed: failed.length, lastError };
+    } catch (error) {
+      console.error('Error reading webhook outbox:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Queues messages Discord rejected for another attempt, e.g. after fixing the webhook URL
+   */
+  async retryFailed(instanceId: string): Promise<void> {
+    try {
+      await db.outbox
+        .where('instanceId')
+        .equals(instanceId)
+        .modify((m) => {
+          if (!m.failed) return;
+          delete m.failed;
+          m.attempts = 0;
+          m.nextAttemptAt = new Date();
+        });
+    } catch (error) {
+      console.error('Error retrying webhook messages:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Drops every queued message of a game instance
+   */
+  async clear(instanceId: string): Promise<void> {
+    try {
+      await db.outbox.where('instanceId').equals(instanceId).delete();
+    } catch (error) {
+      console.error('Error clearing webhook outbox:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { writable, derived, get } from "svelte/store";
+import type { CombatLogEntry } from "../types";
+import { combatLogService } from "../services/combatLogService";
+
+/**
+ * Creates the store of loaded combat logs, keyed by encounter ID
+ */
+function createCombatLogStore() {
+  const store = writable<Map<string, CombatLogEntry[]>>(new Map());
+  const { subscribe, update } = store;
+
+  return {
+    subscribe,
+
+    /**
+     * Loads an encounter's log from IndexedDB
+     * @param encounterId - Encounter whose log should be loaded
+     */
+    async load(encounterId: string) {
+      const entries = await combatLogService.getForEncounter(encounterId);
+      update((logs) => new Map(logs).set(encounterId, entries));
+    },
+
+    /**
+     * Appends an entry to IndexedDB and to the loaded log
+     * @param entry - Entry to append
+     */
+    async append(entry: Omit<CombatLogEntry, "id">) {
+      const stored = await combatLogService.append(entry);
+      if (!get(store).has(entry.encounterId)) return;
+      update((logs) =>
+        new Map(logs).set(entry.encounterId, [
+          ...(logs.get(entry.encounterId) ?? []),
+          stored,
+        ]),
+      );
+    },
+  };
+}
+
+export const combatLogStore = createCombatLogStore();
+
+/**
+ * Factory function that creates a derived store for an encounter's combat log
+ * @param encounterId - ID of the encounter (load it first with combatLogStore.load)
+ * @returns Derived store containing the log entries, oldest first
+ */
+export const encounterLog = (encounterId: string) =>
+  derived(combatLogStore, ($logs) => $logs.get(encounterId) ?? []);
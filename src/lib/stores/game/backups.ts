@@ -0,0 +1,41 @@
+import { backupService } from "../../services/backupService";
+import { historyStore } from "../historyStore";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Backup actions: manual backups and restoring all data or one instance
+ */
+export function createBackupActions({ withReload }: GameStoreContext) {
+  return {
+    /**
+     * Takes a backup of all data now, outside the automatic schedule
+     * @returns The ID of the new backup
+     */
+    async backupNow() {
+      return backupService.create();
+    },
+
+    /**
+     * Replaces all data with a backup, then reloads the store
+     * @param backupId - Backup to restore
+     */
+    async restoreBackup(backupId: number) {
+      return withReload(async () => {
+        await backupService.restore(backupId);
+        await historyStore.focus(null);
+      });
+    },
+
+    /**
+     * Restores one game instance and its records from a backup, then reloads the store
+     * @param backupId - Backup to restore from
+     * @param instanceId - Instance to restore
+     * @throws {VaultError} If the backup was encrypted under a different passphrase
+     */
+    async restoreInstanceBackup(backupId: number, instanceId: string) {
+      return withReload(() =>
+        backupService.restoreInstance(backupId, instanceId),
+      );
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import type { Character } from "../../types";
+import { characterService } from "../../services/characterService";
+import { integrityService } from "../../services/integrityService";
+import type { DeleteOptions } from "../../services/integrityService";
+import type { GameStoreContext } from "./context";
+import { validateCharacter } from "./validation";
+
+/**
+ * Character actions: creating, editing and deleting characters, and setting
+ * their HP and AC. Damage and healing are in createDyingActions.
+ */
+export function createCharacterActions({
+  update,
+  track,
+  stampOf,
+  mirrorChangeSet,
+  nameOf,
+  logCharacterChange,
+}: GameStoreContext) {
+  return {
+    async createCharacter(character: Omit<Character, "id">) {
+      try {
+        validateCharacter(character);
+        const newCharacter = await characterService.create(character);
+        update((state) => ({
+          ...state,
+          characters: new Map(state.characters).set(
+            newCharacter.id,
+            newCharacter,
+          ),
+        }));
+        return newCharacter;
+      } catch (error) {
+        console.error("Error creating character:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Updates a character and records the change for undo
+     * @param id - Character ID
+     * @param character - Fields to change
+     * @param label - Description shown in the undo history
+     * @throws {Error} If character not found
+     * @throws {ConflictError} If the character changed since the store last saw it
+     */
+    async updateCharacter(
+      id: string,
+      character: Partial<Character>,
+      label?: string,
+    ) {
+      try {
+        await track(
+          "characters",
+          id,
+          () =>
+            characterService.update(id, character, stampOf("characters", id)),
+          (existing) => label ?? `Edit ${existing.name}`,
+        );
+      } catch (error) {
+        console.error("Error updating character:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Deletes a character along with the references to it
+     * @param id - Character ID
+     * @param options - What happens to linked characters and encounter participation;
+     *                  blocked by default while either exists
+     * @returns The plan that was applied
+     * @throws {IntegrityError} If blocked by dependent records
+     */
+    async deleteCharacter(
+      id: string,
+      options: DeleteOptions = { policy: "block" },
+    ) {
+      try {
+        const plan = await integrityService.executeDelete(
+          "characters",
+          id,
+          options,
+        );
+        await mirrorChangeSet(plan);
+        return plan;
+      } catch (error) {
+        console.error("Error deleting character:", error);
+        throw error;
+      }
+    },
+
+    // HP Management Methods
+    // These apply to the stored HP inside a transaction, so rapid clicks all land
+    /**
+     * Sets a character's maximum HP and adjusts current HP if needed
+     * @param id - Character ID
+     * @param maxHP - New maximum HP value
+     * @throws {Error} If character not found
+     * @returns Promise resolving when the update is complete
+     */
+    async setMaxHP(id: string, maxHP: number) {
+      await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => ({
+            hp: {
+              ...character.hp,
+              max: maxHP,
+              // Ensure current HP doesn't exceed new max
+              current: Math.min(character.hp.current, maxHP),
+            },
+          })),
+        (character) => `Set ${character.name} max HP to ${maxHP}`,
+      );
+    },
+
+    /**
+     * Sets a character's current HP, clamping between 0 and max HP
+     * @param id - Character ID
+     * @param currentHP - New current HP value
+     * @throws {Error} If character not found
+     * @returns Promise resolving when the update is complete
+     */
+    async setCurrentHP(id: string, currentHP: number) {
+      await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => ({
+            hp: {
+              ...character.hp,
+              current: Math.min(Math.max(currentHP, 0), character.hp.max), // Clamp between 0 and max
+            },
+          })),
+        (character) => `Set ${character.name} HP to ${currentHP}`,
+      );
+    },
+
+    /**
+     * Sets a character's temporary HP (cannot be negative)
+     * @param id - Character ID
+     * @param tempHP - New temporary HP value
+     * @throws {Error} If character not found
+     * @returns Promise resolving when the update is complete
+     */
+    async setTempHP(id: string, tempHP: number) {
+      const newTemp = Math.max(tempHP, 0); // Cannot be negative
+      const { before } = await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => ({
+            hp: {
+              ...character.hp,
+              temp: newTemp,
+            },
+          })),
+        (character) => `Set ${character.name} temp HP to ${tempHP}`,
+      );
+      await logCharacterChange(
+        "setTempHP",
+        id,
+        { temp: before.hp.temp },
+        { temp: newTemp },
+      );
+    },
+
+    // AC Management Methods
+    /**
+     * Sets a character's Armor Class to a specific value
+     * @param id - Character ID
+     * @param ac - New Armor Class value
+     * @throws {ConflictError} If the character changed since the store last saw it
+     * @returns Promise resolving when the update is complete
+     */
+    async setAC(id: string, ac: number) {
+      return this.updateCharacter(id, { ac }, `Set ${nameOf(id)} AC to ${ac}`);
+    },
+
+    /**
+     * Modifies a character's Armor Class by adding or subtracting a value
+     * @param id - Character ID
+     * @param modifier - Amount to modify AC by (positive or negative)
+     * @throws {Error} If character not found
+     * @returns Promise resolving when the update is complete
+     */
+    async modifyAC(id: string, modifier: number) {
+      const { before, patch } = await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => ({
+            ac: character.ac + modifier,
+          })),
+        (character) => `Modify ${character.name} AC by ${modifier}`,
+      );
+      await logCharacterChange(
+        "modifyAC",
+        id,
+        { ac: before.ac },
+        { ac: patch.ac },
+      );
+    },
+
+    // Add method to get related characters
+    async getRelatedCharacters(characterId: string) {
+      const characters = await characterService.getAll();
+      return characters.filter(
+        (char) => char.relatedCharacterId === characterId,
+      );
+    },
+  };
+}
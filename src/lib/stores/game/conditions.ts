@@ -0,0 +1,165 @@
+import type { Encounter, ParticipantCondition } from "../../types";
+import { encounterService } from "../../services/encounterService";
+import {
+  applyCondition,
+  findCondition,
+  formatCondition,
+  removeCondition,
+  setConditionValue,
+} from "../../utils/conditions";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Condition actions: applying, setting and removing participants' conditions
+ * under the instance's game system
+ */
+export function createConditionActions({
+  update,
+  track,
+  nameOf,
+  rulesOf,
+  logCombat,
+}: GameStoreContext) {
+  /**
+   * Changes one participant's conditions, records it for undo and logs the
+   * resulting value of the condition
+   * @param change - Computes the new conditions from the stored ones
+   */
+  async function changeConditions(
+    encounterId: string,
+    characterId: string,
+    conditionId: string,
+    change: (
+      conditions: ParticipantCondition[],
+      encounter: Encounter,
+    ) => ParticipantCondition[],
+  ) {
+    const valueOf = (encounter: Encounter) => {
+      const condition = encounter.participants
+        .find((p) => p.characterId === characterId)
+        ?.conditions?.find((c) => c.id === conditionId);
+      // Conditions without a value count as 1 while present
+      return condition && (condition.value ?? 1);
+    };
+
+    update((state) => ({ ...state, loading: true }));
+    try {
+      const { before, patch } = await track(
+        "encounters",
+        encounterId,
+        () =>
+          encounterService.mutate(encounterId, (encounter) => {
+            if (
+              !encounter.participants.some((p) => p.characterId === characterId)
+            )
+              throw new Error("Participant not found in encounter");
+            return {
+              participants: encounter.participants.map((p) => {
+                if (p.characterId !== characterId) return p;
+                const conditions = change(p.conditions ?? [], encounter);
+                return {
+                  ...p,
+                  conditions: conditions.length ? conditions : undefined,
+                };
+              }),
+            };
+          }),
+        (encounter, { participants }) => {
+          const name = findCondition(rulesOf(encounter).id, conditionId).name;
+          const condition = participants
+            ?.find((p) => p.characterId === characterId)
+            ?.conditions?.find((c) => c.id === conditionId);
+          return condition
+            ? `${nameOf(characterId)} is ${formatCondition(condition, rulesOf(encounter).id)}`
+            : `Remove ${name} from ${nameOf(characterId)}`;
+        },
+      );
+      const after = { ...before, ...patch };
+      await logCombat(
+        after,
+        "setCondition",
+        characterId,
+        { [conditionId]: valueOf(before) },
+        { [conditionId]: valueOf(after) },
+      );
+      update((state) => ({ ...state, loading: false }));
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        loading: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+      throw error;
+    }
+  }
+
+  return {
+    /**
+     * Applies a condition to a participant following the instance's game
+     * system: valued conditions stack by its rules and implied conditions
+     * (unconscious → prone) are added too
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the affected participant
+     * @param conditionId - Catalogue ID such as "frightened", or a custom name
+     * @param value - Value for a valued condition; defaults to 1
+     * @throws {Error} If encounter or participant not found
+     */
+    async applyCondition(
+      encounterId: string,
+      characterId: string,
+      conditionId: string,
+      value?: number,
+    ) {
+      await changeConditions(
+        encounterId,
+        characterId,
+        conditionId,
+        (conditions, encounter) =>
+          applyCondition(conditions, rulesOf(encounter).id, conditionId, value),
+      );
+    },
+
+    /**
+     * Sets a valued condition to exactly this value, e.g. to lower it after a
+     * save; 0 removes the condition
+     * @throws {Error} If encounter or participant not found
+     */
+    async setConditionValue(
+      encounterId: string,
+      characterId: string,
+      conditionId: string,
+      value: number,
+    ) {
+      await changeConditions(
+        encounterId,
+        characterId,
+        conditionId,
+        (conditions, encounter) =>
+          setConditionValue(
+            conditions,
+            rulesOf(encounter).id,
+            conditionId,
+            value,
+          ),
+      );
+    },
+
+    /**
+     * Removes a condition from a participant, with the conditions only it implied
+     * @throws {Error} If encounter or participant not found
+     */
+    async removeCondition(
+      encounterId: string,
+      characterId: string,
+      conditionId: string,
+    ) {
+      await changeConditions(
+        encounterId,
+        characterId,
+        conditionId,
+        (conditions, encounter) =>
+          removeCondition(conditions, rulesOf(encounter).id, conditionId),
+      );
+    },
+  };
+}
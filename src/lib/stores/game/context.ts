@@ -0,0 +1,245 @@
+import { get } from "svelte/store";
+import type { Writable } from "svelte/store";
+import type {
+  Encounter,
+  EncounterParticipant,
+  HistoryChange,
+  HistoryTable,
+} from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { gameInstanceService } from "../../services/gameInstanceService";
+import { vaultService } from "../../services/vaultService";
+import type { ChangeSet } from "../../services/integrityService";
+import { rulesFor } from "../../rules";
+import { followTurn, sortTurnOrder } from "../../utils/turnOrder";
+import { historyStore, pickPrevious } from "../historyStore";
+import { ConflictError } from "../../db/concurrency";
+import type { Mutation } from "../../db/concurrency";
+import { loadEntities } from "./state";
+import type { GameState } from "./state";
+import { createCombatLogging } from "./logging";
+
+/**
+ * The game store's state and the helpers its actions share: writing through
+ * the services, mirroring into the store, undo history and the combat log
+ */
+export type GameStoreContext = ReturnType<typeof createGameContext>;
+
+/**
+ * Creates the helpers shared by the game store's per-feature actions
+ * @param store - The game store's writable state
+ */
+export function createGameContext({ subscribe, update }: Writable<GameState>) {
+  /**
+   * Runs an operation that may change any record or the vault state, then reloads entities
+   */
+  async function withReload(operation: () => Promise<void> | void) {
+    update((state) => ({ ...state, loading: true }));
+    try {
+      await operation();
+      // History holds record values too: drop or decrypt them with the rest
+      await historyStore.reload();
+      const entities = await loadEntities();
+      update((state) => ({
+        ...state,
+        ...entities,
+        loading: false,
+        error: null,
+      }));
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        loading: false,
+        vault: vaultService.status(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+      throw error;
+    }
+  }
+
+  /**
+   * Merges written fields into the in-memory copy of a record
+   */
+  function mirror(table: HistoryTable, id: string, patch: object) {
+    update((state) => {
+      const records = new Map<string, object>(state[table]);
+      const existing = records.get(id);
+      if (existing) {
+        records.set(id, { ...existing, ...patch });
+      }
+      return { ...state, [table]: records };
+    });
+  }
+
+  /**
+   * The lastUpdated of the in-memory copy, i.e. the version the UI is showing
+   */
+  function stampOf(table: HistoryTable, id: string) {
+    return get({ subscribe })[table].get(id)?.lastUpdated;
+  }
+
+  /**
+   * Mirrors the deletes and updates of a delete plan or integrity repair
+   */
+  async function mirrorChangeSet(changes: ChangeSet) {
+    update((state) => {
+      const characters = new Map(state.characters);
+      const encounters = new Map(state.encounters);
+      for (const { id, patch } of changes.characterUpdates) {
+        const existing = characters.get(id);
+        if (existing) characters.set(id, { ...existing, ...patch });
+      }
+      for (const { id, patch } of changes.encounterUpdates) {
+        const existing = encounters.get(id);
+        if (existing) encounters.set(id, { ...existing, ...patch });
+      }
+      changes.deletedCharacters.forEach((id) => characters.delete(id));
+      changes.deletedEncounters.forEach((id) => encounters.delete(id));
+      return { ...state, characters, encounters };
+    });
+    for (const id of changes.deletedEncounters) {
+      await historyStore.forget(id);
+    }
+  }
+
+  /**
+   * Replaces a record that failed a concurrency check with the stored version
+   * and exposes the conflict, so the UI can show the latest data and retry
+   */
+  async function reloadConflicted(conflict: ConflictError) {
+    const table = conflict.table as HistoryTable;
+    const latest =
+      table === "characters"
+        ? await characterService.get(conflict.id)
+        : table === "instances"
+          ? await gameInstanceService.get(conflict.id)
+          : await encounterService.get(conflict.id);
+
+    update((state) => {
+      const records = new Map<string, object>(state[table]);
+      if (latest) records.set(conflict.id, latest);
+      return { ...state, [table]: records, conflict };
+    });
+  }
+
+  /**
+   * Runs a transactional write, mirrors it into the store and records it in
+   * the undo history
+   * @param run - Performs the write, e.g. `characterService.mutate(...)`
+   * @param label - Builds the undo history description from the previous record
+   *                and the fields written
+   * @param follow - Writes the change leads to in other records, such as knocking
+   *                 out a creature damage took to 0 HP; undone together with it
+   * @throws {ConflictError} After reloading the record, if it changed elsewhere
+   */
+  async function track<T extends object>(
+    table: HistoryTable,
+    id: string,
+    run: () => Promise<Mutation<T>>,
+    label: (before: T, patch: Partial<T>) => string,
+    follow?: (mutation: Mutation<T>) => Promise<HistoryChange[]>,
+  ): Promise<Mutation<T>> {
+    let mutation: Mutation<T>;
+    try {
+      mutation = await run();
+    } catch (error) {
+      if (error instanceof ConflictError) await reloadConflicted(error);
+      throw error;
+    }
+
+    mirror(table, id, mutation.patch);
+    const changes = [changeOf(table, id, mutation)];
+    try {
+      if (follow) changes.push(...(await follow(mutation)));
+    } finally {
+      await historyStore.record(
+        label(mutation.before, mutation.patch),
+        changes,
+      );
+    }
+    return mutation;
+  }
+
+  /**
+   * The history change for a write
+   */
+  function changeOf<T extends object>(
+    table: HistoryTable,
+    id: string,
+    { before, patch }: Mutation<T>,
+  ): HistoryChange {
+    return { table, id, before: pickPrevious(before, patch), after: patch };
+  }
+
+  /**
+   * Looks up a character's name for history labels
+   */
+  function nameOf(characterId: string) {
+    return get({ subscribe }).characters.get(characterId)?.name ?? "Unknown";
+  }
+
+  /**
+   * Finds the encounter a character-level change belongs to: the focused
+   * encounter if the character is in it, otherwise an active encounter they are in
+   */
+  function encounterFor(characterId: string): Encounter | undefined {
+    const { encounters } = get({ subscribe });
+    const includes = (encounter?: Encounter) =>
+      !!encounter?.participants.some((p) => p.characterId === characterId);
+    const focused = encounters.get(get(historyStore).scope);
+    if (includes(focused)) return focused;
+    return [...encounters.values()].find((e) => e.isActive && includes(e));
+  }
+
+  /**
+   * The rules module of the instance an encounter or character belongs to
+   */
+  function rulesOf({ instanceId }: { instanceId: string }) {
+    return rulesFor(get({ subscribe }).instances.get(instanceId)?.system);
+  }
+
+  /**
+   * How ties on initiative are broken in an encounter: the instance's
+   * choice, or else its game system's rule
+   */
+  function tieBreakerOf(encounter: Encounter) {
+    return (
+      get({ subscribe }).instances.get(encounter.instanceId)?.tieBreaker ??
+      rulesOf(encounter).tieBreaker
+    );
+  }
+
+  /**
+   * Sorts participants into turn order, keeping the turn with whoever had it
+   * @returns The participants and turn fields to write
+   */
+  function inTurnOrder(
+    encounter: Encounter,
+    participants: EncounterParticipant[],
+  ) {
+    const sorted = sortTurnOrder(
+      participants,
+      get({ subscribe }).characters,
+      tieBreakerOf(encounter),
+    );
+    return { participants: sorted, ...followTurn(encounter, sorted) };
+  }
+
+  return {
+    subscribe,
+    update,
+    withReload,
+    mirror,
+    stampOf,
+    mirrorChangeSet,
+    track,
+    changeOf,
+    nameOf,
+    encounterFor,
+    rulesOf,
+    tieBreakerOf,
+    inTurnOrder,
+    ...createCombatLogging(nameOf, encounterFor),
+  };
+}
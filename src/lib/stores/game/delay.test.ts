@@ -0,0 +1,144 @@
+import 'fake-indexeddb/auto';
+import { get } from 'svelte/store';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Encounter } from '../../types';
+import { db } from '../../db';
+import { gameStore, getCurrentParticipants } from '../gameStore';
+
+let encounterId: string;
+
+function encounter(): Encounter {
+  return get(gameStore).encounters.get(encounterId)!;
+}
+
+/**
+ * Creature IDs in turn order, with the one whose turn it is marked
+ */
+function turnOrder(): string[] {
+  const { participants, currentTurn } = encounter();
+  return participants.map((p, i) => (i === currentTurn ? `>${p.characterId}` : p.characterId));
+}
+
+beforeAll(async () => {
+  await gameStore.init();
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+  await gameStore.init();
+  const { id: instanceId } = await gameStore.createInstance({
+    name: 'Age of Ashes',
+    system: 'Pathfinder 2E',
+    status: 'active',
+    createdAt: new Date(),
+    lastAccessed: new Date()
+  });
+  for (const [id, type] of [
+    ['valeros', 'PC'],
+    ['goblin', 'NPC'],
+    ['ezren', 'PC']
+  ] as const) {
+    await db.characters.add({
+      id,
+      instanceId,
+      name: id,
+      type,
+      discordId: type === 'PC' ? '111' : undefined,
+      notes: '',
+      hp: { current: 20, max: 20 },
+      ac: 16,
+      lastUpdated: new Date()
+    });
+  }
+  ({ id: encounterId } = await gameStore.createEncounter({
+    instanceId,
+    name: 'Ambush',
+    isActive: true,
+    currentRound: 1,
+    currentTurn: 0,
+    participants: [
+      { characterId: 'valeros', initiative: 20 },
+      { characterId: 'goblin', initiative: 15 },
+      { characterId: 'ezren', initiative: 10 }
+    ],
+    createdAt: new Date(),
+    lastUpdated: new Date()
+  }));
+  await gameStore.init();
+});
+
+describe('delayTurn', () => {
+  it('passes the turn on and lists the delaying creature as waiting', async () => {
+    await gameStore.delayTurn(encounterId, 'valeros');
+    expect(turnOrder()).toEqual(['valeros', '>goblin', 'ezren']);
+    expect(get(getCurrentParticipants(encounterId))).toMatchObject([
+      { characterId: 'goblin' },
+      { characterId: 'valeros', delaying: true, character: { name: 'valeros' } }
+    ]);
+  });
+
+  it('only lets the creature whose turn it is delay', async () => {
+    await expect(gameStore.delayTurn(encounterId, 'goblin')).rejects.toThrow(
+      'Only the creature whose turn it is can delay'
+    );
+  });
+
+  it('gives up the delayed turn once its initiative comes round again', async () => {
+    await gameStore.delayTurn(encounterId, 'valeros');
+    await gameStore.nextTurn(encounterId);
+    await gameStore.nextTurn(encounterId);
+    expect(turnOrder()).toEqual(['>valeros', 'goblin', 'ezren']);
+    expect(encounter().participants[0].delaying).toBeUndefined();
+  });
+});
+
+describe('resumeTurn', () => {
+  it('acts next by default, taking the initiative of the creature acting now', async () => {
+    await gameStore.delayTurn(encounterId, 'valeros');
+    await gameStore.resumeTurn(encounterId, 'valeros');
+    expect(turnOrder()).toEqual(['>goblin', 'valeros', 'ezren']);
+    expect(encounter().participants[1]).toEqual({ characterId: 'valeros', initiative: 15 });
+  });
+
+  it('can return after a later creature', async () => {
+    await gameStore.delayTurn(encounterId, 'valeros');
+    await gameStore.resumeTurn(encounterId, 'valeros', 'ezren');
+    expect(turnOrder()).toEqual(['>goblin', 'ezren', 'valeros']);
+    expect(encounter().participants[2].initiative).toBe(10);
+  });
+
+  it('refuses creatures that are not delaying or a point already passed', async () => {
+    await expect(gameStore.resumeTurn(encounterId, 'goblin')).rejects.toThrow(
+      'Participant is not delaying'
+    );
+    await gameStore.nextTurn(encounterId);
+    await gameStore.delayTurn(encounterId, 'goblin');
+    await expect(gameStore.resumeTurn(encounterId, 'goblin', 'valeros')).rejects.toThrow(
+      'A delaying creature can only return after a creature still to act'
+    );
+  });
+});
+
+describe('readyAction', () => {
+  it("records the trigger until the start of the creature's next turn", async () => {
+    await gameStore.readyAction(encounterId, 'valeros', ' when the goblin moves ');
+    await gameStore.nextTurn(encounterId);
+    expect(get(getCurrentParticipants(encounterId))).toMatchObject([
+      { characterId: 'goblin' },
+      { characterId: 'valeros', readied: 'when the goblin moves' }
+    ]);
+
+    await gameStore.nextTurn(encounterId);
+    await gameStore.nextTurn(encounterId);
+    expect(encounter().participants[0].readied).toBeUndefined();
+  });
+
+  it('needs a trigger, and can be cleared', async () => {
+    await expect(gameStore.readyAction(encounterId, 'valeros', ' ')).rejects.toThrow(
+      'Describe what triggers the readied action'
+    );
+    await gameStore.readyAction(encounterId, 'goblin', 'when someone casts');
+    await gameStore.clearReadyAction(encounterId, 'goblin');
+    expect(encounter().participants[1].readied).toBeUndefined();
+  });
+});
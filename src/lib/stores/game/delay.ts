@@ -0,0 +1,167 @@
+import { encounterService } from "../../services/encounterService";
+import { currentParticipant, followTurn } from "../../utils/turnOrder";
+import type { GameStoreContext } from "./context";
+import { ValidationError } from "./validation";
+
+/**
+ * Delay and Ready actions: returning a delaying creature to the turn order,
+ * and readied actions. Delaying passes the turn, see createTurnActions.
+ */
+export function createDelayActions({
+  update,
+  track,
+  nameOf,
+  logCombat,
+}: GameStoreContext) {
+  /**
+   * Sets or clears a participant's readied action
+   */
+  async function setReadied(
+    encounterId: string,
+    characterId: string,
+    readied?: string,
+  ) {
+    update((state) => ({ ...state, loading: true }));
+    try {
+      const { before } = await track(
+        "encounters",
+        encounterId,
+        () =>
+          encounterService.mutate(encounterId, (encounter) => {
+            if (
+              !encounter.participants.some((p) => p.characterId === characterId)
+            )
+              throw new Error("Participant not found in encounter");
+            return {
+              participants: encounter.participants.map((p) =>
+                p.characterId === characterId ? { ...p, readied } : p,
+              ),
+            };
+          }),
+        () =>
+          readied
+            ? `${nameOf(characterId)} readies an action`
+            : `Clear ${nameOf(characterId)}'s readied action`,
+      );
+      if (readied) await logCombat(before, "ready", characterId, {}, {});
+      update((state) => ({ ...state, loading: false }));
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        loading: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+      throw error;
+    }
+  }
+
+  return {
+    /**
+     * Returns a delaying creature to the turn order right after another
+     * creature, by default the one whose turn it is, so it acts next. Its
+     * initiative becomes that creature's for good.
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the delaying creature
+     * @param afterCharacterId - Creature to act after; must not have acted yet this round
+     * @throws {Error} If the creature is not delaying or the point has already passed
+     */
+    async resumeTurn(
+      encounterId: string,
+      characterId: string,
+      afterCharacterId?: string,
+    ) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        const { before, patch } = await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) => {
+              const delayed = encounter.participants.find(
+                (p) => p.characterId === characterId,
+              );
+              if (!delayed?.delaying)
+                throw new Error("Participant is not delaying");
+
+              const anchorId =
+                afterCharacterId ?? currentParticipant(encounter)?.characterId;
+              const anchorIndex = encounter.participants.findIndex(
+                (p) => p.characterId === anchorId,
+              );
+              if (anchorIndex === -1 || anchorId === characterId) {
+                throw new Error("Participant not found in encounter");
+              }
+              if (anchorIndex < encounter.currentTurn) {
+                throw new Error(
+                  "A delaying creature can only return after a creature still to act",
+                );
+              }
+
+              const anchor = encounter.participants[anchorIndex];
+              const participants = encounter.participants.filter(
+                (p) => p !== delayed,
+              );
+              participants.splice(participants.indexOf(anchor) + 1, 0, {
+                ...delayed,
+                initiative: anchor.initiative,
+                delaying: undefined,
+              });
+              return { participants, ...followTurn(encounter, participants) };
+            }),
+          () => `${nameOf(characterId)} returns to the turn order`,
+        );
+        const after = { ...before, ...patch };
+        await logCombat(
+          after,
+          "resumeTurn",
+          characterId,
+          {
+            initiative: before.participants.find(
+              (p) => p.characterId === characterId,
+            )?.initiative,
+          },
+          {
+            initiative: after.participants.find(
+              (p) => p.characterId === characterId,
+            )?.initiative,
+          },
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Records a readied action (PF2e Ready, 5e Ready). It lasts until the
+     * start of the creature's next turn.
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the readying creature
+     * @param trigger - What sets the action off, e.g. "when an enemy steps adjacent"
+     * @throws {Error} If encounter or participant not found
+     */
+    async readyAction(
+      encounterId: string,
+      characterId: string,
+      trigger: string,
+    ) {
+      const readied = trigger.trim();
+      if (!readied)
+        throw new ValidationError("Describe what triggers the readied action");
+      await setReadied(encounterId, characterId, readied);
+    },
+
+    /**
+     * Clears a readied action once it has been used or given up
+     * @throws {Error} If encounter or participant not found
+     */
+    async clearReadyAction(encounterId: string, characterId: string) {
+      await setReadied(encounterId, characterId, undefined);
+    },
+  };
+}
@@ -0,0 +1,224 @@
+import { derived } from "svelte/store";
+import type { GameInstance } from "../../types";
+import { gameStore } from "./store";
+
+/**
+ * Derived Stores
+ * These provide convenient access to specific parts of the game state
+ */
+
+/**
+ * List of all characters in the game
+ */
+export const characters = derived(gameStore, ($gameStore) =>
+  Array.from($gameStore.characters.values()),
+);
+
+/**
+ * List of all game instances
+ */
+export const instances = derived(gameStore, ($gameStore) =>
+  Array.from($gameStore.instances.values()),
+);
+
+/**
+ * List of all encounters
+ */
+export const encounters = derived(gameStore, ($gameStore) =>
+  Array.from($gameStore.encounters.values()),
+);
+
+/**
+ * Current vault state
+ */
+export const vaultStatus = derived(gameStore, ($gameStore) => $gameStore.vault);
+
+/**
+ * Current loading state
+ */
+export const loading = derived(gameStore, ($gameStore) => $gameStore.loading);
+
+/**
+ * Current error state
+ */
+export const error = derived(gameStore, ($gameStore) => $gameStore.error);
+
+/**
+ * The last write rejected because its record changed in another tab or
+ * an earlier click. The store already holds the latest version of the record.
+ */
+export const conflict = derived(gameStore, ($gameStore) => $gameStore.conflict);
+
+/**
+ * Factory function that creates a derived store for characters in a specific instance
+ * @param instanceId - ID of the instance to filter characters by
+ * @returns Derived store containing only characters from the specified instance
+ */
+export const instanceCharacters = (instanceId: string) =>
+  derived(characters, ($characters) =>
+    $characters.filter((char) => char.instanceId === instanceId),
+  );
+
+/**
+ * List of active game instances
+ */
+export const activeInstances = derived(instances, ($instances) =>
+  $instances.filter((i) => i.status === "active"),
+);
+
+/**
+ * Map of game instances grouped by their status
+ */
+export const instancesByStatus = derived(instances, ($instances) => {
+  const grouped = new Map<GameInstance["status"], GameInstance[]>();
+  for (const instance of $instances) {
+    const list = grouped.get(instance.status) || [];
+    list.push(instance);
+    grouped.set(instance.status, list);
+  }
+  return grouped;
+});
+
+/**
+ * List of all unique tags used across all instances
+ */
+export const allTags = derived(instances, ($instances) => {
+  const tags = new Set<string>();
+  for (const instance of $instances) {
+    if (instance.tags) {
+      instance.tags.forEach((tag) => tags.add(tag));
+    }
+  }
+  return Array.from(tags).sort();
+});
+
+/**
+ * Map of game instances grouped by their tags
+ * Note: An instance can appear in multiple groups if it has multiple tags
+ */
+export const instancesByTag = derived(instances, ($instances) => {
+  const grouped = new Map<string, GameInstance[]>();
+  for (const instance of $instances) {
+    if (instance.tags) {
+      for (const tag of instance.tags) {
+        const list = grouped.get(tag) || [];
+        list.push(instance);
+        grouped.set(tag, list);
+      }
+    }
+  }
+  return grouped;
+});
+
+/**
+ * Factory function that creates a derived store for encounters in a specific instance
+ * @param instanceId - ID of the instance to filter encounters by
+ * @returns Derived store containing only encounters from the specified instance
+ */
+export const instanceEncounters = (instanceId: string) =>
+  derived(encounters, ($encounters) =>
+    $encounters.filter((e) => e.instanceId === instanceId),
+  );
+
+/**
+ * Examples of using the derived stores:
+ *
+ * Basic Stores
+ * ------------
+ *
+ * Subscribe to all characters:
+ * ```ts
+ * characters.subscribe(allCharacters => {
+ *   console.log('Characters:', allCharacters);
+ * });
+ * ```
+ *
+ * Get loading state:
+ * ```ts
+ * loading.subscribe(isLoading => {
+ *   if (isLoading) showSpinner();
+ *   else hideSpinner();
+ * });
+ * ```
+ *
+ * Display errors:
+ * ```ts
+ * error.subscribe(errorMessage => {
+ *   if (errorMessage) showToast(errorMessage);
+ * });
+ * ```
+ *
+ * Instance-Specific Stores
+ * -----------------------
+ *
+ * Get characters for a specific instance:
+ * ```ts
+ * const instanceChars = getInstanceCharacters('instance-123');
+ * instanceChars.subscribe(chars => {
+ *   console.log('Instance characters:', chars);
+ * });
+ * ```
+ *
+ * Get encounters for an instance:
+ * ```ts
+ * const instanceEncounters = getInstanceEncounters('instance-123');
+ * instanceEncounters.subscribe(encounters => {
+ *   updateEncounterList(encounters);
+ * });
+ * ```
+ *
+ * Filtered Views
+ * -------------
+ *
+ * Show only active instances:
+ * ```ts
+ * activeInstances.subscribe(active => {
+ *   renderActiveGames(active);
+ * });
+ * ```
+ *
+ * Group instances by status:
+ * ```ts
+ * instancesByStatus.subscribe(grouped => {
+ *   const activeGames = grouped.get('active') || [];
+ *   const archivedGames = grouped.get('archived') || [];
+ * });
+ * ```
+ *
+ * Tag Management
+ * -------------
+ *
+ * Show all available tags:
+ * ```ts
+ * allTags.subscribe(tags => {
+ *   renderTagCloud(tags);
+ * });
+ * ```
+ *
+ * Find instances by tag:
+ * ```ts
+ * instancesByTag.subscribe(grouped => {
+ *   const fantasyGames = grouped.get('fantasy') || [];
+ *   const scifiGames = grouped.get('sci-fi') || [];
+ * });
+ * ```
+ *
+ * Using Multiple Stores
+ * -------------------
+ *
+ * Combine stores for complex views:
+ * ```ts
+ * import { derived } from 'svelte/store';
+ *
+ * const instanceSummary = derived(
+ *   [instances, characters, encounters],
+ *   ([$instances, $characters, $encounters]) => {
+ *     return $instances.map(instance => ({
+ *       ...instance,
+ *       characterCount: $characters.filter(c => c.instanceId === instance.id).length,
+ *       encounterCount: $encounters.filter(e => e.instanceId === instance.id).length
+ *     }));
+ *   }
+ * );
+ * ```
+ */
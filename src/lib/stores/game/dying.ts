@@ -0,0 +1,200 @@
+import type {
+  DamageInstance,
+  Encounter,
+  EncounterParticipant,
+} from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import type { GameRules } from "../../rules";
+import { resolveDamage, untypedDamage } from "../../utils/damage";
+import { knockOut, recover } from "../../utils/dying";
+import type { KnockoutState } from "../../utils/dying";
+import type { Mutation } from "../../db/concurrency";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Damage and healing, with the knockouts they lead to: dying and wounded
+ * (PF2e), death saves (5e) and death. Recovery checks are made as the turn
+ * passes, see createTurnActions.
+ */
+export function createDyingActions({
+  track,
+  mirror,
+  changeOf,
+  encounterFor,
+  rulesOf,
+  logCharacterChange,
+  logKnockout,
+}: GameStoreContext) {
+  /**
+   * Changes a character's knockout state (dying, death saves, dead) in the
+   * encounter they are fighting in. Characters outside an encounter have none.
+   * @param change - Works out the participant's new state
+   * @returns The write, or undefined if nothing changed
+   */
+  async function writeKnockout(
+    characterId: string,
+    change: (
+      participant: EncounterParticipant,
+      rules: GameRules,
+    ) => KnockoutState,
+  ): Promise<Mutation<Encounter> | undefined> {
+    const encounter = encounterFor(characterId);
+    const participant = encounter?.participants.find(
+      (p) => p.characterId === characterId,
+    );
+    if (!encounter || !participant) return undefined;
+    const unchanged = (p: EncounterParticipant) =>
+      JSON.stringify({ ...p, ...change(p, rulesOf(encounter)) }) ===
+      JSON.stringify(p);
+    if (unchanged(participant)) return undefined;
+
+    const mutation = await encounterService.mutate(encounter.id, (stored) => ({
+      participants: stored.participants.map((p) =>
+        p.characterId === characterId
+          ? { ...p, ...change(p, rulesOf(stored)) }
+          : p,
+      ),
+    }));
+    mirror("encounters", encounter.id, mutation.patch);
+    return mutation;
+  }
+
+  return {
+    /**
+     * Applies damage to a character, considering temporary HP first. Typed
+     * damage instances go through the character's immunities, weaknesses
+     * and resistances under the instance's game system.
+     * Damage that takes a creature in an encounter to 0 HP, or hits it there,
+     * knocks it out under the system's dying rules; NPCs and hazards die.
+     * @param id - Character ID
+     * @param damage - Untyped amount of damage, or typed damage instances
+     * @param critical - Whether the damage came from a critical hit, which
+     *                   worsens dying (PF2e) or counts as two failed death saves (5e)
+     * @throws {Error} If character not found
+     * @returns How the damage taken was worked out, see formatDamageBreakdown
+     * @example
+     * gameStore.damage(id, [
+     *   { amount: 9, type: "slashing" },
+     *   { amount: 4, type: "fire" },
+     * ]);
+     */
+    async damage(
+      id: string,
+      damage: number | DamageInstance[],
+      critical = false,
+    ) {
+      let breakdown = untypedDamage(typeof damage === "number" ? damage : 0);
+      let hpDamage = 0;
+      let knockout: Mutation<Encounter> | undefined;
+      const { before, patch } = await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => {
+            if (typeof damage !== "number") {
+              breakdown = resolveDamage(
+                damage,
+                character,
+                rulesOf(character).damage,
+              );
+            }
+            const { current, temp = 0 } = character.hp;
+            let remainingDamage = breakdown.total;
+            let newTemp = temp;
+            let newCurrent = current;
+
+            // Apply damage to temp HP first
+            if (temp > 0) {
+              if (temp >= remainingDamage) {
+                newTemp = temp - remainingDamage;
+                remainingDamage = 0;
+              } else {
+                remainingDamage -= temp;
+                newTemp = 0;
+              }
+            }
+
+            // Apply remaining damage to current HP
+            if (remainingDamage > 0) {
+              newCurrent = Math.max(current - remainingDamage, 0);
+            }
+            hpDamage = remainingDamage;
+
+            return {
+              hp: {
+                ...character.hp,
+                current: newCurrent,
+                temp: newTemp,
+              },
+            };
+          }),
+        (character) => `Damage ${character.name} by ${breakdown.total}`,
+        async ({ before, patch }) => {
+          if (hpDamage <= 0 || patch.hp!.current > 0) return [];
+          knockout = await writeKnockout(id, (participant, rules) =>
+            knockOut(participant, before, rules, {
+              hpBefore: before.hp.current,
+              hpDamage,
+              maxHp: before.hp.max,
+              critical,
+            }),
+          );
+          return knockout
+            ? [changeOf("encounters", knockout.before.id, knockout)]
+            : [];
+        },
+      );
+      await logCharacterChange(
+        "damage",
+        id,
+        { current: before.hp.current, temp: before.hp.temp ?? 0 },
+        { current: patch.hp!.current, temp: patch.hp!.temp },
+      );
+      if (knockout) await logKnockout("dying", id, knockout);
+      return breakdown;
+    },
+
+    /**
+     * Heals a character up to their maximum HP. A creature brought back from
+     * 0 HP stops dying (gaining wounded in PF2e), loses its death saves and
+     * wakes up. A dead creature stays dead.
+     * @param id - Character ID
+     * @param amount - Amount of healing to apply
+     * @throws {Error} If character not found
+     * @returns Promise resolving when the update is complete
+     */
+    async heal(id: string, amount: number) {
+      let knockout: Mutation<Encounter> | undefined;
+      const { before, patch } = await track(
+        "characters",
+        id,
+        () =>
+          characterService.mutate(id, (character) => ({
+            hp: {
+              ...character.hp,
+              current: Math.min(
+                character.hp.current + amount,
+                character.hp.max,
+              ),
+            },
+          })),
+        (character) => `Heal ${character.name} by ${amount}`,
+        async ({ before, patch }) => {
+          if (before.hp.current > 0 || patch.hp!.current <= 0) return [];
+          knockout = await writeKnockout(id, recover);
+          return knockout
+            ? [changeOf("encounters", knockout.before.id, knockout)]
+            : [];
+        },
+      );
+      await logCharacterChange(
+        "heal",
+        id,
+        { current: before.hp.current },
+        { current: patch.hp!.current },
+      );
+      if (knockout) await logKnockout("dying", id, knockout);
+    },
+  };
+}
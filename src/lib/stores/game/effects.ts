@@ -0,0 +1,193 @@
+import type {
+  Encounter,
+  EffectDuration,
+  EffectExpiry,
+  ParticipantEffect,
+} from "../../types";
+import { encounterService } from "../../services/encounterService";
+import { effectExpiry, roundsRemaining } from "../../utils/effects";
+import { currentParticipant } from "../../utils/turnOrder";
+import type { GameStoreContext } from "./context";
+import { ValidationError } from "./validation";
+
+/**
+ * Effect actions: adding timed effects to participants and ending them early.
+ * Effects that run out are removed as the turn passes, see createTurnActions.
+ */
+export function createEffectActions({
+  update,
+  track,
+  nameOf,
+  logCombat,
+}: GameStoreContext) {
+  /**
+   * Changes one participant's effects and records it for undo
+   * @param change - Computes the new effects from the stored ones
+   */
+  async function changeEffects(
+    encounterId: string,
+    characterId: string,
+    change: (
+      effects: ParticipantEffect[],
+      encounter: Encounter,
+    ) => ParticipantEffect[],
+    label: (encounter: Encounter) => string,
+  ) {
+    update((state) => ({ ...state, loading: true }));
+    try {
+      const mutation = await track(
+        "encounters",
+        encounterId,
+        () =>
+          encounterService.mutate(encounterId, (encounter) => {
+            if (
+              !encounter.participants.some((p) => p.characterId === characterId)
+            )
+              throw new Error("Participant not found in encounter");
+            return {
+              participants: encounter.participants.map((p) => {
+                if (p.characterId !== characterId) return p;
+                const effects = change(p.effects ?? [], encounter);
+                return { ...p, effects: effects.length ? effects : undefined };
+              }),
+            };
+          }),
+        label,
+      );
+      update((state) => ({ ...state, loading: false }));
+      return mutation;
+    } catch (error) {
+      update((state) => ({
+        ...state,
+        loading: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+      throw error;
+    }
+  }
+
+  return {
+    /**
+     * Adds a timed effect to a participant. It is counted in turns of the
+     * source (or of whoever's turn it is) and removed by nextTurn once it
+     * has run out.
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the affected participant
+     * @param effect.sourceId - Character who created the effect, e.g. the caster
+     * @param effect.initiative - Initiative to count turns of, instead of the source's
+     * @param effect.boundary - Whether it ends at the start (default) or end of that turn
+     * @throws {ValidationError} If the name is empty or the duration is not a whole number
+     * @throws {Error} If encounter or participant not found
+     * @example
+     * // Until the end of the caster's next turn
+     * gameStore.addEffect(encounterId, targetId, {
+     *   name: "Inspire Courage",
+     *   sourceId: bardId,
+     *   duration: { value: 1, unit: "rounds" },
+     *   boundary: "end",
+     * });
+     */
+    async addEffect(
+      encounterId: string,
+      characterId: string,
+      effect: {
+        name: string;
+        duration: EffectDuration;
+        sourceId?: string;
+        initiative?: number;
+        boundary?: EffectExpiry["boundary"];
+      },
+    ): Promise<ParticipantEffect> {
+      const name = effect.name.trim();
+      if (!name) throw new ValidationError("Effect must have a name");
+      if (
+        !Number.isInteger(effect.duration.value) ||
+        effect.duration.value < 0
+      ) {
+        throw new ValidationError(
+          "Effect duration must be a whole number of rounds or minutes",
+        );
+      }
+
+      const id = crypto.randomUUID();
+      const { before, patch } = await changeEffects(
+        encounterId,
+        characterId,
+        (effects, encounter) => {
+          const counted =
+            encounter.participants.find(
+              (p) => p.characterId === effect.sourceId,
+            ) ?? currentParticipant(encounter);
+          const anchor =
+            effect.initiative !== undefined
+              ? { initiative: effect.initiative }
+              : {
+                  characterId: counted?.characterId,
+                  initiative: counted?.initiative ?? 0,
+                };
+          return [
+            ...effects,
+            {
+              id,
+              name,
+              sourceId: effect.sourceId,
+              duration: effect.duration,
+              expiresAt: effectExpiry(
+                encounter,
+                effect.duration,
+                anchor,
+                effect.boundary ?? "start",
+              ),
+            },
+          ];
+        },
+        () => `Add ${name} to ${nameOf(characterId)}`,
+      );
+      const added = patch.participants
+        ?.find((p) => p.characterId === characterId)
+        ?.effects?.find((e) => e.id === id) as ParticipantEffect;
+      await logCombat(
+        before,
+        "setEffect",
+        characterId,
+        { [name]: undefined },
+        { [name]: roundsRemaining(added, before) },
+      );
+      return added;
+    },
+
+    /**
+     * Ends an effect early, e.g. when a sustained spell is dropped
+     * @throws {Error} If encounter or participant not found
+     */
+    async removeEffect(
+      encounterId: string,
+      characterId: string,
+      effectId: string,
+    ) {
+      const { before } = await changeEffects(
+        encounterId,
+        characterId,
+        (effects) => effects.filter((e) => e.id !== effectId),
+        (encounter) => {
+          const effect = encounter.participants
+            .find((p) => p.characterId === characterId)
+            ?.effects?.find((e) => e.id === effectId);
+          return `Remove ${effect?.name ?? "effect"} from ${nameOf(characterId)}`;
+        },
+      );
+      const effect = before.participants
+        .find((p) => p.characterId === characterId)
+        ?.effects?.find((e) => e.id === effectId);
+      if (effect) {
+        await logCombat(
+          before,
+          "setEffect",
+          characterId,
+          { [effect.name]: roundsRemaining(effect, before) },
+          { [effect.name]: undefined },
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { derived } from "svelte/store";
+import { rulesFor } from "../../rules";
+import { effectsEndingThisTurn } from "../../utils/effects";
+import { rateEncounter } from "../../utils/encounterBudget";
+import { currentParticipant } from "../../utils/turnOrder";
+import { gameStore } from "./store";
+import { characters, encounters } from "./derived";
+
+/**
+ * Factory function that creates a derived store for current participants in an encounter
+ * @param encounterId - ID of the encounter to get current participants for
+ * @returns Derived store containing the participant whose turn it is, then
+ *          those who may act before the next turn (delaying creatures and
+ *          readied actions, see `delaying` and `readied`), with their full
+ *          character data included
+ */
+export const getCurrentParticipants = (encounterId: string) =>
+  derived([encounters, characters], ([$encounters, $characters]) => {
+    const encounter = $encounters.find((e) => e.id === encounterId);
+    if (!encounter) return [];
+
+    const current = currentParticipant(encounter);
+    const waiting = encounter.participants.filter(
+      (p) => p !== current && (p.delaying || p.readied),
+    );
+    return [...(current ? [current] : []), ...waiting].map((p) => ({
+      ...p,
+      character: $characters.find((c) => c.id === p.characterId),
+    }));
+  });
+
+/**
+ * Factory function that creates a derived store for the effects that end when
+ * an encounter's turn passes, so the GM can call them out before moving on
+ * @param encounterId - ID of the encounter
+ * @returns Derived store of the ending effects with the affected characters
+ */
+export const getEffectsEndingThisTurn = (encounterId: string) =>
+  derived([encounters, characters], ([$encounters, $characters]) => {
+    const encounter = $encounters.find((e) => e.id === encounterId);
+    if (!encounter) return [];
+
+    return effectsEndingThisTurn(encounter).map((ref) => ({
+      ...ref,
+      character: $characters.find((c) => c.id === ref.characterId),
+    }));
+  });
+
+/**
+ * Factory function that creates a derived store rating an encounter's
+ * difficulty for its party under the instance's game system
+ * @param encounterId - ID of the encounter
+ * @returns Derived store of the rating, undefined if the encounter can't be rated
+ */
+export const getEncounterRating = (encounterId: string) =>
+  derived(gameStore, ($gameStore) => {
+    const encounter = $gameStore.encounters.get(encounterId);
+    if (!encounter) return undefined;
+
+    const system = $gameStore.instances.get(encounter.instanceId)?.system;
+    return rateEncounter(encounter, $gameStore.characters, rulesFor(system));
+  });
+
+/**
+ * Examples of using the encounter stores:
+ *
+ * Combat Management
+ * ----------------
+ *
+ * Get current participants in combat:
+ * ```ts
+ * const currentFighters = getCurrentParticipants('encounter-123');
+ * currentFighters.subscribe(participants => {
+ *   participants.forEach(({ character, initiative }) => {
+ *     console.log(`${character.name} acting at initiative ${initiative}`);
+ *   });
+ * });
+ * ```
+ */
@@ -0,0 +1,114 @@
+import type { Encounter } from "../../types";
+import { encounterService } from "../../services/encounterService";
+import { integrityService } from "../../services/integrityService";
+import { followTurn } from "../../utils/turnOrder";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Encounter actions: creating, editing and deleting encounters, and removing
+ * participants. Adding and ordering participants is in createInitiativeActions.
+ */
+export function createEncounterActions({
+  update,
+  track,
+  stampOf,
+  nameOf,
+  mirrorChangeSet,
+}: GameStoreContext) {
+  return {
+    async createEncounter(encounter: Omit<Encounter, "id">) {
+      try {
+        const newEncounter = await encounterService.create(encounter);
+        update((state) => ({
+          ...state,
+          encounters: new Map(state.encounters).set(
+            newEncounter.id,
+            newEncounter,
+          ),
+        }));
+        return newEncounter;
+      } catch (error) {
+        console.error("Error creating encounter:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Updates an encounter and records the change for undo
+     * @param id - Encounter ID
+     * @param encounter - Fields to change
+     * @param label - Description shown in the undo history
+     * @throws {Error} If encounter not found
+     * @throws {ConflictError} If the encounter changed since the store last saw it
+     */
+    async updateEncounter(
+      id: string,
+      encounter: Partial<Encounter>,
+      label?: string,
+    ) {
+      try {
+        await track(
+          "encounters",
+          id,
+          () =>
+            encounterService.update(id, encounter, stampOf("encounters", id)),
+          (existing) => label ?? `Edit ${existing.name}`,
+        );
+      } catch (error) {
+        console.error("Error updating encounter:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Deletes an encounter along with its combat log and undo history
+     * @param id - Encounter ID
+     * @throws {Error} If encounter not found
+     */
+    async deleteEncounter(id: string) {
+      try {
+        const plan = await integrityService.executeDelete("encounters", id, {
+          policy: "cascade",
+        });
+        await mirrorChangeSet(plan);
+      } catch (error) {
+        console.error("Error deleting encounter:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Removes a participant from an encounter
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the character to remove
+     * @throws {Error} If encounter not found
+     * @description Passes the turn on if it was the removed creature's
+     */
+    async removeParticipant(encounterId: string, characterId: string) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) => {
+              // Removing the creature whose turn it is passes the turn to the next one
+              const participants = encounter.participants.filter(
+                (p) => p.characterId !== characterId,
+              );
+              return { participants, ...followTurn(encounter, participants) };
+            }),
+          (encounter) => `Remove ${nameOf(characterId)} from ${encounter.name}`,
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+  };
+}
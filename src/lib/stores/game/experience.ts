@@ -0,0 +1,98 @@
+import { get } from "svelte/store";
+import type { HistoryChange } from "../../types";
+import { encounterService } from "../../services/encounterService";
+import type { EncounterEnd } from "../../services/encounterService";
+import { rateEncounter } from "../../utils/encounterBudget";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Experience actions: ending encounters and awarding the XP they were worth
+ */
+export function createExperienceActions({
+  subscribe,
+  update,
+  track,
+  mirror,
+  changeOf,
+  stampOf,
+  rulesOf,
+}: GameStoreContext) {
+  return {
+    /**
+     * Ends a running encounter and awards the XP it was worth: to the
+     * instance's party total, and to each PC in systems where characters
+     * track their own XP. Undoing it takes the XP back.
+     * @param encounterId - ID of the encounter
+     * @param awardXp - Whether to award XP, e.g. false for an encounter that was abandoned
+     * @throws {Error} If the encounter is not running
+     * @returns The encounter's rating with the XP awarded, or undefined if
+     *          the system has no encounter budget or no PCs took part
+     */
+    async endEncounter(encounterId: string, awardXp = true) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        const { encounters, characters } = get({ subscribe });
+        const encounter = encounters.get(encounterId);
+        if (!encounter) throw new Error("Encounter not found");
+        if (!encounter.isActive) throw new Error("Encounter is not running");
+        const rules = rulesOf(encounter);
+        const rating = rateEncounter(encounter, characters, rules);
+
+        const party = encounter.participants
+          .map((p) => p.characterId)
+          .filter((id) => characters.get(id)?.type === "PC");
+        const award =
+          rating && awardXp && rating.partyAward > 0
+            ? {
+                party: rating.partyAward,
+                characterIds: rules.experience === "individual" ? party : [],
+                perCharacter: rating.characterAward,
+              }
+            : undefined;
+
+        let ended: EncounterEnd | undefined;
+        await track(
+          "encounters",
+          encounterId,
+          async () => {
+            ended = await encounterService.end(
+              encounterId,
+              award,
+              stampOf("encounters", encounterId),
+            );
+            return ended.encounter;
+          },
+          (encounter) =>
+            award
+              ? `End ${encounter.name} (${award.party} XP)`
+              : `End ${encounter.name}`,
+          async () => {
+            const changes: HistoryChange[] = [];
+            if (ended?.instance) {
+              mirror("instances", encounter.instanceId, ended.instance.patch);
+              changes.push(
+                changeOf("instances", encounter.instanceId, ended.instance),
+              );
+            }
+            for (const mutation of ended?.characters ?? []) {
+              mirror("characters", mutation.before.id, mutation.patch);
+              changes.push(
+                changeOf("characters", mutation.before.id, mutation),
+              );
+            }
+            return changes;
+          },
+        );
+        update((state) => ({ ...state, loading: false }));
+        return rating;
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import type { HistoryChange, HistoryTable } from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { gameInstanceService } from "../../services/gameInstanceService";
+import { historyStore } from "../historyStore";
+import { combatLogStore } from "../combatLogStore";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Undo/redo actions over the focused encounter's history
+ */
+export function createHistoryActions({ update, mirror }: GameStoreContext) {
+  /**
+   * Writes a partial record through its service and mirrors it into the store.
+   * Does not record history, so undo and redo can use it directly.
+   */
+  async function writeChange(
+    table: HistoryTable,
+    id: string,
+    patch: Record<string, unknown>,
+  ) {
+    const { patch: written } =
+      table === "characters"
+        ? await characterService.update(id, patch)
+        : table === "instances"
+          ? await gameInstanceService.update(id, patch)
+          : await encounterService.update(id, patch);
+    mirror(table, id, written);
+  }
+
+  /**
+   * Writes one side of a history entry, last change first when reverting
+   */
+  async function applyHistory(
+    changes: HistoryChange[],
+    side: "before" | "after",
+  ) {
+    const ordered = side === "before" ? [...changes].reverse() : changes;
+    for (const change of ordered) {
+      await writeChange(change.table, change.id, change[side]);
+    }
+  }
+
+  return {
+    /**
+     * Switches the undo history to an encounter, loading its persisted history
+     * and combat log
+     * @param encounterId - Encounter being run, or null for changes outside combat
+     */
+    async focusEncounter(encounterId: string | null) {
+      await historyStore.focus(encounterId);
+      if (encounterId) await combatLogStore.load(encounterId);
+    },
+
+    /**
+     * Reverts the most recent mutation in the focused history
+     * @returns The reverted entry, or undefined if there was nothing to undo
+     */
+    async undo() {
+      const entry = historyStore.peekUndo();
+      if (!entry) return undefined;
+      try {
+        await applyHistory(entry.changes, "before");
+        await historyStore.commitUndo();
+        return entry;
+      } catch (error) {
+        console.error("Error undoing change:", error);
+        update((state) => ({
+          ...state,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Reapplies the most recently undone mutation in the focused history
+     * @returns The reapplied entry, or undefined if there was nothing to redo
+     */
+    async redo() {
+      const entry = historyStore.peekRedo();
+      if (!entry) return undefined;
+      try {
+        await applyHistory(entry.changes, "after");
+        await historyStore.commitRedo();
+        return entry;
+      } catch (error) {
+        console.error("Error redoing change:", error);
+        update((state) => ({
+          ...state,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+  };
+}
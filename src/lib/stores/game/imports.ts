@@ -0,0 +1,122 @@
+import type { Character, ImportedCharacter } from "../../types";
+import { characterService } from "../../services/characterService";
+import { campaignBundleService } from "../../services/campaignBundleService";
+import type { CampaignBundle } from "../../services/campaignBundleService";
+import { characterImportService } from "../../services/characterImportService";
+import type { CharacterImportOptions } from "../../services/characterImportService";
+import { parseFoundryActors } from "../../utils/foundry";
+import type { FoundryActorError } from "../../utils/foundry";
+import type { GameStoreContext } from "./context";
+import { validateCharacter } from "./validation";
+
+/**
+ * Import actions: campaign bundles, characters from other tools and Foundry VTT actors
+ */
+export function createImportActions({ update }: GameStoreContext) {
+  return {
+    /**
+     * Imports a campaign bundle under fresh IDs and adds its records to the store
+     * @param bundle - Parsed campaign bundle
+     * @returns The import result, including any conflicts found
+     */
+    async importCampaign(bundle: CampaignBundle) {
+      try {
+        const result = await campaignBundleService.importBundle(bundle);
+        update((state) => {
+          const characters = new Map(state.characters);
+          const encounters = new Map(state.encounters);
+          result.characters.forEach((c) => characters.set(c.id, c));
+          result.encounters.forEach((e) => encounters.set(e.id, e));
+          return {
+            ...state,
+            characters,
+            encounters,
+            instances: new Map(state.instances).set(
+              result.instance.id,
+              result.instance,
+            ),
+          };
+        });
+        return result;
+      } catch (error) {
+        console.error("Error importing campaign:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Imports a character exported from another tool, or updates it if it
+     * was imported before, and adds the results to the store
+     * @param instanceId - Game instance to import into
+     * @param imported - Output of an importer such as fromPathbuilder
+     * @returns The import result, including anything to fill in by hand
+     */
+    async importCharacter(
+      instanceId: string,
+      imported: ImportedCharacter,
+      options?: CharacterImportOptions,
+    ) {
+      try {
+        const result = await characterImportService.importCharacter(
+          instanceId,
+          imported,
+          options,
+        );
+        update((state) => {
+          const characters = new Map(state.characters);
+          [result.character, ...result.related].forEach((c) =>
+            characters.set(c.id, c),
+          );
+          return { ...state, characters };
+        });
+        return result;
+      } catch (error) {
+        console.error("Error importing character:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Creates NPCs and Hazards from Foundry VTT actor exports. Each actor is
+     * checked like any new character; actors that cannot be read or fail the
+     * checks are reported per file and skipped, without stopping the rest.
+     * @param instanceId - Game instance to add the characters to
+     * @param files - File names and contents; each may hold one or many actors
+     * @returns The created characters and the actors that were skipped
+     */
+    async importFoundryActors(
+      instanceId: string,
+      files: { name: string; text: string }[],
+    ) {
+      const created: Character[] = [];
+      const errors: FoundryActorError[] = [];
+      for (const file of files) {
+        const parsed = parseFoundryActors(file.text);
+        errors.push(
+          ...parsed.errors.map((error) => ({ ...error, file: file.name })),
+        );
+
+        for (const actor of parsed.characters) {
+          try {
+            const character = { ...actor, instanceId, lastUpdated: new Date() };
+            validateCharacter(character);
+            created.push(await characterService.create(character));
+          } catch (error) {
+            errors.push({
+              file: file.name,
+              actor: actor.name,
+              message: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        }
+      }
+
+      update((state) => {
+        const characters = new Map(state.characters);
+        created.forEach((c) => characters.set(c.id, c));
+        return { ...state, characters };
+      });
+      return { characters: created, errors };
+    },
+  };
+}
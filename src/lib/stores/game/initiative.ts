@@ -0,0 +1,297 @@
+import { get } from "svelte/store";
+import { isRelatedCharacterType } from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { rollDice } from "../../utils/dice";
+import type { DiceRoll, Rng } from "../../utils/dice";
+import { compareTurnOrder, followTurn } from "../../utils/turnOrder";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Initiative actions: adding participants in turn order, changing and
+ * rolling initiatives, and ordering creatures tied on initiative
+ */
+export function createInitiativeActions({
+  subscribe,
+  update,
+  track,
+  nameOf,
+  tieBreakerOf,
+  inTurnOrder,
+  logCombat,
+}: GameStoreContext) {
+  return {
+    async addParticipant(
+      encounterId: string,
+      characterId: string,
+      initiative: number,
+    ) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        const character = await characterService.get(characterId);
+        if (!character) throw new Error("Character not found");
+
+        const { before } = await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) => {
+              if (character.instanceId !== encounter.instanceId) {
+                throw new Error(
+                  "Character must be from the same game instance",
+                );
+              }
+              if (
+                encounter.participants.some(
+                  (p) => p.characterId === characterId,
+                )
+              ) {
+                throw new Error("Character is already in the encounter");
+              }
+              return inTurnOrder(encounter, [
+                ...encounter.participants,
+                { characterId, initiative },
+              ]);
+            }),
+          (encounter) => `Add ${character.name} to ${encounter.name}`,
+        );
+        await logCombat(
+          before,
+          "addParticipant",
+          characterId,
+          {},
+          { initiative },
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Updates a participant's initiative value
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the character whose initiative is changing
+     * @param newInitiative - New initiative value
+     * @throws {Error} If encounter not found or participant not found
+     * @description Maintains turn order; the turn stays with the creature that has it
+     */
+    async updateParticipantInitiative(
+      encounterId: string,
+      characterId: string,
+      newInitiative: number,
+    ) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        const { before: encounter } = await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) => {
+              // Find and update the participant
+              const participantIndex = encounter.participants.findIndex(
+                (p) => p.characterId === characterId,
+              );
+              if (participantIndex === -1)
+                throw new Error("Participant not found in encounter");
+
+              // The turn stays with whoever has it, even if that creature moved
+              return inTurnOrder(encounter, [
+                ...encounter.participants.slice(0, participantIndex),
+                {
+                  ...encounter.participants[participantIndex],
+                  initiative: newInitiative,
+                },
+                ...encounter.participants.slice(participantIndex + 1),
+              ]);
+            }),
+          () => `Set ${nameOf(characterId)} initiative to ${newInitiative}`,
+        );
+        await logCombat(
+          encounter,
+          "updateParticipantInitiative",
+          characterId,
+          {
+            initiative: encounter.participants.find(
+              (p) => p.characterId === characterId,
+            )?.initiative,
+          },
+          { initiative: newInitiative },
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Moves a participant to another place in the turn order, to order
+     * creatures tied on initiative by hand (e.g. by dragging)
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the participant to move
+     * @param toIndex - New index in the turn order
+     * @throws {Error} If encounter or participant not found, or if the move
+     *         passes a creature the initiative or tie-breaker puts elsewhere
+     */
+    async moveParticipant(
+      encounterId: string,
+      characterId: string,
+      toIndex: number,
+    ) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) => {
+              const from = encounter.participants.findIndex(
+                (p) => p.characterId === characterId,
+              );
+              if (from === -1)
+                throw new Error("Participant not found in encounter");
+              const to = Math.min(
+                Math.max(toIndex, 0),
+                encounter.participants.length - 1,
+              );
+
+              const moved = encounter.participants[from];
+              const characters = get({ subscribe }).characters;
+              const tieBreaker = tieBreakerOf(encounter);
+              const passed = encounter.participants.slice(
+                Math.min(from, to),
+                Math.max(from, to) + 1,
+              );
+              if (
+                passed.some(
+                  (p) =>
+                    compareTurnOrder(moved, p, characters, tieBreaker) !== 0,
+                )
+              ) {
+                throw new Error(
+                  "Only creatures tied on initiative can be reordered",
+                );
+              }
+
+              const participants = encounter.participants.filter(
+                (p) => p !== moved,
+              );
+              participants.splice(to, 0, moved);
+              return { participants, ...followTurn(encounter, participants) };
+            }),
+          () => `Move ${nameOf(characterId)} in the turn order`,
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Updates multiple participants' initiatives at once
+     * @param encounterId - ID of the encounter
+     * @param updates - Array of updates containing characterId and new initiative values
+     * @throws {Error} If encounter not found
+     * @description More efficient than updating initiatives one at a time
+     */
+    async bulkUpdateInitiatives(
+      encounterId: string,
+      updates: { characterId: string; initiative: number }[],
+    ) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        // Create a map of updates for quick lookup
+        const updateMap = new Map(
+          updates.map((u) => [u.characterId, u.initiative]),
+        );
+
+        await track(
+          "encounters",
+          encounterId,
+          () =>
+            encounterService.mutate(encounterId, (encounter) =>
+              // Update all participants
+              inTurnOrder(
+                encounter,
+                encounter.participants.map((p) => ({
+                  ...p,
+                  initiative: updateMap.has(p.characterId)
+                    ? updateMap.get(p.characterId)!
+                    : p.initiative,
+                })),
+              ),
+            ),
+          (encounter) => `Update initiatives in ${encounter.name}`,
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    /**
+     * Rolls initiative for every NPC and Hazard, adding the character's
+     * initiative modifier (or Perception) to a d20. PCs roll their own, and
+     * Familiars, Eidolons and Companions act on their master's turn.
+     * @param encounterId - ID of the encounter
+     * @param rng - Random source; pass seededRng(...) for reproducible rolls
+     * @returns Each roll with its breakdown, for logging
+     * @throws {Error} If encounter not found
+     */
+    async rollNpcInitiatives(encounterId: string, rng?: Rng) {
+      const { encounters, characters } = get({ subscribe });
+      const encounter = encounters.get(encounterId);
+      if (!encounter) throw new Error("Encounter not found");
+
+      const rolls: { characterId: string; roll: DiceRoll }[] = [];
+      for (const participant of encounter.participants) {
+        const character = characters.get(participant.characterId);
+        if (
+          !character ||
+          character.type === "PC" ||
+          isRelatedCharacterType(character.type)
+        ) {
+          continue;
+        }
+        const modifier =
+          character.initiativeModifier ?? character.perception ?? 0;
+        const notation = `1d20${modifier < 0 ? "-" : "+"}${Math.abs(modifier)}`;
+        rolls.push({
+          characterId: character.id,
+          roll: rollDice(notation, rng),
+        });
+      }
+
+      if (rolls.length > 0) {
+        await this.bulkUpdateInitiatives(
+          encounterId,
+          rolls.map(({ characterId, roll }) => ({
+            characterId,
+            initiative: roll.total,
+          })),
+        );
+      }
+      return rolls;
+    },
+  };
+}
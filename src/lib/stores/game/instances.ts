@@ -0,0 +1,148 @@
+import type { GameInstance } from "../../types";
+import { gameInstanceService } from "../../services/gameInstanceService";
+import { integrityService } from "../../services/integrityService";
+import type { DeleteOptions } from "../../services/integrityService";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Game instance actions: creating, editing and deleting instances, and their tags
+ */
+export function createInstanceActions({
+  update,
+  stampOf,
+  track,
+  mirrorChangeSet,
+}: GameStoreContext) {
+  return {
+    async createInstance(instance: Omit<GameInstance, "id">) {
+      try {
+        const newInstance = await gameInstanceService.create(instance);
+        update((state) => ({
+          ...state,
+          instances: new Map(state.instances).set(newInstance.id, newInstance),
+        }));
+        return newInstance;
+      } catch (error) {
+        console.error("Error creating game instance:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Updates a game instance and records the change for undo
+     * @param id - Instance ID
+     * @param instance - Fields to change
+     * @param label - Description shown in the undo history
+     * @throws {Error} If instance not found
+     * @throws {ConflictError} If the instance changed since the store last saw it
+     */
+    async updateInstance(
+      id: string,
+      instance: Partial<GameInstance>,
+      label?: string,
+    ) {
+      try {
+        await track(
+          "instances",
+          id,
+          () =>
+            gameInstanceService.update(id, instance, stampOf("instances", id)),
+          (existing) => label ?? `Edit ${existing.name}`,
+        );
+      } catch (error) {
+        console.error("Error updating game instance:", error);
+        throw error;
+      }
+    },
+
+    /**
+     * Deletes a game instance along with the references to it
+     * @param id - Instance ID
+     * @param options - What happens to its characters and encounters;
+     *                  blocked by default while either exists
+     * @returns The plan that was applied
+     * @throws {IntegrityError} If blocked by dependent records
+     */
+    async deleteInstance(
+      id: string,
+      options: DeleteOptions = { policy: "block" },
+    ) {
+      try {
+        const plan = await integrityService.executeDelete(
+          "instances",
+          id,
+          options,
+        );
+        await mirrorChangeSet(plan);
+        update((state) => {
+          const instances = new Map(state.instances);
+          instances.delete(id);
+          return { ...state, instances };
+        });
+        return plan;
+      } catch (error) {
+        console.error("Error deleting game instance:", error);
+        throw error;
+      }
+    },
+
+    // Tag management methods
+    async addInstanceTag(instanceId: string, tag: string) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        await track(
+          "instances",
+          instanceId,
+          () =>
+            gameInstanceService.mutate(
+              instanceId,
+              (instance) => {
+                const tags = new Set(instance.tags || []);
+                tags.add(tag.trim().toLowerCase()); // Normalize tags
+                return { tags: Array.from(tags), lastAccessed: new Date() };
+              },
+              stampOf("instances", instanceId),
+            ),
+          () => `Add tag "${tag}"`,
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+
+    async removeInstanceTag(instanceId: string, tag: string) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        await track(
+          "instances",
+          instanceId,
+          () =>
+            gameInstanceService.mutate(
+              instanceId,
+              (instance) => {
+                const tags = new Set(instance.tags || []);
+                tags.delete(tag.trim().toLowerCase());
+                return { tags: Array.from(tags), lastAccessed: new Date() };
+              },
+              stampOf("instances", instanceId),
+            ),
+          () => `Remove tag "${tag}"`,
+        );
+        update((state) => ({ ...state, loading: false }));
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { integrityService } from "../../services/integrityService";
+import type {
+  DeleteOptions,
+  DeletePlan,
+} from "../../services/integrityService";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Integrity actions: previewing deletes and repairing orphaned records
+ */
+export function createIntegrityActions({
+  update,
+  mirrorChangeSet,
+}: GameStoreContext) {
+  return {
+    /**
+     * Previews what deleting a game instance or character would delete or change
+     * @param table - Table of the record to delete
+     * @param id - ID of the record to delete
+     * @param options - Delete policy to preview
+     */
+    async planDelete(
+      table: DeletePlan["table"],
+      id: string,
+      options: DeleteOptions,
+    ) {
+      return integrityService.planDelete(table, id, options);
+    },
+
+    /**
+     * Lists orphaned records and dangling references in the database
+     */
+    async checkIntegrity() {
+      return integrityService.check();
+    },
+
+    /**
+     * Repairs orphaned records and dangling references in one transaction
+     * @param options.reassignTo - Instance to move orphaned characters and
+     *                             encounters to; they are deleted when omitted
+     * @returns The issues found and the changes made
+     */
+    async repairIntegrity(options: { reassignTo?: string } = {}) {
+      update((state) => ({ ...state, loading: true }));
+      try {
+        const result = await integrityService.repair(options);
+        await mirrorChangeSet(result);
+        update((state) => ({ ...state, loading: false }));
+        return result;
+      } catch (error) {
+        update((state) => ({
+          ...state,
+          loading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import type { Encounter, CombatLogAction, CombatLogEntry } from "../../types";
+import { knockoutSummary } from "../../utils/dying";
+import { currentParticipant } from "../../utils/turnOrder";
+import type { Mutation } from "../../db/concurrency";
+import { combatLogStore } from "../combatLogStore";
+
+/**
+ * Creates the helpers that append changes made during an encounter to its combat log
+ * @param nameOf - Looks up a character's name for the entry
+ * @param encounterFor - Finds the encounter a character-level change belongs to
+ */
+export function createCombatLogging(
+  nameOf: (characterId: string) => string,
+  encounterFor: (characterId: string) => Encounter | undefined,
+) {
+  /**
+   * Appends a combat log entry for a change made during an encounter
+   * @param encounter - The encounter, with the round and initiative to record
+   */
+  async function logCombat(
+    encounter: Encounter,
+    action: CombatLogAction,
+    targetId: string | undefined,
+    before: CombatLogEntry["before"],
+    after: CombatLogEntry["after"],
+  ) {
+    const actor = currentParticipant(encounter);
+    const actorId = actor?.characterId;
+    await combatLogStore.append({
+      encounterId: encounter.id,
+      action,
+      round: encounter.currentRound,
+      initiative: actor?.initiative ?? 0,
+      actorId,
+      actorName: actorId ? nameOf(actorId) : undefined,
+      targetId,
+      targetName: targetId ? nameOf(targetId) : undefined,
+      before,
+      after,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Logs a character change if the character is in combat
+   */
+  async function logCharacterChange(
+    action: CombatLogAction,
+    characterId: string,
+    before: CombatLogEntry["before"],
+    after: CombatLogEntry["after"],
+  ) {
+    const encounter = encounterFor(characterId);
+    if (encounter) {
+      await logCombat(encounter, action, characterId, before, after);
+    }
+  }
+
+  /**
+   * Logs the change to a participant's knockout state a write made
+   */
+  async function logKnockout(
+    action: CombatLogAction,
+    characterId: string,
+    { before, patch }: Mutation<Encounter>,
+    extra: CombatLogEntry["after"] = {},
+  ) {
+    const after = { ...before, ...patch };
+    const stateIn = (encounter: Encounter) =>
+      knockoutSummary(
+        encounter.participants.find((p) => p.characterId === characterId) ?? {},
+      );
+    await logCombat(after, action, characterId, stateIn(before), {
+      ...stateIn(after),
+      ...extra,
+    });
+  }
+
+  return { logCombat, logCharacterChange, logKnockout };
+}
@@ -0,0 +1,58 @@
+import type { Character, GameInstance, Encounter } from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { gameInstanceService } from "../../services/gameInstanceService";
+import { vaultService } from "../../services/vaultService";
+import type { VaultStatus } from "../../services/vaultService";
+import type { ConflictError } from "../../db/concurrency";
+
+/**
+ * Represents the global state of the game application
+ */
+export interface GameState {
+  /** Map of all characters indexed by their IDs */
+  characters: Map<string, Character>;
+  /** Map of all game instances indexed by their IDs */
+  instances: Map<string, GameInstance>;
+  /** Map of all encounters indexed by their IDs */
+  encounters: Map<string, Encounter>;
+  /** Whether encrypted fields are disabled, locked or readable */
+  vault: VaultStatus;
+  /** Indicates if any async operation is in progress */
+  loading: boolean;
+  /** Stores any error message that needs to be displayed */
+  error: string | null;
+  /** The last write rejected because its record changed elsewhere */
+  conflict: ConflictError | null;
+}
+
+/**
+ * Initial state for the game store
+ */
+export const initialState: GameState = {
+  characters: new Map(),
+  instances: new Map(),
+  encounters: new Map(),
+  vault: "disabled",
+  loading: false,
+  error: null,
+  conflict: null,
+};
+
+/**
+ * Loads all entities from IndexedDB, decrypting protected fields when the vault is unlocked
+ */
+export async function loadEntities() {
+  const [characters, instances, encounters] = await Promise.all([
+    characterService.getAll(),
+    gameInstanceService.getAll(),
+    encounterService.getAll(),
+  ]);
+
+  return {
+    characters: new Map(characters.map((c: Character) => [c.id, c])),
+    instances: new Map(instances.map((i: GameInstance) => [i.id, i])),
+    encounters: new Map(encounters.map((e: Encounter) => [e.id, e])),
+    vault: vaultService.status(),
+  };
+}
@@ -0,0 +1,165 @@
+import { writable } from "svelte/store";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { gameInstanceService } from "../../services/gameInstanceService";
+import { vaultService } from "../../services/vaultService";
+import { backupService } from "../../services/backupService";
+import { webhookService } from "../../services/webhookService";
+import { migrateDatabase, MigrationError } from "../../db/migrations";
+import { onRemoteChanges } from "../../db/sync";
+import type { SyncChange } from "../../db/sync";
+import { historyStore } from "../historyStore";
+import { createGameContext } from "./context";
+import { initialState, loadEntities } from "./state";
+import type { GameState } from "./state";
+import { createVaultActions } from "./vault";
+import { createCharacterActions } from "./characters";
+import { createDyingActions } from "./dying";
+import { createInstanceActions } from "./instances";
+import { createIntegrityActions } from "./integrity";
+import { createImportActions } from "./imports";
+import { createEncounterActions } from "./encounters";
+import { createExperienceActions } from "./experience";
+import { createInitiativeActions } from "./initiative";
+import { createTurnActions } from "./turns";
+import { createDelayActions } from "./delay";
+import { createConditionActions } from "./conditions";
+import { createEffectActions } from "./effects";
+import { createBackupActions } from "./backups";
+import { createHistoryActions } from "./history";
+
+/**
+ * Creates the game store: its state, loading and cross-tab sync, with the
+ * actions of each feature
+ */
+function createGameStore() {
+  const store = writable<GameState>(initialState);
+  const { subscribe, set, update } = store;
+  const context = createGameContext(store);
+
+  /** Whether init() has started cross-tab sync, the backup schedule and the webhook outbox */
+  let started = false;
+
+  /**
+   * Applies changes committed in another tab, re-reading only the records that changed
+   */
+  async function applyRemoteChanges(changes: SyncChange[]) {
+    try {
+      // The vault was enabled, disabled or re-keyed elsewhere: this tab's key is stale
+      if (changes.some((c) => c.table === "settings" && c.key === "vault")) {
+        await vaultService.load();
+        const entities = await loadEntities();
+        update((state) => ({ ...state, ...entities }));
+        return;
+      }
+
+      const records = await Promise.all(
+        changes.map(async ({ table, key, deleted }) => {
+          if (deleted || table === "settings") return undefined;
+          if (table === "characters") return characterService.get(key);
+          if (table === "instances") return gameInstanceService.get(key);
+          return encounterService.get(key);
+        }),
+      );
+
+      update((state) => {
+        const next = {
+          characters: new Map(state.characters),
+          instances: new Map(state.instances),
+          encounters: new Map(state.encounters),
+        };
+        changes.forEach(({ table, key }, i) => {
+          if (table === "settings") return;
+          const map = next[table] as Map<string, object>;
+          const record = records[i];
+          if (record) map.set(key, record);
+          else map.delete(key);
+        });
+        return { ...state, ...next };
+      });
+    } catch (error) {
+      console.error("Error applying changes from another tab:", error);
+    }
+  }
+
+  return {
+    subscribe,
+    // Initialize the store with data from IndexedDB
+    async init() {
+      try {
+        await migrateDatabase();
+        await vaultService.load();
+        await historyStore.focus(null);
+
+        set({
+          loading: false,
+          error: null,
+          conflict: null,
+          ...(await loadEntities()),
+        });
+        if (!started) {
+          onRemoteChanges(applyRemoteChanges);
+          backupService.schedule();
+          webhookService.start();
+          started = true;
+        }
+      } catch (error) {
+        console.error("Error initializing game store:", error);
+        set({
+          loading: false,
+          characters: new Map(),
+          instances: new Map(),
+          encounters: new Map(),
+          vault: vaultService.status(),
+          conflict: null,
+          error:
+            error instanceof MigrationError
+              ? error.message
+              : "Failed to initialize game store",
+        });
+      }
+    },
+
+    // Vault methods
+    ...createVaultActions(context),
+
+    // Character methods
+    ...createCharacterActions(context),
+    ...createDyingActions(context),
+
+    // Instance methods
+    ...createInstanceActions(context),
+    ...createIntegrityActions(context),
+    ...createImportActions(context),
+
+    // Encounter methods
+    ...createEncounterActions(context),
+    ...createExperienceActions(context),
+    ...createInitiativeActions(context),
+    ...createTurnActions(context),
+    ...createDelayActions(context),
+
+    // Condition methods
+    ...createConditionActions(context),
+
+    // Effect methods
+    ...createEffectActions(context),
+
+    // Concurrency methods
+    /**
+     * Dismisses the last ConflictError once the UI has shown it
+     */
+    clearConflict() {
+      update((state) => ({ ...state, conflict: null }));
+    },
+
+    // Backup methods
+    ...createBackupActions(context),
+
+    // Undo/redo methods
+    ...createHistoryActions(context),
+  };
+}
+
+// Create and export the store
+export const gameStore = createGameStore();
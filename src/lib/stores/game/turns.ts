@@ -0,0 +1,239 @@
+import { get } from "svelte/store";
+import type { Encounter } from "../../types";
+import { characterService } from "../../services/characterService";
+import { encounterService } from "../../services/encounterService";
+import { webhookService } from "../../services/webhookService";
+import { rollDice } from "../../utils/dice";
+import type { Rng } from "../../utils/dice";
+import { endTurnConditions } from "../../utils/conditions";
+import {
+  expireEffects,
+  hasExpired,
+  roundsRemaining,
+} from "../../utils/effects";
+import { needsRecoveryCheck, recoveryCheck } from "../../utils/dying";
+import { currentParticipant, nextTurnPosition } from "../../utils/turnOrder";
+import { formatTurnAnnouncement, turnMentionIds } from "../../utils/discord";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Turn actions: passing the turn, or delaying instead of acting
+ */
+export function createTurnActions({
+  subscribe,
+  track,
+  mirror,
+  changeOf,
+  stampOf,
+  nameOf,
+  rulesOf,
+  logCombat,
+  logKnockout,
+}: GameStoreContext) {
+  /**
+   * Posts a turn or round change to the instance's Discord webhook, if it has one.
+   * Messages are queued first, so they are sent once the browser is back online.
+   * Publishing never fails or holds up the turn change itself.
+   */
+  async function publishTurn(encounter: Encounter, newRound: boolean) {
+    const { instances, characters } = get({ subscribe });
+    const url = instances.get(encounter.instanceId)?.webhookUrl;
+    if (!url) return;
+    try {
+      // All characters, so Familiars and the like can ping the PC they belong to
+      const all = [...characters.values()];
+      await webhookService.enqueue(
+        encounter.instanceId,
+        url,
+        formatTurnAnnouncement(encounter, all, rulesOf(encounter).id, newRound),
+        turnMentionIds(encounter, all),
+      );
+      // Sent in the background, so the turn does not wait on the network
+      webhookService
+        .flush()
+        .catch((error) =>
+          console.error("Error sending turn to Discord:", error),
+        );
+    } catch (error) {
+      console.error("Error publishing turn to Discord:", error);
+    }
+  }
+
+  /**
+   * Passes the turn to the next participant: end-of-turn conditions apply,
+   * effects that ran out end, a creature at 0 HP makes its recovery check or
+   * death save, and the change is logged and announced
+   * @param delayingId - Creature whose turn it is, if it delays rather than ending its turn
+   * @param rng - Random source for recovery checks
+   * @throws {Error} If delayingId is not the creature whose turn it is
+   */
+  async function passTurn(encounterId: string, delayingId?: string, rng?: Rng) {
+    let check:
+      | { characterId: string; roll: number; regainHp?: number }
+      | undefined;
+    const { before: encounter, patch } = await track(
+      "encounters",
+      encounterId,
+      () =>
+        encounterService.mutate(
+          encounterId,
+          (encounter) => {
+            const next = nextTurnPosition(encounter);
+            if (
+              delayingId &&
+              currentParticipant(encounter)?.characterId !== delayingId
+            ) {
+              throw new Error("Only the creature whose turn it is can delay");
+            }
+
+            // Conditions such as frightened wear off at the end of the acting creature's turn,
+            // and effects end once the point they were anchored to has passed
+            const rules = rulesOf(encounter);
+            const system = rules.id;
+            const participants = encounter.participants.map((p, index) => {
+              let updated = p;
+              if (index === encounter.currentTurn) {
+                if (delayingId) updated = { ...updated, delaying: true };
+                if (p.conditions) {
+                  const conditions = endTurnConditions(p.conditions, system);
+                  updated = {
+                    ...updated,
+                    conditions: conditions.length ? conditions : undefined,
+                  };
+                }
+              }
+              if (index === next.turn && (p.delaying || p.readied)) {
+                // Delaying a whole round gives up the delayed turn (PF2e), and readied
+                // actions last until the start of the creature's next turn
+                updated = {
+                  ...updated,
+                  delaying: undefined,
+                  readied: undefined,
+                };
+              }
+              if (index === next.turn && needsRecoveryCheck(updated, rules)) {
+                const roll = rollDice("1d20", rng).total;
+                const result = recoveryCheck(updated, rules, roll);
+                updated = { ...updated, ...result.state };
+                check = {
+                  characterId: p.characterId,
+                  roll,
+                  regainHp: result.regainHp,
+                };
+              }
+              if (
+                p.effects?.some((effect) => hasExpired(effect, encounter, next))
+              ) {
+                const { remaining } = expireEffects(p.effects, encounter, next);
+                updated = {
+                  ...updated,
+                  effects: remaining.length ? remaining : undefined,
+                };
+              }
+              return updated;
+            });
+
+            if (next.round !== encounter.currentRound) {
+              // End of round, start new round
+              return {
+                participants,
+                currentRound: next.round,
+                currentTurn: next.turn,
+              };
+            }
+            // Move to the next participant in the current round
+            return { participants, currentTurn: next.turn };
+          },
+          stampOf("encounters", encounterId),
+        ),
+      (encounter, { currentRound, currentTurn }) => {
+        if (delayingId) return `${nameOf(delayingId)} delays`;
+        return currentRound !== undefined
+          ? `Start round ${currentRound}`
+          : `Next turn (${nameOf(encounter.participants[currentTurn!]?.characterId ?? "")})`;
+      },
+      async () => {
+        if (!check?.regainHp) return [];
+        // A natural 20 death save brings the creature back with 1 HP
+        const { characterId, regainHp } = check;
+        const mutation = await characterService.mutate(
+          characterId,
+          (character) => ({
+            hp: {
+              ...character.hp,
+              current: Math.max(character.hp.current, regainHp),
+            },
+          }),
+        );
+        mirror("characters", characterId, mutation.patch);
+        return [changeOf("characters", characterId, mutation)];
+      },
+    );
+    const after = { ...encounter, ...patch };
+    const acting = currentParticipant(after);
+
+    if (delayingId) await logCombat(encounter, "delay", delayingId, {}, {});
+    // Logged at the new position, so the actor is whoever is now up
+    await logCombat(
+      after,
+      "nextTurn",
+      undefined,
+      {
+        round: encounter.currentRound,
+        initiative: currentParticipant(encounter)?.initiative,
+      },
+      { round: after.currentRound, initiative: acting?.initiative },
+    );
+    if (check) {
+      await logKnockout(
+        "recoveryCheck",
+        check.characterId,
+        { before: encounter, patch },
+        {
+          roll: check.roll,
+        },
+      );
+    }
+    for (const p of encounter.participants) {
+      const remaining = after.participants.find(
+        (q) => q.characterId === p.characterId,
+      )?.effects;
+      for (const effect of p.effects ?? []) {
+        if (remaining?.some((e) => e.id === effect.id)) continue;
+        await logCombat(
+          after,
+          "setEffect",
+          p.characterId,
+          { [effect.name]: roundsRemaining(effect, encounter) },
+          { [effect.name]: undefined },
+        );
+      }
+    }
+    await publishTurn(after, patch.currentRound !== undefined);
+  }
+
+  return {
+    /**
+     * Advances to the next participant, starting a new round after the last one
+     * @param encounterId - ID of the encounter
+     * @param rng - Random source for the recovery check of a creature at 0 HP
+     * @throws {ConflictError} If the encounter changed since the store last saw it,
+     *         so a stale view never skips a turn
+     */
+    async nextTurn(encounterId: string, rng?: Rng) {
+      await passTurn(encounterId, undefined, rng);
+    },
+
+    /**
+     * Takes the creature whose turn it is out of the turn order (PF2e Delay,
+     * or a held turn) and passes the turn on. End-of-turn conditions apply
+     * straight away.
+     * @param encounterId - ID of the encounter
+     * @param characterId - ID of the creature whose turn it is
+     * @throws {Error} If it is not that creature's turn
+     */
+    async delayTurn(encounterId: string, characterId: string) {
+      await passTurn(encounterId, characterId);
+    },
+  };
+}
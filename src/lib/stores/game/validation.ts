@@ -0,0 +1,62 @@
+import type { Character } from "../../types";
+import { isRelatedCharacterType } from "../../types";
+
+/**
+ * Custom error class for validation errors
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Validates a character's data before saving
+ * @param character - The character data to validate
+ * @throws ValidationError if the character data is invalid
+ */
+export function validateCharacter(
+  character: Omit<Character, "id" | "lastUpdated">,
+) {
+  // Check relatedCharacterId based on type
+  if (isRelatedCharacterType(character.type)) {
+    if (!character.relatedCharacterId) {
+      throw new ValidationError(
+        `${character.type} must have a related character ID`,
+      );
+    }
+  } else if (character.relatedCharacterId) {
+    throw new ValidationError(
+      `${character.type} cannot have a related character ID`,
+    );
+  }
+
+  // Discord ID validation - should be present for PCs
+  if (character.type === "PC" && !character.discordId) {
+    throw new ValidationError("PC must have a Discord ID");
+  }
+
+  // Add any other validation rules here
+  if (character.hp.current > character.hp.max) {
+    throw new ValidationError("Current HP cannot exceed max HP");
+  }
+
+  if (character.hp.temp && character.hp.temp < 0) {
+    throw new ValidationError("Temporary HP cannot be negative");
+  }
+
+  const defenses = [
+    ...(character.resistances ?? []),
+    ...(character.weaknesses ?? []),
+  ];
+  if (
+    defenses.some(
+      (d) => !d.type.trim() || (d.value !== undefined && d.value < 0),
+    )
+  ) {
+    throw new ValidationError(
+      "Resistances and weaknesses need a type and a positive value",
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { vaultService } from "../../services/vaultService";
+import type { GameStoreContext } from "./context";
+
+/**
+ * Vault actions: encryption of GM notes, character notes and Discord IDs
+ */
+export function createVaultActions({ withReload }: GameStoreContext) {
+  return {
+    /**
+     * Turns on encryption of GM notes, character notes and Discord IDs
+     * @param passphrase - Passphrase protecting the vault
+     */
+    async enableVault(passphrase: string) {
+      return withReload(() => vaultService.enable(passphrase));
+    },
+
+    /**
+     * Unlocks the vault and reloads data with protected fields decrypted
+     * @param passphrase - Vault passphrase
+     * @throws {VaultError} If the passphrase is wrong
+     */
+    async unlockVault(passphrase: string) {
+      return withReload(() => vaultService.unlock(passphrase));
+    },
+
+    /**
+     * Locks the vault and drops decrypted values from memory
+     */
+    async lockVault() {
+      return withReload(() => vaultService.lock());
+    },
+
+    /**
+     * Re-encrypts all protected fields under a new passphrase
+     * @param current - Current vault passphrase
+     * @param next - New vault passphrase
+     * @throws {VaultError} If the current passphrase is wrong
+     */
+    async changeVaultPassphrase(current: string, next: string) {
+      return withReload(() => vaultService.changePassphrase(current, next));
+    },
+
+    /**
+     * Decrypts all protected fields and turns encryption off
+     * @param passphrase - Vault passphrase
+     * @throws {VaultError} If the passphrase is wrong
+     */
+    async disableVault(passphrase: string) {
+      return withReload(() => vaultService.disable(passphrase));
+    },
+  };
+}
@@ -1,981 +1,20 @@
-import { writable, derived } from "svelte/store";
-import { db } from "./db";
-import type { Character, GameInstance, Encounter } from "./types";
-import { isRelatedCharacterType } from "./types";
-import { characterService } from '../services/characterService';
-import { encounterService } from '../services/encounterService';
-import { gameInstanceService } from '../services/gameInstanceService';
-import { initDB } from '../db';
-
-/**
- * Represents the global state of the game application
- */
-interface GameState {
-  /** Map of all characters indexed by their IDs */
-  characters: Map<string, Character>;
-  /** Map of all game instances indexed by their IDs */
-  instances: Map<string, GameInstance>;
-  /** Map of all encounters indexed by their IDs */
-  encounters: Map<string, Encounter>;
-  /** Indicates if any async operation is in progress */
-  loading: boolean;
-  /** Stores any error message that needs to be displayed */
-  error: string | null;
-}
-
-/**
- * Initial state for the game store
- */
-const initialState: GameState = {
-  characters: new Map(),
-  instances: new Map(),
-  encounters: new Map(),
-  loading: false,
-  error: null,
-};
-
-/**
- * Custom error class for validation errors
- */
-class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ValidationError";
-  }
-}
-
-/**
- * Validates a character's data before saving
- * @param character - The character data to validate
- * @throws ValidationError if the character data is invalid
- */
-function validateCharacter(
-  character: Omit<Character, "id" | "sessionId" | "lastUpdated">,
-) {
-  // Check relatedCharacterId based on type
-  if (isRelatedCharacterType(character.type)) {
-    if (!character.relatedCharacterId) {
-      throw new ValidationError(
-        `${character.type} must have a related character ID`,
-      );
-    }
-  } else if (character.relatedCharacterId) {
-    throw new ValidationError(
-      `${character.type} cannot have a related character ID`,
-    );
-  }
-
-  // Discord ID validation - should be present for PCs
-  if (character.type === "PC" && !character.discordId) {
-    throw new ValidationError("PC must have a Discord ID");
-  }
-
-  // Add any other validation rules here
-  if (character.hp.current > character.hp.max) {
-    throw new ValidationError("Current HP cannot exceed max HP");
-  }
-
-  if (character.hp.temp && character.hp.temp < 0) {
-    throw new ValidationError("Temporary HP cannot be negative");
-  }
-}
-
-// Create the main store
-function createGameStore() {
-  const { subscribe, set, update } = writable<GameState>(initialState);
-
-  return {
-    subscribe,
-    // Initialize the store with data from IndexedDB
-    async init() {
-      try {
-        await initDB();
-        
-        // Load all initial data
-        const [characters, instances, encounters] = await Promise.all([
-          characterService.getAll(),
-          gameInstanceService.getAll(),
-          encounterService.getAll()
-        ]);
-
-        set({
-          loading: false,
-          characters: new Map(characters.map((c: Character) => [c.id, c])),
-          instances: new Map(instances.map((i: GameInstance) => [i.id, i])),
-          encounters: new Map(encounters.map((e: Encounter) => [e.id, e]))
-        });
-      } catch (error) {
-        console.error('Error initializing game store:', error);
-        set({
-          loading: false,
-          characters: new Map(),
-          instances: new Map(),
-          encounters: new Map(),
-          error: 'Failed to initialize game store'
-        });
-      }
-    },
-
-    // Character methods
-    async createCharacter(character: Omit<Character, 'id'>) {
-      try {
-        const newCharacter = await characterService.create(character);
-        update((state) => ({
-          ...state,
-          characters: new Map(state.characters).set(newCharacter.id, newCharacter)
-        }));
-        return newCharacter;
-      } catch (error) {
-        console.error('Error creating character:', error);
-        throw error;
-      }
-    },
-
-    async updateCharacter(id: string, character: Partial<Character>) {
-      try {
-        await characterService.update(id, character);
-        update((state) => {
-          const characters = new Map(state.characters);
-          const existing = characters.get(id);
-          if (existing) {
-            characters.set(id, { ...existing, ...character });
-          }
-          return { ...state, characters };
-        });
-      } catch (error) {
-        console.error('Error updating character:', error);
-        throw error;
-      }
-    },
-
-    async deleteCharacter(id: string) {
-      try {
-        await characterService.delete(id);
-        update((state) => {
-          const characters = new Map(state.characters);
-          characters.delete(id);
-          return { ...state, characters };
-        });
-      } catch (error) {
-        console.error('Error deleting character:', error);
-        throw error;
-      }
-    },
-
-    // HP Management Methods
-    /**
-     * Sets a character's maximum HP and adjusts current HP if needed
-     * @param id - Character ID
-     * @param maxHP - New maximum HP value
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async setMaxHP(id: string, maxHP: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      return this.updateCharacter(id, {
-        hp: {
-          ...character.hp,
-          max: maxHP,
-          // Ensure current HP doesn't exceed new max
-          current: Math.min(character.hp.current, maxHP),
-        },
-      });
-    },
-
-    /**
-     * Sets a character's current HP, clamping between 0 and max HP
-     * @param id - Character ID
-     * @param currentHP - New current HP value
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async setCurrentHP(id: string, currentHP: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      return this.updateCharacter(id, {
-        hp: {
-          ...character.hp,
-          current: Math.min(Math.max(currentHP, 0), character.hp.max), // Clamp between 0 and max
-        },
-      });
-    },
-
-    /**
-     * Sets a character's temporary HP (cannot be negative)
-     * @param id - Character ID
-     * @param tempHP - New temporary HP value
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async setTempHP(id: string, tempHP: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      return this.updateCharacter(id, {
-        hp: {
-          ...character.hp,
-          temp: Math.max(tempHP, 0), // Cannot be negative
-        },
-      });
-    },
-
-    /**
-     * Applies damage to a character, considering temporary HP first
-     * @param id - Character ID
-     * @param amount - Amount of damage to apply
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async damage(id: string, amount: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      const { current, temp = 0 } = character.hp;
-      let remainingDamage = amount;
-      let newTemp = temp;
-      let newCurrent = current;
-
-      // Apply damage to temp HP first
-      if (temp > 0) {
-        if (temp >= remainingDamage) {
-          newTemp = temp - remainingDamage;
-          remainingDamage = 0;
-        } else {
-          remainingDamage -= temp;
-          newTemp = 0;
-        }
-      }
-
-      // Apply remaining damage to current HP
-      if (remainingDamage > 0) {
-        newCurrent = Math.max(current - remainingDamage, 0);
-      }
-
-      return this.updateCharacter(id, {
-        hp: {
-          ...character.hp,
-          current: newCurrent,
-          temp: newTemp,
-        },
-      });
-    },
-
-    /**
-     * Heals a character up to their maximum HP
-     * @param id - Character ID
-     * @param amount - Amount of healing to apply
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async heal(id: string, amount: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      return this.updateCharacter(id, {
-        hp: {
-          ...character.hp,
-          current: Math.min(character.hp.current + amount, character.hp.max),
-        },
-      });
-    },
-
-    // AC Management Methods
-    /**
-     * Sets a character's Armor Class to a specific value
-     * @param id - Character ID
-     * @param ac - New Armor Class value
-     * @returns Promise resolving when the update is complete
-     */
-    async setAC(id: string, ac: number) {
-      return this.updateCharacter(id, { ac });
-    },
-
-    /**
-     * Modifies a character's Armor Class by adding or subtracting a value
-     * @param id - Character ID
-     * @param modifier - Amount to modify AC by (positive or negative)
-     * @throws {Error} If character not found
-     * @returns Promise resolving when the update is complete
-     */
-    async modifyAC(id: string, modifier: number) {
-      const character = await db.getCharacter(id);
-      if (!character) throw new Error("Character not found");
-
-      return this.updateCharacter(id, {
-        ac: character.ac + modifier,
-      });
-    },
-
-    // Session methods
-    async createInstance(instance: Omit<GameInstance, 'id'>) {
-      try {
-        const newInstance = await gameInstanceService.create(instance);
-        update((state) => ({
-          ...state,
-          instances: new Map(state.instances).set(newInstance.id, newInstance)
-        }));
-        return newInstance;
-      } catch (error) {
-        console.error('Error creating game instance:', error);
-        throw error;
-      }
-    },
-
-    async updateInstance(id: string, instance: Partial<GameInstance>) {
-      try {
-        await gameInstanceService.update(id, instance);
-        update((state) => {
-          const instances = new Map(state.instances);
-          const existing = instances.get(id);
-          if (existing) {
-            instances.set(id, { ...existing, ...instance });
-          }
-          return { ...state, instances };
-        });
-      } catch (error) {
-        console.error('Error updating game instance:', error);
-        throw error;
-      }
-    },
-
-    async deleteInstance(id: string) {
-      try {
-        await gameInstanceService.delete(id);
-        update((state) => {
-          const instances = new Map(state.instances);
-          instances.delete(id);
-          return { ...state, instances };
-        });
-      } catch (error) {
-        console.error('Error deleting game instance:', error);
-        throw error;
-      }
-    },
-
-    // Tag management methods
-    async addInstanceTag(instanceId: string, tag: string) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const instance = await db.getInstance(instanceId);
-        if (!instance) throw new Error("Session not found");
-
-        const tags = new Set(instance.tags || []);
-        tags.add(tag.trim().toLowerCase()); // Normalize tags
-
-        const updatedInstance = {
-          ...instance,
-          tags: Array.from(tags),
-          lastAccessed: new Date(),
-        };
-
-        await db.addInstance(updatedInstance);
-        update((state) => ({
-          ...state,
-          loading: false,
-          instances: new Map(state.instances).set(instanceId, updatedInstance),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-
-    async removeInstanceTag(instanceId: string, tag: string) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const instance = await db.getInstance(instanceId);
-        if (!instance) throw new Error("Session not found");
-
-        const tags = new Set(instance.tags || []);
-        tags.delete(tag.trim().toLowerCase());
-
-        const updatedInstance = {
-          ...instance,
-          tags: Array.from(tags),
-          lastAccessed: new Date(),
-        };
-
-        await db.addInstance(updatedInstance);
-        update((state) => ({
-          ...state,
-          loading: false,
-          instances: new Map(state.instances).set(instanceId, updatedInstance),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-
-    // Add method to get related characters
-    async getRelatedCharacters(characterId: string) {
-      const characters = await db.getAllCharacters();
-      return characters.filter(
-        (char) => char.relatedCharacterId === characterId,
-      );
-    },
-
-    // Encounter methods
-    async createEncounter(encounter: Omit<Encounter, 'id'>) {
-      try {
-        const newEncounter = await encounterService.create(encounter);
-        update((state) => ({
-          ...state,
-          encounters: new Map(state.encounters).set(newEncounter.id, newEncounter)
-        }));
-        return newEncounter;
-      } catch (error) {
-        console.error('Error creating encounter:', error);
-        throw error;
-      }
-    },
-
-    async updateEncounter(id: string, encounter: Partial<Encounter>) {
-      try {
-        await encounterService.update(id, encounter);
-        update((state) => {
-          const encounters = new Map(state.encounters);
-          const existing = encounters.get(id);
-          if (existing) {
-            encounters.set(id, { ...existing, ...encounter });
-          }
-          return { ...state, encounters };
-        });
-      } catch (error) {
-        console.error('Error updating encounter:', error);
-        throw error;
-      }
-    },
-
-    async deleteEncounter(id: string) {
-      try {
-        await encounterService.delete(id);
-        update((state) => {
-          const encounters = new Map(state.encounters);
-          encounters.delete(id);
-          return { ...state, encounters };
-        });
-      } catch (error) {
-        console.error('Error deleting encounter:', error);
-        throw error;
-      }
-    },
-
-    async addParticipant(
-      encounterId: string,
-      characterId: string,
-      initiative: number,
-    ) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const encounter = await db.getEncounter(encounterId);
-        if (!encounter) throw new Error("Encounter not found");
-
-        const character = await db.getCharacter(characterId);
-        if (!character) throw new Error("Character not found");
-        if (character.sessionId !== encounter.sessionId) {
-          throw new Error("Character must be from the same session");
-        }
-
-        const updatedEncounter = {
-          ...encounter,
-          participants: [
-            ...encounter.participants,
-            { characterId, initiative },
-          ].sort((a, b) => b.initiative - a.initiative), // Sort by initiative descending
-          lastUpdated: new Date(),
-        };
-
-        await db.addEncounter(updatedEncounter);
-        update((state) => ({
-          ...state,
-          loading: false,
-          encounters: new Map(state.encounters).set(
-            encounterId,
-            updatedEncounter,
-          ),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-
-    async nextTurn(encounterId: string) {
-      const encounter = await db.getEncounter(encounterId);
-      if (!encounter) throw new Error("Encounter not found");
-      if (encounter.participants.length === 0)
-        throw new Error("No participants in encounter");
-
-      // Find next initiative in order
-      const initiatives = [
-        ...new Set(encounter.participants.map((p) => p.initiative)),
-      ].sort((a, b) => b - a);
-      let nextInitiative = encounter.currentInitiative;
-      const currentIndex = initiatives.indexOf(encounter.currentInitiative);
-
-      if (currentIndex === initiatives.length - 1 || currentIndex === -1) {
-        // End of round, start new round
-        nextInitiative = initiatives[0];
-        await this.updateEncounter(encounterId, {
-          currentRound: encounter.currentRound + 1,
-          currentInitiative: nextInitiative,
-        });
-      } else {
-        // Move to next initiative in current round
-        await this.updateEncounter(encounterId, {
-          currentInitiative: initiatives[currentIndex + 1],
-        });
-      }
-    },
-
-    // Additional Encounter methods
-    /**
-     * Removes a participant from an encounter
-     * @param encounterId - ID of the encounter
-     * @param characterId - ID of the character to remove
-     * @throws {Error} If encounter not found
-     * @description Also handles updating current initiative if needed
-     */
-    async removeParticipant(encounterId: string, characterId: string) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const encounter = await db.getEncounter(encounterId);
-        if (!encounter) throw new Error("Encounter not found");
-
-        // Remove participant
-        const updatedEncounter = {
-          ...encounter,
-          participants: encounter.participants
-            .filter((p) => p.characterId !== characterId)
-            .sort((a, b) => b.initiative - a.initiative),
-          lastUpdated: new Date(),
-        };
-
-        // If we removed the last participant at current initiative,
-        // we should move to the next available initiative
-        if (
-          !updatedEncounter.participants.some(
-            (p) => p.initiative === encounter.currentInitiative,
-          )
-        ) {
-          const initiatives = [
-            ...new Set(updatedEncounter.participants.map((p) => p.initiative)),
-          ].sort((a, b) => b - a);
-          if (initiatives.length > 0) {
-            updatedEncounter.currentInitiative = initiatives[0];
-          } else {
-            updatedEncounter.currentInitiative = 0;
-          }
-        }
-
-        await db.addEncounter(updatedEncounter);
-        update((state) => ({
-          ...state,
-          loading: false,
-          encounters: new Map(state.encounters).set(
-            encounterId,
-            updatedEncounter,
-          ),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-
-    /**
-     * Updates a participant's initiative value
-     * @param encounterId - ID of the encounter
-     * @param characterId - ID of the character whose initiative is changing
-     * @param newInitiative - New initiative value
-     * @throws {Error} If encounter not found or participant not found
-     * @description Maintains initiative order and updates current initiative if needed
-     */
-    async updateParticipantInitiative(
-      encounterId: string,
-      characterId: string,
-      newInitiative: number,
-    ) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const encounter = await db.getEncounter(encounterId);
-        if (!encounter) throw new Error("Encounter not found");
-
-        // Find and update the participant
-        const participantIndex = encounter.participants.findIndex(
-          (p) => p.characterId === characterId,
-        );
-        if (participantIndex === -1)
-          throw new Error("Participant not found in encounter");
-
-        const updatedEncounter = {
-          ...encounter,
-          participants: [
-            ...encounter.participants.slice(0, participantIndex),
-            { characterId, initiative: newInitiative },
-            ...encounter.participants.slice(participantIndex + 1),
-          ].sort((a, b) => b.initiative - a.initiative),
-          lastUpdated: new Date(),
-        };
-
-        // Handle current initiative updates if needed
-        if (
-          encounter.participants[participantIndex].initiative ===
-            encounter.currentInitiative &&
-          !updatedEncounter.participants.some(
-            (p) => p.initiative === encounter.currentInitiative,
-          )
-        ) {
-          const initiatives = [
-            ...new Set(updatedEncounter.participants.map((p) => p.initiative)),
-          ].sort((a, b) => b - a);
-          const currentIndex = initiatives.indexOf(encounter.currentInitiative);
-          if (currentIndex === initiatives.length - 1 || currentIndex === -1) {
-            updatedEncounter.currentInitiative = initiatives[0];
-          } else {
-            updatedEncounter.currentInitiative = initiatives[currentIndex + 1];
-          }
-        }
-
-        await db.addEncounter(updatedEncounter);
-        update((state) => ({
-          ...state,
-          loading: false,
-          encounters: new Map(state.encounters).set(
-            encounterId,
-            updatedEncounter,
-          ),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-
-    /**
-     * Updates multiple participants' initiatives at once
-     * @param encounterId - ID of the encounter
-     * @param updates - Array of updates containing characterId and new initiative values
-     * @throws {Error} If encounter not found
-     * @description More efficient than updating initiatives one at a time
-     */
-    async bulkUpdateInitiatives(
-      encounterId: string,
-      updates: { characterId: string; initiative: number }[],
-    ) {
-      update((state) => ({ ...state, loading: true }));
-      try {
-        const encounter = await db.getEncounter(encounterId);
-        if (!encounter) throw new Error("Encounter not found");
-
-        // Create a map of updates for quick lookup
-        const updateMap = new Map(
-          updates.map((u) => [u.characterId, u.initiative]),
-        );
-
-        // Update all participants
-        const updatedEncounter = {
-          ...encounter,
-          participants: encounter.participants
-            .map((p) => ({
-              characterId: p.characterId,
-              initiative: updateMap.has(p.characterId)
-                ? updateMap.get(p.characterId)!
-                : p.initiative,
-            }))
-            .sort((a, b) => b.initiative - a.initiative),
-          lastUpdated: new Date(),
-        };
-
-        await db.addEncounter(updatedEncounter);
-        update((state) => ({
-          ...state,
-          loading: false,
-          encounters: new Map(state.encounters).set(
-            encounterId,
-            updatedEncounter,
-          ),
-        }));
-      } catch (error) {
-        update((state) => ({
-          ...state,
-          loading: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }));
-        throw error;
-      }
-    },
-  };
-}
-
-// Create and export the store
-export const gameStore = createGameStore();
-
-/**
- * Derived Stores
- * These provide convenient access to specific parts of the game state
- */
-
-/**
- * List of all characters in the game
- */
-export const characters = derived(gameStore, ($gameStore) =>
-  Array.from($gameStore.characters.values()),
-);
-
 /**
- * List of all game instances
+ * The game store and the derived stores giving convenient access to parts of
+ * its state. Each feature's actions live in ./game.
  */
-export const instances = derived(gameStore, ($gameStore) =>
-  Array.from($gameStore.instances.values()),
-);
+export { gameStore } from "./game/store";
+export * from "./game/derived";
+export * from "./game/encounterDerived";
 
 /**
- * List of all encounters
+ * The mutations the next undo/redo would revert or reapply
  */
-export const encounters = derived(gameStore, ($gameStore) =>
-  Array.from($gameStore.encounters.values()),
-);
+export { nextUndo, nextRedo } from "./historyStore";
 
 /**
- * Current loading state
- */
-export const loading = derived(gameStore, ($gameStore) => $gameStore.loading);
-
-/**
- * Current error state
- */
-export const error = derived(gameStore, ($gameStore) => $gameStore.error);
-
-/**
- * Factory function that creates a derived store for characters in a specific instance
- * @param instanceId - ID of the instance to filter characters by
- * @returns Derived store containing only characters from the specified instance
- */
-export const instanceCharacters = (instanceId: string) =>
-  derived(characters, ($characters) =>
-    $characters.filter((char) => char.instanceId === instanceId),
-  );
-
-/**
- * List of active game instances
- */
-export const activeInstances = derived(instances, ($instances) =>
-  $instances.filter((i) => i.status === "active"),
-);
-
-/**
- * Map of game instances grouped by their status
- */
-export const instancesByStatus = derived(instances, ($instances) => {
-  const grouped = new Map<GameInstance["status"], GameInstance[]>();
-  for (const instance of $instances) {
-    const list = grouped.get(instance.status) || [];
-    list.push(instance);
-    grouped.set(instance.status, list);
-  }
-  return grouped;
-});
-
-/**
- * List of all unique tags used across all instances
- */
-export const allTags = derived(instances, ($instances) => {
-  const tags = new Set<string>();
-  for (const instance of $instances) {
-    if (instance.tags) {
-      instance.tags.forEach((tag) => tags.add(tag));
-    }
-  }
-  return Array.from(tags).sort();
-});
-
-/**
- * Map of game instances grouped by their tags
- * Note: An instance can appear in multiple groups if it has multiple tags
- */
-export const instancesByTag = derived(instances, ($instances) => {
-  const grouped = new Map<string, GameInstance[]>();
-  for (const instance of $instances) {
-    if (instance.tags) {
-      for (const tag of instance.tags) {
-        const list = grouped.get(tag) || [];
-        list.push(instance);
-        grouped.set(tag, list);
-      }
-    }
-  }
-  return grouped;
-});
-
-/**
- * Factory function that creates a derived store for encounters in a specific instance
- * @param instanceId - ID of the instance to filter encounters by
- * @returns Derived store containing only encounters from the specified instance
- */
-export const instanceEncounters = (instanceId: string) =>
-  derived(encounters, ($encounters) =>
-    $encounters.filter((e) => e.sessionId === instanceId),
-  );
-
-/**
- * Factory function that creates a derived store for current participants in an encounter
- * @param encounterId - ID of the encounter to get current participants for
- * @returns Derived store containing participants acting at the current initiative,
- *          with their full character data included
- */
-export const getCurrentParticipants = (encounterId: string) =>
-  derived([encounters, characters], ([$encounters, $characters]) => {
-    const encounter = $encounters.find((e) => e.id === encounterId);
-    if (!encounter) return [];
-
-    return encounter.participants
-      .filter((p) => p.initiative === encounter.currentInitiative)
-      .map((p) => ({
-        ...p,
-        character: $characters.find((c) => c.id === p.characterId),
-      }));
-  });
-
-/**
- * Examples of using the derived stores:
- *
- * Basic Stores
- * ------------
- *
- * Subscribe to all characters:
- * ```ts
- * characters.subscribe(allCharacters => {
- *   console.log('Characters:', allCharacters);
- * });
- * ```
- *
- * Get loading state:
- * ```ts
- * loading.subscribe(isLoading => {
- *   if (isLoading) showSpinner();
- *   else hideSpinner();
- * });
- * ```
- *
- * Display errors:
- * ```ts
- * error.subscribe(errorMessage => {
- *   if (errorMessage) showToast(errorMessage);
- * });
- * ```
- *
- * Instance-Specific Stores
- * -----------------------
- *
- * Get characters for a specific instance:
- * ```ts
- * const instanceChars = getInstanceCharacters('instance-123');
- * instanceChars.subscribe(chars => {
- *   console.log('Instance characters:', chars);
- * });
- * ```
- *
- * Get encounters for an instance:
- * ```ts
- * const instanceEncounters = getInstanceEncounters('instance-123');
- * instanceEncounters.subscribe(encounters => {
- *   updateEncounterList(encounters);
- * });
- * ```
- *
- * Filtered Views
- * -------------
- *
- * Show only active instances:
- * ```ts
- * activeInstances.subscribe(active => {
- *   renderActiveGames(active);
- * });
- * ```
- *
- * Group instances by status:
- * ```ts
- * instancesByStatus.subscribe(grouped => {
- *   const activeGames = grouped.get('active') || [];
- *   const archivedGames = grouped.get('archived') || [];
- * });
- * ```
- *
- * Tag Management
- * -------------
- *
- * Show all available tags:
- * ```ts
- * allTags.subscribe(tags => {
- *   renderTagCloud(tags);
- * });
- * ```
- *
- * Find instances by tag:
- * ```ts
- * instancesByTag.subscribe(grouped => {
- *   const fantasyGames = grouped.get('fantasy') || [];
- *   const scifiGames = grouped.get('sci-fi') || [];
- * });
- * ```
- *
- * Combat Management
- * ----------------
- *
- * Get current participants in combat:
- * ```ts
- * const currentFighters = getCurrentParticipants('encounter-123');
- * currentFighters.subscribe(participants => {
- *   participants.forEach(({ character, initiative }) => {
- *     console.log(`${character.name} acting at initiative ${initiative}`);
- *   });
- * });
- * ```
- *
- * Using Multiple Stores
- * -------------------
- *
- * Combine stores for complex views:
- * ```ts
- * import { derived } from 'svelte/store';
- *
- * const instanceSummary = derived(
- *   [instances, characters, encounters],
- *   ([$instances, $characters, $encounters]) => {
- *     return $instances.map(instance => ({
- *       ...instance,
- *       characterCount: $characters.filter(c => c.instanceId === instance.id).length,
- *       encounterCount: $encounters.filter(e => e.instanceId === instance.id).length
- *     }));
- *   }
- * );
- * ```
+ * Factory for an encounter's combat log (loaded by focusEncounter)
  */
+export { encounterLog } from "./combatLogStore";
 
 /**
  * Store Initialization and Cleanup
@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { get } from 'svelte/store';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { HistoryChange } from '../types';
+import { db } from '../db';
+import { GLOBAL_SCOPE, historyStore, nextRedo, nextUndo, pickPrevious } from './historyStore';
+
+function change(ac: number): HistoryChange {
+  return { table: 'characters', id: 'valeros', before: { ac: ac - 1 }, after: { ac } };
+}
+
+beforeAll(async () => {
+  await db.open();
+});
+
+beforeEach(async () => {
+  await db.history.clear();
+  await historyStore.focus(null);
+});
+
+describe('pickPrevious', () => {
+  it('collects the current values of the fields being patched', () => {
+    const record = { ac: 18, notes: 'Fighter', hp: { current: 20, max: 30 } };
+    expect(pickPrevious(record, { ac: 19, notes: 'Tank' })).toEqual({ ac: 18, notes: 'Fighter' });
+  });
+});
+
+describe('historyStore', () => {
+  it('starts empty in the global scope', () => {
+    expect(get(historyStore)).toEqual({ scope: GLOBAL_SCOPE, undo: [], redo: [] });
+    expect(get(nextUndo)).toBeNull();
+    expect(get(nextRedo)).toBeNull();
+  });
+
+  it('records mutations and clears redo', async () => {
+    await historyStore.record('Raise AC', [change(19)]);
+    await historyStore.commitUndo();
+    expect(get(nextRedo)?.label).toBe('Raise AC');
+
+    await historyStore.record('Raise AC again', [change(20)]);
+    expect(get(nextUndo)?.label).toBe('Raise AC again');
+    expect(get(historyStore).redo).toEqual([]);
+  });
+
+  it('moves entries between the undo and redo stacks', async () => {
+    await historyStore.record('First', [change(19)]);
+    await historyStore.record('Second', [change(20)]);
+
+    await historyStore.commitUndo();
+    expect(historyStore.peekUndo()?.label).toBe('First');
+    expect(historyStore.peekRedo()?.label).toBe('Second');
+
+    await historyStore.commitRedo();
+    expect(historyStore.peekUndo()?.label).toBe('Second');
+    expect(historyStore.peekRedo()).toBeUndefined();
+  });
+
+  it('ignores undo and redo with nothing to move', async () => {
+    await historyStore.commitUndo();
+    await historyStore.commitRedo();
+    expect(get(historyStore)).toEqual({ scope: GLOBAL_SCOPE, undo: [], redo: [] });
+  });
+
+  it('keeps only the 50 most recent entries', async () => {
+    for (let i = 1; i <= 52; i++) {
+      await historyStore.record(`Change ${i}`, [change(i)]);
+    }
+    const { undo } = get(historyStore);
+    expect(undo).toHaveLength(50);
+    expect(undo[0].label).toBe('Change 3');
+    expect((await db.history.get(GLOBAL_SCOPE))!.undo).toHaveLength(50);
+  });
+
+  it('keeps a separate, persisted history per encounter', async () => {
+    await historyStore.focus('ambush');
+    await historyStore.record('Ambush change', [change(19)]);
+    await historyStore.focus(null);
+    expect(historyStore.peekUndo()).toBeUndefined();
+
+    await historyStore.focus('ambush');
+    expect(get(historyStore)).toMatchObject({
+      scope: 'ambush',
+      undo: [{ label: 'Ambush change', changes: [change(19)] }]
+    });
+  });
+
+  it('persists undo and redo moves so they survive a reload', async () => {
+    await historyStore.record('First', [change(19)]);
+    await historyStore.commitUndo();
+    await historyStore.reload();
+    expect(get(historyStore)).toMatchObject({ undo: [], redo: [{ label: 'First' }] });
+  });
+
+  it('falls back to the global scope when the focused encounter is forgotten', async () => {
+    await historyStore.record('Global change', [change(19)]);
+    await historyStore.focus('ambush');
+    await historyStore.record('Ambush change', [change(20)]);
+
+    await historyStore.forget('ambush');
+    expect(get(historyStore).scope).toBe(GLOBAL_SCOPE);
+    expect(historyStore.peekUndo()?.label).toBe('Global change');
+    expect(await db.history.get('ambush')).toBeUndefined();
+  });
+});
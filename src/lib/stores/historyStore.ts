@@ -0,0 +1,150 @@
+import { writable, derived, get } from "svelte/store";
+import type { HistoryChange, HistoryEntry, HistoryStack } from "../types";
+import { historyService } from "../services/historyService";
+
+/** Scope used when no encounter is focused */
+export const GLOBAL_SCOPE = "global";
+
+/** Maximum number of entries kept in each of the undo and redo stacks */
+const MAX_HISTORY = 50;
+
+/**
+ * Collects the current values of the fields a patch is about to change
+ * @param record - The record before the change
+ * @param patch - The fields being written
+ * @returns The previous values, suitable as HistoryChange.before
+ */
+export function pickPrevious<T extends object>(
+  record: T,
+  patch: Partial<T>,
+): Record<string, unknown> {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(patch)) {
+    previous[key] = (record as Record<string, unknown>)[key];
+  }
+  return previous;
+}
+
+/**
+ * Creates the undo/redo history store.
+ * History is kept per focused encounter and persisted so it survives a reload.
+ */
+function createHistoryStore() {
+  const store = writable<HistoryStack>({
+    scope: GLOBAL_SCOPE,
+    undo: [],
+    redo: [],
+  });
+  const { subscribe, set } = store;
+
+  return {
+    subscribe,
+
+    /**
+     * Switches to the history of an encounter, loading it from IndexedDB
+     * @param encounterId - Encounter to focus, or null for the global scope
+     */
+    async focus(encounterId: string | null) {
+      set(await historyService.get(encounterId ?? GLOBAL_SCOPE));
+    },
+
+    /**
+     * Reloads the focused history from IndexedDB, so it is decrypted (or
+     * left encrypted) the way the vault currently allows
+     */
+    async reload() {
+      set(await historyService.get(get(store).scope));
+    },
+
+    /**
+     * Records a mutation, dropping the oldest entry past the limit and clearing redo
+     * @param label - Human-readable description of the mutation
+     * @param changes - Records changed by the mutation
+     */
+    async record(label: string, changes: HistoryChange[]) {
+      const stack = get(store);
+      const entry: HistoryEntry = { label, timestamp: new Date(), changes };
+      set({
+        ...stack,
+        undo: [...stack.undo, entry].slice(-MAX_HISTORY),
+        redo: [],
+      });
+      await historyService.push(stack.scope, entry, MAX_HISTORY);
+    },
+
+    /**
+     * Entry the next undo would revert, if any
+     */
+    peekUndo(): HistoryEntry | undefined {
+      const { undo } = get(store);
+      return undo[undo.length - 1];
+    },
+
+    /**
+     * Entry the next redo would reapply, if any
+     */
+    peekRedo(): HistoryEntry | undefined {
+      const { redo } = get(store);
+      return redo[redo.length - 1];
+    },
+
+    /**
+     * Moves the top undo entry onto the redo stack once it has been reverted
+     */
+    async commitUndo() {
+      const stack = get(store);
+      const entry = stack.undo[stack.undo.length - 1];
+      if (!entry) return;
+      set({
+        ...stack,
+        undo: stack.undo.slice(0, -1),
+        redo: [...stack.redo, entry].slice(-MAX_HISTORY),
+      });
+      await historyService.move(stack.scope, "undo", MAX_HISTORY);
+    },
+
+    /**
+     * Moves the top redo entry back onto the undo stack once it has been reapplied
+     */
+    async commitRedo() {
+      const stack = get(store);
+      const entry = stack.redo[stack.redo.length - 1];
+      if (!entry) return;
+      set({
+        ...stack,
+        undo: [...stack.undo, entry].slice(-MAX_HISTORY),
+        redo: stack.redo.slice(0, -1),
+      });
+      await historyService.move(stack.scope, "redo", MAX_HISTORY);
+    },
+
+    /**
+     * Discards the persisted history of an encounter
+     * @param encounterId - Encounter whose history should be removed
+     */
+    async forget(encounterId: string) {
+      await historyService.delete(encounterId);
+      if (get(store).scope === encounterId) {
+        set(await historyService.get(GLOBAL_SCOPE));
+      }
+    },
+  };
+}
+
+export const historyStore = createHistoryStore();
+
+/**
+ * The mutation the next undo would revert, or null when there is nothing to undo
+ */
+export const nextUndo = derived(
+  historyStore,
+  ($history) => $history.undo[$history.undo.length - 1] ?? null,
+);
+
+/**
+ * The mutation the next redo would reapply, or null when there is nothing to redo
+ */
+export const nextRedo = derived(
+  historyStore,
+  ($history) => $history.redo[$history.redo.length - 1] ?? null,
+);
@@ -1,49 +1,439 @@
+/**
+ * Represents the different types of characters that can exist in a game instance
+ * PC: Player Character
+ * NPC: Non-Player Character
+ * Hazard: Environmental or trap-like entity
+ * Familiar: A creature bound to another character
+ * Eidolon: A manifestation of another character
+ * Companion: An allied creature or follower
+ */
+export type CharacterType =
+  | "PC"
+  | "NPC"
+  | "Hazard"
+  | "Familiar"
+  | "Eidolon"
+  | "Companion";
+
+/**
+ * Subset of CharacterType that represents characters that must be linked to another character
+ */
+export type RelatedCharacterType = "Familiar" | "Eidolon" | "Companion";
+
+/**
+ * Type guard to check if a character type requires a related character
+ * @param type - The character type to check
+ * @returns True if the type requires a related character
+ */
+export function isRelatedCharacterType(
+  type: CharacterType,
+): type is RelatedCharacterType {
+  return ["Familiar", "Eidolon", "Companion"].includes(type);
+}
+
+/**
+ * The six standard ability scores
+ */
+export interface AbilityScores {
+  strength: number;
+  dexterity: number;
+  constitution: number;
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+}
+
+/**
+ * Saving throw modifiers
+ */
+export interface SavingThrows {
+  fortitude: number;
+  reflex: number;
+  will: number;
+}
+
+/**
+ * A resistance or weakness to a damage type, e.g. fire 5. The value is the
+ * flat amount in PF2e; 5e halves or doubles the damage instead.
+ */
+export interface DamageDefense {
+  /** Damage type, or a group such as "physical" or "all-damage" */
+  type: string;
+  value?: number;
+}
+
+/**
+ * One instance of damage, e.g. 2d6 fire or persistent bleed
+ */
+export interface DamageInstance {
+  amount: number;
+  /** Damage type such as "fire" or "slashing"; "untyped" if it has none */
+  type: string;
+  persistent?: boolean;
+  /** How much of the amount is precision damage */
+  precision?: number;
+}
+
+/**
+ * Represents a character in the game system
+ */
 export interface Character {
+  /** Unique identifier for the character */
   id: string;
+  /** ID of the game instance this character belongs to */
+  instanceId: string;
+  /** Character's name */
   name: string;
-  level: number;
-  class: string;
-  race: string;
-  hitPoints: {
+  /** Type of character */
+  type: CharacterType;
+  /** Discord user ID for the character's player (required for PCs) */
+  discordId?: string;
+  /** ID of the character this one is related to (required for Familiars/Eidolons/Companions) */
+  relatedCharacterId?: string;
+  /** Character notes */
+  notes: string;
+  /** Hit Point information */
+  hp: {
+    /** Current hit points */
     current: number;
-    maximum: number;
+    /** Maximum hit points */
+    max: number;
+    /** Temporary hit points */
+    temp?: number;
   };
-  armorClass: number;
-  abilityScores: {
-    strength: number;
-    dexterity: number;
-    constitution: number;
-    intelligence: number;
-    wisdom: number;
-    charisma: number;
-  };
-  skills: Record<string, number>;
-  proficiencies: string[];
-  equipment: string[];
+  /** Armor Class */
+  ac: number;
+  /** Damage types the character takes no damage from */
+  immunities?: string[];
+  /** Damage the character takes less of */
+  resistances?: DamageDefense[];
+  /** Damage the character takes more of (5e vulnerabilities) */
+  weaknesses?: DamageDefense[];
+  /** Character level */
+  level?: number;
+  /** Challenge rating of a 5e creature, e.g. 0.25 for CR 1/4 */
+  challengeRating?: number;
+  /** Experience points, for systems where each character tracks their own */
+  experiencePoints?: number;
+  /** Character class */
+  class?: string;
+  /** Character race/ancestry */
+  race?: string;
+  /** Ability scores */
+  abilityScores?: AbilityScores;
+  /** Perception modifier */
+  perception?: number;
+  /** Modifier added to initiative rolls */
+  initiativeModifier?: number;
+  /** Saving throw modifiers */
+  saves?: SavingThrows;
+  /** Skill modifiers keyed by skill name */
+  skills?: Record<string, number>;
+  /** Proficiencies (weapons, armor, tools, languages...) */
+  proficiencies?: string[];
+  /** Equipment and inventory */
+  equipment?: string[];
+  /** Timestamp of last update */
+  lastUpdated: Date;
 }
 
+/**
+ * Represents a game instance (e.g., a campaign or one-shot)
+ */
 export interface GameInstance {
+  /** Unique identifier for the instance */
   id: string;
+  /** Name of the game instance */
   name: string;
-  date: Date;
-  characters: string[]; // Character IDs
-  encounters: string[]; // Encounter IDs
-  notes: string;
+  /** Discord server name where the game is being played */
+  serverName?: string;
+  /** Discord channel name where the game is being played */
+  channelName?: string;
+  /** Discord webhook that turn and round changes are posted to, if any */
+  webhookUrl?: string;
+  /** Game system being used (e.g., "D&D 5E", "Pathfinder 2E"); selects the rules module, see rulesFor */
+  system?: string;
+  /** When the instance was created */
+  createdAt: Date;
+  /** When the instance was last accessed */
+  lastAccessed: Date;
+  /** When the instance was last changed; instances saved before it was kept have none */
+  lastUpdated?: Date;
+  /** Description of the game instance */
+  description?: string;
+  /** Current status of the game instance */
+  status: "active" | "paused" | "completed" | "archived";
+  /** Tags for organizing/filtering instances */
+  tags?: string[];
+  /** Private notes for the GM */
+  gmNotes?: string;
+  /** Experience points earned by the party */
   experiencePoints?: number;
+  /** How creatures tied on initiative are ordered; defaults to the game system's rule */
+  tieBreaker?: TieBreaker;
+}
+
+/**
+ * How creatures tied on initiative are ordered
+ * enemiesFirst: NPCs and hazards act before PCs and their companions (PF2e)
+ * dexterity: higher Dexterity score first (D&D 5e)
+ * manual: the order the GM arranged them in
+ */
+export type TieBreaker = "enemiesFirst" | "dexterity" | "manual";
+
+/**
+ * A condition affecting an encounter participant, e.g. frightened 2
+ */
+export interface ParticipantCondition {
+  /** Catalogue ID such as "frightened", or a custom condition's name */
+  id: string;
+  /** Value of a valued condition */
+  value?: number;
+  /**
+   * Conditions that imply this one (unconscious → prone). It is removed
+   * once all of them are; absent if it was applied directly.
+   */
+  impliedBy?: string[];
+}
+
+/**
+ * How long an effect lasts. A minute is 10 rounds.
+ */
+export interface EffectDuration {
+  value: number;
+  unit: "rounds" | "minutes";
+}
+
+/**
+ * The point in the turn order an effect ends at: the start or end of a
+ * creature's turn in a given round
+ */
+export interface EffectExpiry {
+  round: number;
+  /** Creature whose turn the effect is counted in */
+  characterId?: string;
+  /** Initiative of that turn, used if the creature has left the encounter */
+  initiative: number;
+  boundary: "start" | "end";
+}
+
+/**
+ * A timed effect on a participant, such as Bless or a 1-minute buff
+ */
+export interface ParticipantEffect {
+  id: string;
+  name: string;
+  /** Character who created the effect, e.g. the caster */
+  sourceId?: string;
+  /** Duration as entered, kept for display */
+  duration: EffectDuration;
+  /** When the effect ends; nextTurn removes it once this point is passed */
+  expiresAt: EffectExpiry;
+}
+
+/**
+ * 5e death saving throws made at 0 HP. Three successes make the creature
+ * stable; three failures kill it.
+ */
+export interface DeathSaves {
+  successes: number;
+  failures: number;
+}
+
+/**
+ * Represents a participant in an encounter
+ */
+export interface EncounterParticipant {
+  /** ID of the character participating */
+  characterId: string;
+  /** Initiative roll/score for this participant */
+  initiative: number;
+  /** Conditions currently affecting the participant */
+  conditions?: ParticipantCondition[];
+  /** Timed effects currently affecting the participant */
+  effects?: ParticipantEffect[];
+  /**
+   * Out of the turn order after Delaying (PF2e) or holding the turn, until
+   * returning at a later point; after a whole round they act at their old place
+   */
+  delaying?: boolean;
+  /** Trigger of a readied action, e.g. "when an enemy steps adjacent" */
+  readied?: string;
+  /** Death saves made since dropping to 0 HP (5e) */
+  deathSaves?: DeathSaves;
+  /** Killed; NPCs and hazards are marked dead as soon as they reach 0 HP */
+  dead?: boolean;
 }
 
+/**
+ * Represents a combat encounter within a game instance
+ */
 export interface Encounter {
+  /** Unique identifier for the encounter */
   id: string;
+  /** ID of the game instance this encounter belongs to */
+  instanceId: string;
+  /** Name of the encounter */
   name: string;
-  gameInstanceId: string;
-  participants: {
-    characterId: string;
-    initiative: number;
-    status: string;
-    hitPoints?: number;
-    conditions?: string[];
-  }[];
-  notes: string;
+  /** Whether the encounter is currently being run */
   isActive: boolean;
+  /** Current round number */
+  currentRound: number;
+  /** Index in participants of the creature whose turn it is */
+  currentTurn: number;
+  /** List of participants in turn order */
+  participants: EncounterParticipant[];
+  /** Encounter notes */
+  notes?: string;
+  /** When the encounter was created */
+  createdAt: Date;
+  /** When the encounter was last updated */
+  lastUpdated: Date;
+}
+
+/**
+ * Table an undoable change was made to
+ */
+export type HistoryTable = "characters" | "instances" | "encounters";
+
+/**
+ * A change to a single record, stored as the values of the changed fields
+ * before and after, so it can be reverted or reapplied
+ */
+export interface HistoryChange {
+  table: HistoryTable;
+  /** ID of the changed record */
+  id: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * A single undoable gameStore mutation
+ */
+export interface HistoryEntry {
+  /** Human-readable description, e.g. "Damage Goblin by 5" */
+  label: string;
+  timestamp: Date;
+  changes: HistoryChange[];
+}
+
+/**
+ * Undo and redo history for one encounter (or the global scope)
+ */
+export interface HistoryStack {
+  /** Encounter ID, or "global" for changes made outside an encounter */
+  scope: string;
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/**
+ * gameStore mutations recorded in the combat log
+ */
+export type CombatLogAction =
+  | "damage"
+  | "heal"
+  | "setTempHP"
+  | "modifyAC"
+  | "addParticipant"
+  | "updateParticipantInitiative"
+  | "setCondition"
+  | "setEffect"
+  | "delay"
+  | "resumeTurn"
+  | "ready"
+  | "dying"
+  | "recoveryCheck"
+  | "nextTurn";
+
+/**
+ * An append-only record of a state change during an encounter
+ */
+export interface CombatLogEntry {
+  /** Auto-incremented ID, also the order entries were written in */
+  id?: number;
+  /** ID of the encounter the change happened in */
+  encounterId: string;
+  action: CombatLogAction;
+  /** Round when the change happened */
   round: number;
+  /** Initiative being acted upon when the change happened */
+  initiative: number;
+  /** Participant whose turn it was */
+  actorId?: string;
+  /** Actor's name at the time, kept for recaps after renames or deletions */
+  actorName?: string;
+  /** Character the change was applied to */
+  targetId?: string;
+  /** Target's name at the time */
+  targetName?: string;
+  /** Values before the change, e.g. `{ current: 20, temp: 0 }` */
+  before: Record<string, number | undefined>;
+  /** Values after the change */
+  after: Record<string, number | undefined>;
+  timestamp: Date;
+}
+
+/**
+ * A Discord webhook message waiting to be sent
+ */
+export interface OutboxMessage {
+  /** Auto-incremented ID, also the order messages are sent in */
+  id?: number;
+  /** ID of the game instance the message was published for */
+  instanceId: string;
+  /** Webhook URL the message is posted to */
+  url: string;
+  /** Message text */
+  content: string;
+  /** Discord user IDs the message may ping; any other mention stays silent */
+  mentions?: string[];
+  createdAt: Date;
+  /** Number of failed send attempts */
+  attempts: number;
+  /** Not retried before this time */
+  nextAttemptAt: Date;
+  /** A tab is sending the message until this time, so others leave it alone */
+  leaseUntil?: Date;
+  lastError?: string;
+  /** Rejected by Discord (e.g. the webhook was deleted) and no longer retried */
+  failed?: boolean;
+}
+
+/**
+ * A character read from another tool's export, before it is matched to the
+ * characters already in a game instance
+ */
+export interface ImportedCharacter {
+  /** Character fields the export provides; HP and notes are set on import */
+  character: Pick<
+    Character,
+    | "name"
+    | "ac"
+    | "level"
+    | "class"
+    | "race"
+    | "abilityScores"
+    | "perception"
+    | "saves"
+    | "skills"
+    | "equipment"
+  > & { hpMax: number };
+  /** Familiars, Companions and Eidolons that belong to the character */
+  related: ImportedRelatedCharacter[];
+  /** Things the export did not say and the GM should fill in by hand */
+  warnings: string[];
+}
+
+/**
+ * A Familiar, Companion or Eidolon read from an export. Stats the export does
+ * not give are left undefined and kept as they are on re-import.
+ */
+export interface ImportedRelatedCharacter {
+  name: string;
+  type: RelatedCharacterType;
+  level?: number;
+  hpMax?: number;
+  ac?: number;
 }
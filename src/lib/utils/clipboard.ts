@@ -0,0 +1,10 @@
+/**
+ * Copies text with the Clipboard API
+ * @throws {Error} If the Clipboard API is unavailable (e.g. outside a secure context)
+ */
+export async function copyText(text: string): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard) {
+    throw new Error('Clipboard is not available');
+  }
+  await navigator.clipboard.writeText(text);
+}
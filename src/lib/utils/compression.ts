@@ -0,0 +1,24 @@
+/**
+ * Whether this browser can gzip natively (CompressionStream)
+ */
+export const canCompress = typeof CompressionStream !== 'undefined';
+
+async function pipe(bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Gzips a string
+ * @throws {Error} If CompressionStream is not supported
+ */
+export async function gzip(text: string): Promise<Uint8Array> {
+  return pipe(new TextEncoder().encode(text), new CompressionStream('gzip'));
+}
+
+/**
+ * Restores a string compressed with gzip()
+ */
+export async function gunzip(bytes: Uint8Array): Promise<string> {
+  return new TextDecoder().decode(await pipe(bytes, new DecompressionStream('gzip')));
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCondition,
+  conditionId,
+  endTurnConditions,
+  formatCondition,
+  removeCondition,
+  setConditionValue
+} from './conditions';
+
+describe('formatCondition', () => {
+  it('shows the value of valued conditions', () => {
+    expect(formatCondition({ id: 'frightened', value: 2 }, 'pf2e')).toBe('Frightened 2');
+    expect(formatCondition({ id: 'off-guard' }, 'pf2e')).toBe('Off-Guard');
+  });
+
+  it('names custom conditions from their ID', () => {
+    expect(conditionId(' Hunted Prey ')).toBe('hunted-prey');
+    expect(formatCondition({ id: 'hunted-prey' }, 'pf2e')).toBe('Hunted-Prey');
+  });
+});
+
+describe('applyCondition', () => {
+  it('keeps the higher value of a PF2e condition', () => {
+    const frightened = applyCondition([], 'pf2e', 'frightened', 2);
+    expect(applyCondition(frightened, 'pf2e', 'frightened', 1)).toEqual([
+      { id: 'frightened', value: 2 }
+    ]);
+    expect(applyCondition(frightened, 'pf2e', 'frightened', 3)).toEqual([
+      { id: 'frightened', value: 3 }
+    ]);
+  });
+
+  it('adds up 5e exhaustion levels, up to the maximum', () => {
+    let conditions = applyCondition([], 'dnd5e', 'exhaustion', 4);
+    conditions = applyCondition(conditions, 'dnd5e', 'exhaustion', 1);
+    expect(conditions).toEqual([{ id: 'exhaustion', value: 5 }]);
+    expect(applyCondition(conditions, 'dnd5e', 'exhaustion', 3)).toEqual([
+      { id: 'exhaustion', value: 6 }
+    ]);
+  });
+
+  it('ignores values on conditions the system does not value', () => {
+    expect(applyCondition([], 'dnd5e', 'frightened', 2)).toEqual([{ id: 'frightened' }]);
+  });
+
+  it('adds the conditions a condition implies, recursively', () => {
+    expect(applyCondition([], 'pf2e', 'unconscious')).toEqual([
+      { id: 'unconscious' },
+      { id: 'blinded', impliedBy: ['unconscious'] },
+      { id: 'off-guard', impliedBy: ['unconscious'] },
+      { id: 'prone', impliedBy: ['unconscious'] }
+    ]);
+  });
+});
+
+describe('removeCondition', () => {
+  it('removes the conditions only it implied', () => {
+    let conditions = applyCondition([], 'pf2e', 'unconscious');
+    conditions = applyCondition(conditions, 'pf2e', 'grabbed');
+    expect(removeCondition(conditions, 'pf2e', 'unconscious')).toEqual([
+      { id: 'off-guard', impliedBy: ['grabbed'] },
+      { id: 'grabbed' },
+      { id: 'immobilized', impliedBy: ['grabbed'] }
+    ]);
+  });
+
+  it('keeps an implied condition that was also applied directly', () => {
+    let conditions = applyCondition([], 'pf2e', 'prone');
+    conditions = applyCondition(conditions, 'pf2e', 'unconscious');
+    conditions = removeCondition(conditions, 'pf2e', 'unconscious');
+    expect(conditions).toEqual([{ id: 'prone' }, { id: 'off-guard', impliedBy: ['prone'] }]);
+  });
+});
+
+describe('setConditionValue', () => {
+  it('sets a value ignoring stacking, and removes the condition at 0', () => {
+    const sickened = applyCondition([], 'pf2e', 'sickened', 3);
+    expect(setConditionValue(sickened, 'pf2e', 'sickened', 1)).toEqual([
+      { id: 'sickened', value: 1 }
+    ]);
+    expect(setConditionValue(sickened, 'pf2e', 'sickened', 0)).toEqual([]);
+    expect(setConditionValue([], 'pf2e', 'doomed', 5)).toEqual([{ id: 'doomed', value: 3 }]);
+  });
+});
+
+describe('endTurnConditions', () => {
+  it('lowers PF2e frightened by 1 and ends it at 0', () => {
+    const conditions = [
+      { id: 'frightened', value: 2 },
+      { id: 'sickened', value: 1 }
+    ];
+    const once = endTurnConditions(conditions, 'pf2e');
+    expect(once).toEqual([
+      { id: 'frightened', value: 1 },
+      { id: 'sickened', value: 1 }
+    ]);
+    expect(endTurnConditions(once, 'pf2e')).toEqual([{ id: 'sickened', value: 1 }]);
+  });
+
+  it('leaves 5e conditions alone', () => {
+    expect(endTurnConditions([{ id: 'frightened' }], 'dnd5e')).toEqual([{ id: 'frightened' }]);
+  });
+});
@@ -0,0 +1,181 @@
+import type { ParticipantCondition } from '../types';
+import { GAME_RULES, type ConditionDefinition } from '../rules';
+import type { GameSystemId } from './gameSystem';
+
+export type { ConditionDefinition } from '../rules';
+
+/**
+ * Catalogue IDs are lowercase with hyphens: "Off-Guard" → "off-guard"
+ */
+export function conditionId(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Lists a game system's conditions, sorted by name
+ */
+export function conditionCatalogue(system: GameSystemId): ConditionDefinition[] {
+  return Object.entries(GAME_RULES[system].conditions)
+    .map(([id, definition]) => ({ id, ...definition }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Looks a condition up in a system's catalogue. Conditions outside the
+ * catalogue are treated as custom unvalued conditions.
+ */
+export function findCondition(system: GameSystemId, id: string): ConditionDefinition {
+  const definition = GAME_RULES[system].conditions[id];
+  return definition
+    ? { id, ...definition }
+    : { id, name: id.replace(/(^|-)(\w)/g, (_, dash, c) => `${dash}${c.toUpperCase()}`), valued: false };
+}
+
+/**
+ * Displays a condition, e.g. "Frightened 2"
+ */
+export function formatCondition(condition: ParticipantCondition, system: GameSystemId = 'generic'): string {
+  const { name } = findCondition(system, condition.id);
+  return condition.value !== undefined ? `${name} ${condition.value}` : name;
+}
+
+function clamp(definition: ConditionDefinition, value: number): number {
+  return definition.maxValue !== undefined ? Math.min(value, definition.maxValue) : value;
+}
+
+/**
+ * Adds a source to the conditions a condition implies, recursively
+ * (unconscious → prone → off-guard in PF2e)
+ */
+function addImplied(
+  conditions: ParticipantCondition[],
+  system: GameSystemId,
+  source: string,
+  seen = new Set<string>([source])
+): ParticipantCondition[] {
+  let result = conditions;
+  for (const implied of findCondition(system, source).implies ?? []) {
+    if (seen.has(implied)) continue;
+    seen.add(implied);
+    const existing = result.find((c) => c.id === implied);
+    if (!existing) {
+      const value = findCondition(system, implied).valued ? 1 : undefined;
+      result = [...result, { id: implied, ...(value && { value }), impliedBy: [source] }];
+    } else if (existing.impliedBy && !existing.impliedBy.includes(source)) {
+      result = result.map((c) =>
+        c === existing ? { ...c, impliedBy: [...existing.impliedBy!, source] } : c
+      );
+    }
+    result = addImplied(result, system, implied, seen);
+  }
+  return result;
+}
+
+/**
+ * Drops a source from implied conditions, removing those no longer implied by anything
+ */
+function dropImplied(
+  conditions: ParticipantCondition[],
+  system: GameSystemId,
+  source: string
+): ParticipantCondition[] {
+  let result = conditions;
+  for (const { id } of conditions) {
+    // Earlier removals may already have changed or removed this condition
+    const condition = result.find((c) => c.id === id);
+    if (!condition?.impliedBy?.includes(source)) continue;
+    const impliedBy = condition.impliedBy.filter((s) => s !== source);
+    if (impliedBy.length > 0) {
+      result = result.map((c) => (c.id === id ? { ...c, impliedBy } : c));
+    } else {
+      result = dropImplied(
+        result.filter((c) => c.id !== id),
+        system,
+        id
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies a condition following the system's stacking rules, along with the
+ * conditions it implies. Applying an implied condition directly makes it
+ * stay when its source ends.
+ * @param value - Value for a valued condition; defaults to 1
+ */
+export function applyCondition(
+  conditions: ParticipantCondition[],
+  system: GameSystemId,
+  id: string,
+  value?: number
+): ParticipantCondition[] {
+  const definition = findCondition(system, id);
+  const existing = conditions.find((c) => c.id === id);
+  let next: ParticipantCondition;
+
+  if (!definition.valued) {
+    next = { id };
+  } else {
+    const applied = value ?? 1;
+    const current = existing?.value ?? 0;
+    next = {
+      id,
+      value: clamp(
+        definition,
+        definition.stacking === 'add' ? current + applied : Math.max(current, applied)
+      )
+    };
+  }
+
+  const others = conditions.filter((c) => c.id !== id);
+  return addImplied([...others, next], system, id);
+}
+
+/**
+ * Sets a valued condition to exactly this value, ignoring stacking;
+ * 0 or less removes it
+ */
+export function setConditionValue(
+  conditions: ParticipantCondition[],
+  system: GameSystemId,
+  id: string,
+  value: number
+): ParticipantCondition[] {
+  if (value <= 0) return removeCondition(conditions, system, id);
+  const definition = findCondition(system, id);
+  const next = { id, value: clamp(definition, value) };
+  return conditions.some((c) => c.id === id)
+    ? conditions.map((c) => (c.id === id ? { ...c, ...next } : c))
+    : addImplied([...conditions, next], system, id);
+}
+
+/**
+ * Removes a condition and any conditions only it implied
+ */
+export function removeCondition(
+  conditions: ParticipantCondition[],
+  system: GameSystemId,
+  id: string
+): ParticipantCondition[] {
+  return dropImplied(
+    conditions.filter((c) => c.id !== id),
+    system,
+    id
+  );
+}
+
+/**
+ * Applies end-of-turn changes: conditions such as PF2e frightened go down by 1
+ */
+export function endTurnConditions(
+  conditions: ParticipantCondition[],
+  system: GameSystemId
+): ParticipantCondition[] {
+  return conditions
+    .filter((c) => findCondition(system, c.id).decrementAtEndOfTurn)
+    .reduce(
+      (result, c) => setConditionValue(result, system, c.id, (c.value ?? 1) - 1),
+      conditions
+    );
+}
@@ -0,0 +1,82 @@
+/** Prefix marking a string field as ciphertext */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** PBKDF2 iteration count for newly created vaults */
+export const DEFAULT_ITERATIONS = 310000;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Checks whether a stored string is ciphertext produced by encryptString
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Generates a random base64 salt for key derivation
+ */
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2
+ * @param passphrase - User passphrase
+ * @param salt - Base64 salt
+ * @param iterations - PBKDF2 iteration count
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts a string with AES-GCM under a fresh IV
+ * @returns `enc:v1:<iv>:<ciphertext>` with base64 parts
+ */
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypts a string produced by encryptString
+ * @throws {DOMException} If the key is wrong or the ciphertext was tampered with
+ */
+export async function decryptString(key: CryptoKey, value: string): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
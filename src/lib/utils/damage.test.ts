@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { damageFromRoll, formatDamageBreakdown, resolveDamage } from './damage';
+import { rollDice, seededRng } from './dice';
+
+describe('resolveDamage (PF2e, flat)', () => {
+  it('applies the highest weakness, then the highest resistance', () => {
+    const breakdown = resolveDamage(
+      [{ amount: 12, type: 'fire' }],
+      {
+        weaknesses: [
+          { type: 'fire', value: 5 },
+          { type: 'energy', value: 2 }
+        ],
+        resistances: [
+          { type: 'all-damage', value: 3 },
+          { type: 'fire', value: 10 }
+        ]
+      },
+      'flat'
+    );
+    expect(breakdown.total).toBe(7);
+    expect(breakdown.lines[0].adjustments).toEqual(['weakness fire +5', 'resistance fire −10']);
+  });
+
+  it('resolves each instance on its own', () => {
+    const breakdown = resolveDamage(
+      [
+        { amount: 8, type: 'Slashing' },
+        { amount: 3, type: 'fire' }
+      ],
+      { resistances: [{ type: 'physical', value: 5 }], immunities: ['fire'] },
+      'flat'
+    );
+    expect(breakdown.lines.map((line) => line.taken)).toEqual([3, 0]);
+    expect(formatDamageBreakdown(breakdown)).toBe(
+      '8 slashing → 3 (resistance physical −5) + 3 fire → 0 (immune to fire) = 3 damage'
+    );
+  });
+
+  it('ignores the precision part of an instance for a creature immune to precision', () => {
+    const breakdown = resolveDamage(
+      [{ amount: 10, type: 'piercing', precision: 4 }],
+      { immunities: ['precision'], weaknesses: [{ type: 'precision', value: 5 }] },
+      'flat'
+    );
+    // With the precision damage gone, a weakness to precision no longer applies
+    expect(breakdown.total).toBe(6);
+    expect(breakdown.lines[0].adjustments).toEqual(['immune to precision −4']);
+  });
+
+  it('limits resistance to precision to the precision part', () => {
+    const breakdown = resolveDamage(
+      [{ amount: 10, type: 'piercing', precision: 4 }],
+      { resistances: [{ type: 'precision', value: 5 }] },
+      'flat'
+    );
+    expect(breakdown.total).toBe(6);
+    expect(breakdown.lines[0].adjustments).toEqual(['resistance precision −4']);
+  });
+
+  it('applies weakness to persistent damage', () => {
+    const roll = rollDice('1d6 persistent bleed', seededRng(1));
+    const breakdown = resolveDamage(
+      [damageFromRoll(roll)],
+      { weaknesses: [{ type: 'persistent-damage', value: 2 }] },
+      'flat'
+    );
+    expect(breakdown.lines[0]).toMatchObject({ type: 'bleed', persistent: true });
+    expect(breakdown.total).toBe(roll.total + 2);
+  });
+});
+
+describe('resolveDamage (5e, by type)', () => {
+  it('totals each type before halving, rounding down', () => {
+    const breakdown = resolveDamage(
+      [
+        { amount: 3, type: 'fire' },
+        { amount: 4, type: 'fire' },
+        { amount: 5, type: 'cold' }
+      ],
+      { resistances: [{ type: 'fire' }] },
+      'byType'
+    );
+    expect(breakdown.lines.map((line) => [line.type, line.taken])).toEqual([
+      ['fire', 3],
+      ['cold', 5]
+    ]);
+    expect(breakdown.total).toBe(8);
+  });
+
+  it('applies resistance and vulnerability once each', () => {
+    const breakdown = resolveDamage(
+      [{ amount: 9, type: 'slashing' }],
+      {
+        resistances: [{ type: 'slashing' }, { type: 'physical' }],
+        weaknesses: [{ type: 'slashing' }]
+      },
+      'byType'
+    );
+    expect(breakdown.total).toBe(8);
+  });
+
+  it('takes nothing from damage it is immune to', () => {
+    const breakdown = resolveDamage(
+      [{ amount: 9, type: 'poison' }],
+      { immunities: ['poison'], weaknesses: [{ type: 'poison' }] },
+      'byType'
+    );
+    expect(breakdown.total).toBe(0);
+  });
+});
+
+describe('formatDamageBreakdown', () => {
+  it('says when there is no damage', () => {
+    expect(formatDamageBreakdown(resolveDamage([{ amount: 0, type: 'fire' }], {}, 'flat'))).toBe(
+      'No damage'
+    );
+  });
+});
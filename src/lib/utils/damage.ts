@@ -0,0 +1,225 @@
+import type { Character, DamageDefense, DamageInstance } from '../types';
+import type { DiceRoll } from './dice';
+import type { DamageRule } from '../rules';
+
+const PHYSICAL = ['bludgeoning', 'piercing', 'slashing'];
+const ENERGY = [
+  'acid',
+  'cold',
+  'electricity',
+  'fire',
+  'sonic',
+  'force',
+  'vitality',
+  'void',
+  'positive',
+  'negative'
+];
+
+/**
+ * The defenses of a character that damage is checked against
+ */
+export type DamageDefenses = Pick<Character, 'immunities' | 'resistances' | 'weaknesses'>;
+
+/**
+ * How one damage instance (or, in 5e, all damage of one type) was resolved
+ */
+export interface DamageLine {
+  type: string;
+  persistent: boolean;
+  /** Damage before immunities, weaknesses and resistances */
+  rolled: number;
+  /** Damage taken */
+  taken: number;
+  /** What changed it, in the order applied, e.g. "resistance fire −5" */
+  adjustments: string[];
+}
+
+export interface DamageBreakdown {
+  lines: DamageLine[];
+  total: number;
+}
+
+/**
+ * Reads a damage instance from a rolled damage expression such as `2d6+3 persistent fire`
+ */
+export function damageFromRoll(roll: DiceRoll): DamageInstance {
+  return {
+    amount: Math.max(roll.total, 0),
+    type: roll.damageType ?? 'untyped',
+    ...(roll.persistent && { persistent: true })
+  };
+}
+
+/**
+ * A plain amount of damage, which no defense changes
+ */
+export function untypedDamage(amount: number): DamageBreakdown {
+  return {
+    lines: [{ type: 'untyped', persistent: false, rolled: amount, taken: amount, adjustments: [] }],
+    total: amount
+  };
+}
+
+/**
+ * Whether a defense covers an instance: its own type, a group of types
+ * (physical, energy), persistent damage, or all damage
+ */
+function covers(defense: string, instance: DamageInstance): boolean {
+  const type = defense.toLowerCase();
+  return (
+    type === instance.type ||
+    type === 'all' ||
+    type === 'all-damage' ||
+    (type === 'physical' && PHYSICAL.includes(instance.type)) ||
+    (type === 'energy' && ENERGY.includes(instance.type)) ||
+    (type === 'persistent-damage' && !!instance.persistent)
+  );
+}
+
+/**
+ * The highest of the defenses that apply, as PF2e only ever uses one
+ * weakness and one resistance per instance
+ */
+function highest(
+  defenses: DamageDefense[] | undefined,
+  applies: (defense: DamageDefense) => boolean
+): DamageDefense | undefined {
+  return (defenses ?? [])
+    .filter(applies)
+    .reduce<DamageDefense | undefined>(
+      (best, defense) => (!best || (defense.value ?? 0) > (best.value ?? 0) ? defense : best),
+      undefined
+    );
+}
+
+/**
+ * PF2e: each instance on its own, immunities then the highest weakness
+ * then the highest resistance. Precision damage is its own part of an
+ * instance that can be ignored or resisted.
+ */
+function resolveFlat(instance: DamageInstance, defenses: DamageDefenses): DamageLine {
+  const line: DamageLine = {
+    type: instance.type,
+    persistent: !!instance.persistent,
+    rolled: instance.amount,
+    taken: instance.amount,
+    adjustments: []
+  };
+  const precision = Math.min(instance.precision ?? 0, instance.amount);
+  const immunities = defenses.immunities ?? [];
+
+  const immunity = immunities.find((type) => covers(type, instance));
+  if (immunity) {
+    line.taken = 0;
+    line.adjustments.push(`immune to ${immunity}`);
+    return line;
+  }
+  let remainingPrecision = precision;
+  if (precision > 0 && immunities.includes('precision')) {
+    line.taken -= precision;
+    remainingPrecision = 0;
+    line.adjustments.push(`immune to precision −${precision}`);
+  }
+  if (line.taken <= 0) return line;
+
+  const appliesTo = (defense: DamageDefense) =>
+    covers(defense.type, instance) || (defense.type === 'precision' && remainingPrecision > 0);
+
+  const weakness = highest(defenses.weaknesses, appliesTo);
+  if (weakness?.value) {
+    line.taken += weakness.value;
+    line.adjustments.push(`weakness ${weakness.type} +${weakness.value}`);
+  }
+  const resistance = highest(defenses.resistances, appliesTo);
+  if (resistance?.value) {
+    // Resistance to precision only reduces the precision part
+    const limit = resistance.type === 'precision' ? remainingPrecision : line.taken;
+    const reduced = Math.min(resistance.value, limit, line.taken);
+    line.taken -= reduced;
+    line.adjustments.push(`resistance ${resistance.type} −${reduced}`);
+  }
+  return line;
+}
+
+/**
+ * 5e: damage is totalled per type, then immunity, resistance (halved,
+ * rounded down) and vulnerability (doubled), each applying once
+ */
+function resolveByType(instances: DamageInstance[], defenses: DamageDefenses): DamageLine[] {
+  const byType = new Map<string, DamageInstance>();
+  for (const instance of instances) {
+    const existing = byType.get(instance.type);
+    byType.set(
+      instance.type,
+      existing ? { ...existing, amount: existing.amount + instance.amount } : instance
+    );
+  }
+
+  return [...byType.values()].map((instance) => {
+    const line: DamageLine = {
+      type: instance.type,
+      persistent: !!instance.persistent,
+      rolled: instance.amount,
+      taken: instance.amount,
+      adjustments: []
+    };
+    const immunity = (defenses.immunities ?? []).find((type) => covers(type, instance));
+    if (immunity) {
+      line.taken = 0;
+      line.adjustments.push(`immune to ${immunity}`);
+      return line;
+    }
+    const resistance = (defenses.resistances ?? []).find((d) => covers(d.type, instance));
+    if (resistance) {
+      line.taken = Math.floor(line.taken / 2);
+      line.adjustments.push(`resistance ${resistance.type} ½`);
+    }
+    const vulnerability = (defenses.weaknesses ?? []).find((d) => covers(d.type, instance));
+    if (vulnerability) {
+      line.taken *= 2;
+      line.adjustments.push(`vulnerability ${vulnerability.type} ×2`);
+    }
+    return line;
+  });
+}
+
+/**
+ * Works out the damage a character takes from typed damage instances under
+ * a game system's rules: per instance with flat values in PF2e (and for
+ * other systems), halved and doubled per type in 5e
+ * @param instances - The damage dealt, e.g. a weapon's slashing plus its fire rune
+ * @param defenses - The target's immunities, resistances and weaknesses
+ * @param rule - The game system's damage rule, see GameRules
+ * @returns How each instance came out, and the total to subtract from HP
+ */
+export function resolveDamage(
+  instances: DamageInstance[],
+  defenses: DamageDefenses,
+  rule: DamageRule
+): DamageBreakdown {
+  const normalized = instances
+    .filter((instance) => instance.amount > 0)
+    .map((instance) => ({ ...instance, type: instance.type.trim().toLowerCase() || 'untyped' }));
+
+  const lines =
+    rule === 'byType'
+      ? resolveByType(normalized, defenses)
+      : normalized.map((instance) => resolveFlat(instance, defenses));
+  return { lines, total: lines.reduce((sum, line) => sum + line.taken, 0) };
+}
+
+/**
+ * Describes a breakdown for pasting into Discord, e.g.
+ * `12 fire → 7 (resistance fire −5) + 4 slashing = 11 damage`
+ */
+export function formatDamageBreakdown(breakdown: DamageBreakdown): string {
+  if (breakdown.lines.length === 0) return 'No damage';
+  const parts = breakdown.lines.map((line) => {
+    const label = `${line.rolled} ${line.persistent ? 'persistent ' : ''}${line.type}`;
+    return line.adjustments.length > 0
+      ? `${label} → ${line.taken} (${line.adjustments.join(', ')})`
+      : label;
+  });
+  return `${parts.join(' + ')} = ${breakdown.total} damage`;
+}
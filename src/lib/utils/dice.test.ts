@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DiceError, formatRoll, parseDice, rollDice, seededRng, type Rng } from './dice';
+
+/**
+ * Random source that rolls the given faces in order on dice with `sides` sides
+ */
+function faces(sides: number, ...values: number[]): Rng {
+  return () => {
+    const value = values.shift();
+    if (value === undefined) throw new Error('Rolled more dice than expected');
+    return (value - 0.5) / sides;
+  };
+}
+
+describe('parseDice', () => {
+  it('parses keep highest', () => {
+    expect(parseDice('4d6kh3').terms).toEqual([
+      {
+        kind: 'dice',
+        sign: 1,
+        count: 4,
+        sides: 6,
+        explode: false,
+        keep: { highest: true, count: 3 }
+      }
+    ]);
+  });
+
+  it('reads d% as one hundred-sided die', () => {
+    expect(parseDice('d%').terms).toEqual([
+      { kind: 'dice', sign: 1, count: 1, sides: 100, explode: false }
+    ]);
+  });
+
+  it('parses exploding dice and constants', () => {
+    expect(parseDice('1d6! - 2').terms).toEqual([
+      { kind: 'dice', sign: 1, count: 1, sides: 6, explode: true },
+      { kind: 'constant', sign: -1, value: 2 }
+    ]);
+  });
+
+  it('reads dropping dice as keeping the rest', () => {
+    expect(parseDice('4d6dl1').terms[0]).toMatchObject({ keep: { highest: true, count: 3 } });
+    expect(parseDice('2d20dh1').terms[0]).toMatchObject({ keep: { highest: false, count: 1 } });
+  });
+
+  it('cancels fortune and misfortune on the same roll', () => {
+    expect(parseDice('1d20+7 fortune').fortune).toBe('fortune');
+    expect(parseDice('1d20+7 fortune misfortune').fortune).toBeUndefined();
+  });
+
+  it('reads persistent damage and its type', () => {
+    expect(parseDice('2d8+4 persistent fire')).toMatchObject({
+      persistent: true,
+      damageType: 'fire'
+    });
+  });
+
+  it('rejects invalid notation', () => {
+    expect(() => parseDice('')).toThrow(DiceError);
+    expect(() => parseDice('2x6')).toThrow(DiceError);
+    expect(() => parseDice('1d1!')).toThrow(DiceError);
+    expect(() => parseDice('2d6kh3')).toThrow(DiceError);
+    expect(() => parseDice('101d6')).toThrow(DiceError);
+  });
+});
+
+describe('rollDice', () => {
+  it('gives the same rolls for the same seed', () => {
+    const first = rollDice('10d20 + 4d6kh3', seededRng(42));
+    const second = rollDice('10d20 + 4d6kh3', seededRng(42));
+    expect(second).toEqual(first);
+    expect(rollDice('10d20', seededRng(43)).terms).not.toEqual(
+      rollDice('10d20', seededRng(42)).terms
+    );
+  });
+
+  it('keeps the highest dice and drops the rest', () => {
+    const roll = rollDice('4d6kh3', faces(6, 3, 1, 6, 5));
+    expect(roll.total).toBe(14);
+    expect(formatRoll(roll)).toBe('4d6kh3: 4d6kh3[3, (1), 6, 5] = 14');
+  });
+
+  it('keeps the earlier of equal dice', () => {
+    const roll = rollDice('3d6kl1', faces(6, 2, 2, 4));
+    expect(roll.terms[0]).toMatchObject({
+      dice: [
+        { value: 2, kept: true },
+        { value: 2, kept: false },
+        { value: 4, kept: false }
+      ],
+      total: 2
+    });
+  });
+
+  it('adds a die for each highest face', () => {
+    const roll = rollDice('1d6!+1', faces(6, 6, 6, 2));
+    expect(roll.total).toBe(15);
+    expect(formatRoll(roll)).toBe('1d6!+1: 1d6![6!, 6!, 2] + 1 = 15');
+  });
+
+  it('stops exploding after 20 extra dice', () => {
+    const roll = rollDice('1d6!', () => 0.99);
+    const term = roll.terms[0];
+    expect(term.kind === 'dice' && term.dice).toHaveLength(21);
+    expect(roll.total).toBe(21 * 6);
+  });
+
+  it('keeps the better roll with fortune and the worse with misfortune', () => {
+    const fortune = rollDice('1d20+7 fortune', faces(20, 4, 15));
+    expect(fortune.total).toBe(22);
+    expect(fortune.discarded?.total).toBe(11);
+    expect(formatRoll(fortune)).toBe(
+      '1d20+7 fortune: 1d20[15] + 7 = 22 (discarded 1d20[4] + 7 = 11)'
+    );
+
+    const misfortune = rollDice('1d20+7 misfortune', faces(20, 4, 15));
+    expect(misfortune.total).toBe(11);
+    expect(misfortune.discarded?.total).toBe(22);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Returns a number in [0, 1), like Math.random
+ */
+export type Rng = () => number;
+
+/** Largest number of dice in one term, to keep rolls cheap and logs readable */
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+/** A die that keeps exploding stops after this many extra rolls */
+const MAX_EXPLOSIONS = 20;
+
+/**
+ * fortune: roll twice and use the higher total (PF2e fortune effects)
+ * misfortune: roll twice and use the lower total
+ */
+export type RollFortune = 'fortune' | 'misfortune';
+
+/**
+ * One part of a dice expression: dice such as `4d6kh3`, or a constant
+ */
+export type DiceTerm =
+  | {
+      kind: 'dice';
+      sign: 1 | -1;
+      count: number;
+      sides: number;
+      /** Roll another die whenever one shows its highest face */
+      explode: boolean;
+      /** Keep only this many of the highest or lowest dice */
+      keep?: { highest: boolean; count: number };
+    }
+  | { kind: 'constant'; sign: 1 | -1; value: number };
+
+/**
+ * Parsed dice notation
+ */
+export interface DiceExpression {
+  notation: string;
+  terms: DiceTerm[];
+  fortune?: RollFortune;
+  /** PF2e persistent damage */
+  persistent: boolean;
+  /** Damage type written after the dice, e.g. `fire` */
+  damageType?: string;
+}
+
+/**
+ * A single die as rolled
+ */
+export interface DieResult {
+  value: number;
+  /** Whether the die counts toward the total (false when dropped by a keep) */
+  kept: boolean;
+  /** Whether the die showed its highest face and added another die */
+  exploded: boolean;
+}
+
+export type TermResult =
+  | { kind: 'dice'; sign: 1 | -1; notation: string; dice: DieResult[]; total: number }
+  | { kind: 'constant'; sign: 1 | -1; value: number };
+
+/**
+ * An evaluated roll with everything needed to show or log how the total came about
+ */
+export interface DiceRoll {
+  notation: string;
+  total: number;
+  terms: TermResult[];
+  fortune?: RollFortune;
+  /** With fortune or misfortune, the other roll, whose total was not used */
+  discarded?: DiceRoll;
+  persistent: boolean;
+  damageType?: string;
+}
+
+/**
+ * Raised for notation that cannot be parsed
+ */
+export class DiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiceError';
+  }
+}
+
+/** `2d6`, `d%`, `4d6kh3`, `1d6!`, `2d20kl1`; `k` alone keeps the highest */
+const DICE_TERM = /^(\d*)d(\d+|%)(!)?(?:(kh|kl|dh|dl|k)(\d+)?)?$/i;
+const CONSTANT_TERM = /^\d+$/;
+
+/** The arithmetic part of the notation, before any tags */
+const ARITHMETIC = /^\s*[+-]?\s*[\w%!]+(?:\s*[+-]\s*[\w%!]+)*/;
+
+function parseTerm(text: string, sign: 1 | -1): DiceTerm {
+  if (CONSTANT_TERM.test(text)) {
+    return { kind: 'constant', sign, value: Number(text) };
+  }
+  const match = text.match(DICE_TERM);
+  if (!match) {
+    throw new DiceError(`"${text}" is not valid dice notation`);
+  }
+  const [, rawCount, rawSides, explode, keepMode, rawKeep] = match;
+  const count = rawCount ? Number(rawCount) : 1;
+  const sides = rawSides === '%' ? 100 : Number(rawSides);
+  if (count < 1 || count > MAX_DICE) {
+    throw new DiceError(`Roll between 1 and ${MAX_DICE} dice at a time`);
+  }
+  if (sides < 1 || sides > MAX_SIDES) {
+    throw new DiceError(`Dice must have between 1 and ${MAX_SIDES} sides`);
+  }
+  if (explode && sides === 1) {
+    throw new DiceError('A one-sided die cannot explode');
+  }
+
+  const term: DiceTerm = { kind: 'dice', sign, count, sides, explode: !!explode };
+  if (keepMode) {
+    const mode = keepMode.toLowerCase();
+    const n = rawKeep ? Number(rawKeep) : 1;
+    // Dropping n of the highest keeps the rest of the lowest, and vice versa
+    const keep = mode.startsWith('k') ? n : count - n;
+    if (keep < 0 || keep > count) {
+      throw new DiceError(`Cannot keep or drop ${n} of ${count} dice`);
+    }
+    term.keep = { highest: mode === 'kh' || mode === 'k' || mode === 'dl', count: keep };
+  }
+  return term;
+}
+
+/**
+ * Parses dice notation: terms such as `2d6`, `4d6kh3`, `1d6!` and constants
+ * joined by `+` and `-`, followed by optional words: `fortune` or
+ * `misfortune`, `persistent`, and a damage type, e.g. `2d8+4 persistent fire`
+ * @throws {DiceError} If the notation cannot be parsed
+ */
+export function parseDice(notation: string): DiceExpression {
+  const arithmetic = notation.match(ARITHMETIC)?.[0];
+  if (!arithmetic) {
+    throw new DiceError('Enter dice to roll, e.g. 1d20+5');
+  }
+
+  const terms: DiceTerm[] = [];
+  const tokens = arithmetic.replace(/\s+/g, '').match(/[+-]?[^+-]+/g) ?? [];
+  for (const token of tokens) {
+    const sign = token.startsWith('-') ? -1 : 1;
+    terms.push(parseTerm(token.replace(/^[+-]/, ''), sign));
+  }
+
+  const expression: DiceExpression = { notation: notation.trim(), terms, persistent: false };
+  const damageType: string[] = [];
+  const words = notation.slice(arithmetic.length).trim().split(/\s+/).filter(Boolean);
+  for (const word of words) {
+    const tag = word.toLowerCase();
+    if (!/^[a-z-]+$/.test(tag)) {
+      throw new DiceError(`Unexpected "${word}" in dice notation`);
+    }
+    if (tag === 'fortune' || tag === 'misfortune') {
+      // Fortune and misfortune on the same roll cancel out
+      expression.fortune = expression.fortune && expression.fortune !== tag ? undefined : tag;
+    } else if (tag === 'persistent') {
+      expression.persistent = true;
+    } else {
+      damageType.push(tag);
+    }
+  }
+  if (damageType.length > 0) expression.damageType = damageType.join(' ');
+  return expression;
+}
+
+function rollDie(sides: number, rng: Rng): number {
+  return 1 + Math.floor(rng() * sides);
+}
+
+function termNotation(term: Extract<DiceTerm, { kind: 'dice' }>): string {
+  const keep = term.keep ? `${term.keep.highest ? 'kh' : 'kl'}${term.keep.count}` : '';
+  return `${term.count}d${term.sides}${term.explode ? '!' : ''}${keep}`;
+}
+
+function evaluateTerm(term: DiceTerm, rng: Rng): TermResult {
+  if (term.kind === 'constant') return term;
+
+  const dice: DieResult[] = [];
+  for (let i = 0; i < term.count; i++) {
+    let explosions = 0;
+    let value = rollDie(term.sides, rng);
+    while (term.explode && value === term.sides && explosions < MAX_EXPLOSIONS) {
+      dice.push({ value, kept: true, exploded: true });
+      value = rollDie(term.sides, rng);
+      explosions++;
+    }
+    dice.push({ value, kept: true, exploded: false });
+  }
+
+  if (term.keep) {
+    const { highest, count } = term.keep;
+    const order = dice
+      .map((die, index) => ({ die, index }))
+      .sort((a, b) => (highest ? b.die.value - a.die.value : a.die.value - b.die.value) || a.index - b.index);
+    order.slice(count).forEach(({ die }) => (die.kept = false));
+  }
+
+  const total = dice.filter((d) => d.kept).reduce((sum, d) => sum + d.value, 0);
+  return { kind: 'dice', sign: term.sign, notation: termNotation(term), dice, total };
+}
+
+function evaluateOnce(expression: DiceExpression, rng: Rng): DiceRoll {
+  const terms = expression.terms.map((term) => evaluateTerm(term, rng));
+  const total = terms.reduce(
+    (sum, term) => sum + term.sign * (term.kind === 'dice' ? term.total : term.value),
+    0
+  );
+  return {
+    notation: expression.notation,
+    total,
+    terms,
+    persistent: expression.persistent,
+    damageType: expression.damageType
+  };
+}
+
+/**
+ * Rolls a parsed expression. Fortune and misfortune roll it twice and keep
+ * the higher or lower total.
+ * @param rng - Random source; pass seededRng(...) for reproducible rolls
+ */
+export function evaluateDice(expression: DiceExpression, rng: Rng = Math.random): DiceRoll {
+  const first = evaluateOnce(expression, rng);
+  if (!expression.fortune) return first;
+
+  const second = evaluateOnce(expression, rng);
+  const firstWins =
+    expression.fortune === 'fortune' ? first.total >= second.total : first.total <= second.total;
+  const [used, discarded] = firstWins ? [first, second] : [second, first];
+  return { ...used, fortune: expression.fortune, discarded };
+}
+
+/**
+ * Parses and rolls dice notation
+ * @example rollDice('4d6kh3').total
+ * @throws {DiceError} If the notation cannot be parsed
+ */
+export function rollDice(notation: string, rng: Rng = Math.random): DiceRoll {
+  return evaluateDice(parseDice(notation), rng);
+}
+
+/**
+ * Deterministic random source (mulberry32), so the same seed always gives the same rolls
+ */
+export function seededRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function formatTerms(roll: DiceRoll): string {
+  return roll.terms
+    .map((term, index) => {
+      const sign = term.sign < 0 ? '- ' : index > 0 ? '+ ' : '';
+      if (term.kind === 'constant') return `${sign}${term.value}`;
+      // Dropped dice in parentheses, exploded dice marked with !
+      const dice = term.dice.map((d) => {
+        const value = `${d.value}${d.exploded ? '!' : ''}`;
+        return d.kept ? value : `(${value})`;
+      });
+      return `${sign}${term.notation}[${dice.join(', ')}]`;
+    })
+    .join(' ');
+}
+
+/**
+ * Describes a roll for logs, e.g.
+ * `4d6kh3: 4d6kh3[6, 5, 3, (1)] = 14` or
+ * `1d20+7 fortune: 1d20[15] + 7 = 22 (discarded 1d20[4] + 7 = 11)`
+ */
+export function formatRoll(roll: DiceRoll): string {
+  const text = `${roll.notation}: ${formatTerms(roll)} = ${roll.total}`;
+  return roll.discarded
+    ? `${text} (discarded ${formatTerms(roll.discarded)} = ${roll.discarded.total})`
+    : text;
+}
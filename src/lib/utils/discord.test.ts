@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import type { Character, CharacterType, Encounter, EncounterParticipant } from '../types';
+import {
+  DISCORD_MESSAGE_LIMIT,
+  escapeMarkdown,
+  formatInitiativeBlock,
+  formatTurnAnnouncement,
+  formatTurnMentions,
+  hpBand,
+  turnMentionIds
+} from './discord';
+
+function character(id: string, type: CharacterType, extra: Partial<Character> = {}): Character {
+  return {
+    id,
+    instanceId: 'instance',
+    name: id,
+    type,
+    notes: '',
+    hp: { current: 20, max: 30 },
+    ac: 18,
+    ...extra
+  } as Character;
+}
+
+function encounter(participants: EncounterParticipant[], currentTurn = 0): Encounter {
+  return {
+    id: 'encounter',
+    instanceId: 'instance',
+    name: 'Ambush',
+    isActive: true,
+    currentRound: 3,
+    currentTurn,
+    participants,
+    createdAt: new Date(),
+    lastUpdated: new Date()
+  };
+}
+
+const characters = [
+  character('Valeros', 'PC', { discordId: '111' }),
+  character('Ezren', 'PC', { discordId: '222' }),
+  character('Merisiel', 'PC', { discordId: '333' }),
+  character('Hoot', 'Familiar', { relatedCharacterId: 'Ezren' }),
+  character('Goblin', 'NPC')
+];
+
+describe('hpBand', () => {
+  it('describes HP without giving the numbers away', () => {
+    expect(hpBand(30, 30)).toBe('Unhurt');
+    expect(hpBand(20, 30)).toBe('Wounded');
+    expect(hpBand(10, 30)).toBe('Bloodied');
+    expect(hpBand(5, 30)).toBe('Critical');
+    expect(hpBand(0, 30)).toBe('Down');
+  });
+});
+
+describe('escapeMarkdown', () => {
+  it('escapes Discord formatting characters', () => {
+    expect(escapeMarkdown('*Bold* _fight_ at the `gate`')).toBe(
+      '\\*Bold\\* \\_fight\\_ at the \\`gate\\`'
+    );
+  });
+});
+
+describe('formatInitiativeBlock', () => {
+  const fight = encounter(
+    [
+      { characterId: 'Valeros', initiative: 20, conditions: [{ id: 'frightened', value: 2 }] },
+      { characterId: 'Goblin', initiative: 14, readied: 'when Valeros moves' },
+      { characterId: 'Ezren', initiative: 9, delaying: true }
+    ],
+    1
+  );
+  const wounded = characters.map((c) =>
+    c.id === 'Goblin' ? { ...c, hp: { current: 6, max: 30, temp: 0 } } : c
+  );
+
+  it('shows exact numbers and readied triggers to the GM', () => {
+    const [message] = formatInitiativeBlock(fight, wounded, 'pf2e', 'gm');
+    expect(message).toBe(
+      [
+        '**Ambush** — Round 3, initiative 14',
+        '```',
+        '  20  Valeros  HP 20/30  AC 18  [Frightened 2]',
+        '▶ 14  Goblin   HP 6/30  AC 18  Ready: when Valeros moves',
+        '   9  Ezren    HP 20/30  AC 18  (delaying)',
+        '```'
+      ].join('\n')
+    );
+  });
+
+  it("hides enemies' HP, AC and triggers from players", () => {
+    const [message] = formatInitiativeBlock(fight, wounded, 'pf2e', 'player');
+    expect(message).toContain('▶ 14  Goblin   Critical  Ready\n');
+    expect(message).toContain('HP 20/30  AC 18');
+  });
+
+  it('keeps names from closing the code block', () => {
+    const [message] = formatInitiativeBlock(
+      fight,
+      [character('Valeros', 'PC', { name: 'Val```eros' })],
+      'pf2e'
+    );
+    expect(message.match(/```/g)).toHaveLength(2);
+    expect(message).toContain('Unknown');
+  });
+
+  it('splits long encounters into messages within the Discord limit', () => {
+    const crowd = Array.from({ length: 120 }, (_, i) =>
+      character(`Goblin ${i}`, 'NPC', { name: `Goblin warrior ${i}` })
+    );
+    const big = encounter(crowd.map((c, i) => ({ characterId: c.id, initiative: 200 - i })));
+    const messages = formatInitiativeBlock(big, crowd, 'generic', 'gm', '<@111>');
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(messages[0].startsWith('<@111>\n**Ambush** — Round 3')).toBe(true);
+    expect(messages[1].startsWith('**Ambush** (cont.)\n```')).toBe(true);
+    for (const message of messages) {
+      expect(message.length).toBeLessThanOrEqual(DISCORD_MESSAGE_LIMIT);
+      expect(message.endsWith('```')).toBe(true);
+    }
+    expect(messages.join('\n').match(/Goblin warrior/g)).toHaveLength(120);
+  });
+});
+
+describe('formatTurnMentions', () => {
+  it('pings the player who is up and the player on deck', () => {
+    const fight = encounter([
+      { characterId: 'Valeros', initiative: 20 },
+      { characterId: 'Ezren', initiative: 15 },
+      { characterId: 'Goblin', initiative: 10 }
+    ]);
+    expect(formatTurnMentions(fight, characters)).toBe("<@111> you're up!\nOn deck: <@222>");
+  });
+
+  it('pings everyone tied on initiative in one line', () => {
+    const fight = encounter([
+      { characterId: 'Valeros', initiative: 20 },
+      { characterId: 'Ezren', initiative: 20 },
+      { characterId: 'Merisiel', initiative: 12 }
+    ]);
+    expect(formatTurnMentions(fight, characters)).toBe("<@111> <@222> you're up!\nOn deck: <@333>");
+    expect(formatTurnMentions({ ...fight, currentTurn: 1 }, characters)).toBe(
+      "<@111> <@222> you're up!\nOn deck: <@333>"
+    );
+  });
+
+  it('puts everyone at the next initiative on deck', () => {
+    const fight = encounter([
+      { characterId: 'Goblin', initiative: 22 },
+      { characterId: 'Valeros', initiative: 14 },
+      { characterId: 'Merisiel', initiative: 14 }
+    ]);
+    expect(formatTurnMentions(fight, characters)).toBe('On deck: <@111> <@333>');
+  });
+
+  it('puts the top of the next round on deck after the last initiative', () => {
+    const fight = encounter(
+      [
+        { characterId: 'Valeros', initiative: 20 },
+        { characterId: 'Goblin', initiative: 8 },
+        { characterId: 'Merisiel', initiative: 8 }
+      ],
+      2
+    );
+    expect(formatTurnMentions(fight, characters)).toBe("<@333> you're up!\nOn deck: <@111>");
+  });
+
+  it("pings a Familiar's owner once, even when both are up", () => {
+    const fight = encounter([
+      { characterId: 'Ezren', initiative: 16 },
+      { characterId: 'Hoot', initiative: 16 },
+      { characterId: 'Valeros', initiative: 9 }
+    ]);
+    expect(formatTurnMentions(fight, characters)).toBe("<@222> you're up!\nOn deck: <@111>");
+    expect(turnMentionIds(fight, characters)).toEqual(['222', '111']);
+  });
+
+  it('leaves a player acting now off the deck', () => {
+    const fight = encounter([
+      { characterId: 'Ezren', initiative: 16 },
+      { characterId: 'Hoot', initiative: 12 }
+    ]);
+    expect(formatTurnMentions(fight, characters)).toBe("<@222> you're up!");
+  });
+
+  it('skips characters without a valid Discord ID', () => {
+    const fight = encounter([
+      { characterId: 'Goblin', initiative: 16 },
+      { characterId: 'Valeros', initiative: 12 }
+    ]);
+    const sealed = [character('Valeros', 'PC', { discordId: 'v1:sealed' }), characters[4]];
+    expect(formatTurnMentions(fight, sealed)).toBe('');
+    expect(turnMentionIds(fight, sealed)).toEqual([]);
+  });
+});
+
+describe('formatTurnAnnouncement', () => {
+  it('names everyone tied on initiative and starts new rounds', () => {
+    const fight = encounter([
+      { characterId: 'Valeros', initiative: 20 },
+      { characterId: 'Ezren', initiative: 20 },
+      { characterId: 'Goblin', initiative: 5 }
+    ]);
+    const [message] = formatTurnAnnouncement(fight, characters, 'pf2e', true);
+    expect(message).toMatch(/^\*\*Round 3\*\* begins: \*\*Valeros\*\*, \*\*Ezren\*\* are up\n/);
+    expect(message).toContain("<@111> <@222> you're up!");
+  });
+
+  it('names the one creature up', () => {
+    const fight = encounter([
+      { characterId: 'Valeros', initiative: 20 },
+      { characterId: 'Goblin', initiative: 5 }
+    ]);
+    const [message] = formatTurnAnnouncement(
+      { ...fight, currentTurn: 1 },
+      characters,
+      'pf2e',
+      false
+    );
+    expect(message.split('\n')[0]).toBe('**Goblin** is up');
+  });
+});
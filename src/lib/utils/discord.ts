@@ -0,0 +1,272 @@
+import type { Character, Encounter, EncounterParticipant } from '../types';
+import { isRelatedCharacterType } from '../types';
+import { formatCondition } from './conditions';
+import { formatDeathSaves } from './dying';
+import type { GameSystemId } from './gameSystem';
+import { currentParticipant } from './turnOrder';
+
+/** Maximum length of a Discord message */
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+/** Longest name shown before it is cut off, to keep rows aligned */
+const MAX_NAME_LENGTH = 20;
+
+/** Discord user IDs are numeric; anything else, such as a field still encrypted by the vault, is skipped */
+const DISCORD_ID = /^\d+$/;
+
+/**
+ * gm: exact HP and AC for everyone
+ * player: NPCs and Hazards show an HP band instead of numbers, and no AC
+ */
+export type InitiativeBlockVariant = 'gm' | 'player';
+
+/**
+ * Describes current HP as a band, for players who should not see exact numbers
+ */
+export function hpBand(current: number, max: number): string {
+  if (current <= 0) return 'Down';
+  const ratio = max > 0 ? current / max : 1;
+  if (ratio >= 1) return 'Unhurt';
+  if (ratio > 0.5) return 'Wounded';
+  if (ratio > 0.25) return 'Bloodied';
+  return 'Critical';
+}
+
+/**
+ * Escapes Discord markdown in text shown outside a code block
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, '\\$1');
+}
+
+/**
+ * Stops text from closing the code block it is shown in
+ */
+function escapeCodeBlock(text: string): string {
+  return text.replace(/`/g, 'ˋ');
+}
+
+/**
+ * Whether players get exact numbers for a character (the party and its allies)
+ */
+function isPartyMember(character: Character): boolean {
+  return character.type !== 'NPC' && character.type !== 'Hazard';
+}
+
+function formatName(name: string): string {
+  const escaped = escapeCodeBlock(name);
+  return escaped.length > MAX_NAME_LENGTH ? `${escaped.slice(0, MAX_NAME_LENGTH - 1)}…` : escaped;
+}
+
+/**
+ * Formats one participant as a code block row, e.g.
+ * `▶ 18  Valeros   HP 24/30 +5  AC 18  [Frightened 2]  Ready: when the ogre moves`
+ */
+function formatRow(
+  participant: EncounterParticipant,
+  active: boolean,
+  character: Character | undefined,
+  variant: InitiativeBlockVariant,
+  system: GameSystemId,
+  nameWidth: number
+): string {
+  const marker = active ? '▶' : ' ';
+  const initiative = String(participant.initiative).padStart(3);
+  const name = formatName(character?.name ?? 'Unknown').padEnd(nameWidth);
+  const parts = [`${marker}${initiative}  ${name}`];
+
+  if (character) {
+    const exact = variant === 'gm' || isPartyMember(character);
+    const { current, max, temp } = character.hp;
+    parts.push(exact ? `HP ${current}/${max}${temp ? ` +${temp}` : ''}` : hpBand(current, max));
+    if (exact) parts.push(`AC ${character.ac}`);
+  }
+  if (participant.conditions?.length) {
+    const conditions = participant.conditions.map((c) =>
+      escapeCodeBlock(formatCondition(c, system))
+    );
+    parts.push(`[${conditions.join(', ')}]`);
+  }
+  if (participant.dead) parts.push('(dead)');
+  else if (participant.deathSaves) parts.push(formatDeathSaves(participant.deathSaves));
+  if (participant.delaying) parts.push('(delaying)');
+  if (participant.readied) {
+    // Enemy triggers would tip players off
+    const shown = variant === 'gm' || (character && isPartyMember(character));
+    parts.push(shown ? `Ready: ${escapeCodeBlock(participant.readied)}` : 'Ready');
+  }
+  return parts.join('  ');
+}
+
+/**
+ * Renders an encounter's initiative order as Discord markdown. Long
+ * encounters are split into several messages, each within the Discord
+ * message limit and with its own code block.
+ * @param encounter - Encounter to render
+ * @param characters - Characters the participants refer to
+ * @param system - Game system of the encounter's instance, for condition names
+ * @param variant - Whether to show exact numbers for enemies
+ * @param lead - Line shown above the first message's header
+ * @returns One or more messages, in posting order
+ */
+export function formatInitiativeBlock(
+  encounter: Encounter,
+  characters: Character[],
+  system: GameSystemId,
+  variant: InitiativeBlockVariant = 'gm',
+  lead?: string
+): string[] {
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const participants = encounter.participants;
+  const nameWidth = Math.max(
+    0,
+    ...participants.map((p) => formatName(byId.get(p.characterId)?.name ?? 'Unknown').length)
+  );
+
+  const title = `**${escapeMarkdown(encounter.name)}**`;
+  const initiative = currentParticipant(encounter)?.initiative;
+  const position = initiative !== undefined ? `, initiative ${initiative}` : '';
+  const header = `${title} — Round ${encounter.currentRound}${position}`;
+  const rows = participants.map((p, index) =>
+    formatRow(
+      p,
+      index === encounter.currentTurn,
+      byId.get(p.characterId),
+      variant,
+      system,
+      nameWidth
+    )
+  );
+  if (rows.length === 0) rows.push('No participants');
+
+  const open = '```\n';
+  const close = '```';
+  const messages: string[] = [];
+  let current: string[] = [];
+  let prefix = lead ? `${lead}\n${header}\n` : `${header}\n`;
+
+  const flush = () => {
+    messages.push(`${prefix}${open}${current.join('\n')}\n${close}`);
+    current = [];
+    prefix = `${title} (cont.)\n`;
+  };
+  const length = (lines: string[]) =>
+    prefix.length + open.length + lines.join('\n').length + 1 + close.length;
+
+  for (const row of rows) {
+    const budget = DISCORD_MESSAGE_LIMIT - length([]);
+    const line = row.length > budget ? `${row.slice(0, budget - 1)}…` : row;
+    if (current.length > 0 && length([...current, line]) > DISCORD_MESSAGE_LIMIT) {
+      flush();
+    }
+    current.push(line);
+  }
+  flush();
+
+  return messages;
+}
+
+/**
+ * Discord ID of the player who controls a character: its own, or for a
+ * Familiar, Eidolon or Companion, that of the character it belongs to
+ */
+function playerDiscordId(character: Character, byId: Map<string, Character>): string | undefined {
+  const owner =
+    isRelatedCharacterType(character.type) && character.relatedCharacterId
+      ? byId.get(character.relatedCharacterId)
+      : undefined;
+  return [character.discordId, owner?.discordId].find((id) => id && DISCORD_ID.test(id));
+}
+
+/**
+ * Participants acting at the initiative of the creature whose turn it is,
+ * who are pinged and announced together
+ */
+function actingTogether(encounter: Encounter): EncounterParticipant[] {
+  const acting = currentParticipant(encounter);
+  return acting ? encounter.participants.filter((p) => p.initiative === acting.initiative) : [];
+}
+
+/**
+ * Discord IDs of the players controlling some participants, each player once
+ */
+function playersOf(participants: EncounterParticipant[], byId: Map<string, Character>): string[] {
+  const ids = participants
+    .map((p) => byId.get(p.characterId))
+    .map((c) => c && playerDiscordId(c, byId));
+  return [...new Set(ids)].filter((id): id is string => !!id);
+}
+
+/**
+ * Discord IDs of the players acting at the current initiative, and of those
+ * at the next initiative "on deck". A player acting now is not also on deck.
+ */
+function turnPlayers(encounter: Encounter, characters: Character[]) {
+  const byId = new Map(characters.map((c) => [c.id, c]));
+  const acting = actingTogether(encounter);
+  const up = playersOf(acting, byId);
+  // The next initiative down, or after the last one the top of the next round
+  const next =
+    encounter.participants.slice(encounter.currentTurn).find((p) => !acting.includes(p)) ??
+    encounter.participants.find((p) => !acting.includes(p));
+  const onDeck = next
+    ? playersOf(
+        encounter.participants.filter((p) => p.initiative === next.initiative),
+        byId
+      ).filter((id) => !up.includes(id))
+    : [];
+  return { up, onDeck };
+}
+
+/**
+ * Builds the ping for a turn change: everyone acting at the current
+ * initiative in one line, then the players at the next initiative "on deck"
+ * so they can prepare, e.g.
+ * `<@123> <@456> you're up!` / `On deck: <@789>`
+ * @param encounter - Encounter after the change
+ * @param characters - Characters the participants refer to, and the PCs
+ *   that own their Familiars, Eidolons and Companions
+ * @returns The ping text, empty if nobody involved has a Discord ID
+ */
+export function formatTurnMentions(encounter: Encounter, characters: Character[]): string {
+  const { up, onDeck } = turnPlayers(encounter, characters);
+  const lines: string[] = [];
+  if (up.length > 0) lines.push(`${up.map((id) => `<@${id}>`).join(' ')} you're up!`);
+  if (onDeck.length > 0) lines.push(`On deck: ${onDeck.map((id) => `<@${id}>`).join(' ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * Discord IDs formatTurnMentions pings, so a post can allow exactly those mentions
+ */
+export function turnMentionIds(encounter: Encounter, characters: Character[]): string[] {
+  const { up, onDeck } = turnPlayers(encounter, characters);
+  return [...up, ...onDeck];
+}
+
+/**
+ * Renders a turn or round change for posting to the players' channel, e.g.
+ * `**Round 3** begins: **Valeros** is up` and the players' ping above the
+ * player initiative block. Uses the player variant, so GM-only values are
+ * never included.
+ * @param encounter - Encounter after the change
+ * @param system - Game system of the encounter's instance
+ * @param newRound - Whether the change started a new round
+ */
+export function formatTurnAnnouncement(
+  encounter: Encounter,
+  characters: Character[],
+  system: GameSystemId,
+  newRound: boolean
+): string[] {
+  const acting = actingTogether(encounter)
+    .map((p) => characters.find((c) => c.id === p.characterId)?.name ?? 'Unknown')
+    .map((name) => `**${escapeMarkdown(name)}**`);
+  const up = `${acting.join(', ')} ${acting.length === 1 ? 'is' : 'are'} up`;
+  const mentions = formatTurnMentions(encounter, characters);
+  const lead = [newRound ? `**Round ${encounter.currentRound}** begins: ${up}` : up, mentions]
+    .filter(Boolean)
+    .join('\n');
+
+  return formatInitiativeBlock(encounter, characters, system, 'player', lead);
+}
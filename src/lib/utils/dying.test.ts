@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { EncounterParticipant, ParticipantCondition } from '../types';
+import { GAME_RULES } from '../rules';
+import {
+  formatDeathSaves,
+  knockOut,
+  needsRecoveryCheck,
+  recover,
+  recoveryCheck,
+  type KnockoutState
+} from './dying';
+
+const pf2e = GAME_RULES.pf2e;
+const dnd5e = GAME_RULES.dnd5e;
+const pc = { type: 'PC' as const };
+
+function participant(state: KnockoutState = {}): EncounterParticipant {
+  return { characterId: 'valeros', initiative: 15, ...state };
+}
+
+function valueOf(state: KnockoutState, id: string): number | undefined {
+  return state.conditions?.find((c) => c.id === id)?.value;
+}
+
+function has(state: KnockoutState, id: string): boolean {
+  return !!state.conditions?.some((c) => c.id === id);
+}
+
+const dyingAt = (dying: number, ...others: ParticipantCondition[]) =>
+  participant({ conditions: [{ id: 'dying', value: dying }, { id: 'unconscious' }, ...others] });
+
+describe('knockOut (PF2e)', () => {
+  const hit = { hpBefore: 5, hpDamage: 8, maxHp: 30, critical: false };
+  const crit = { ...hit, critical: true };
+
+  it('gives dying 1, or dying 2 on a critical hit, and knocks the creature out', () => {
+    const state = knockOut(participant(), pc, pf2e, hit);
+    expect(valueOf(state, 'dying')).toBe(1);
+    expect(has(state, 'unconscious')).toBe(true);
+    expect(state.dead).toBeUndefined();
+    expect(valueOf(knockOut(participant(), pc, pf2e, crit), 'dying')).toBe(2);
+  });
+
+  it('adds the wounded value', () => {
+    const wounded = participant({ conditions: [{ id: 'wounded', value: 1 }] });
+    expect(valueOf(knockOut(wounded, pc, pf2e, crit), 'dying')).toBe(3);
+  });
+
+  it('raises dying when a dying creature is hit', () => {
+    const atZero = { ...hit, hpBefore: 0 };
+    expect(valueOf(knockOut(dyingAt(1), pc, pf2e, atZero), 'dying')).toBe(2);
+    expect(valueOf(knockOut(dyingAt(1), pc, pf2e, { ...atZero, critical: true }), 'dying')).toBe(3);
+  });
+
+  it('kills at dying 4', () => {
+    const state = knockOut(dyingAt(3), pc, pf2e, { ...hit, hpBefore: 0 });
+    expect(valueOf(state, 'dying')).toBe(4);
+    expect(state.dead).toBe(true);
+  });
+
+  it('kills sooner by the doomed value', () => {
+    const doomed = participant({ conditions: [{ id: 'doomed', value: 1 }] });
+    expect(knockOut(doomed, pc, pf2e, crit).dead).toBeUndefined();
+    const doomedAndWounded = participant({
+      conditions: [
+        { id: 'doomed', value: 1 },
+        { id: 'wounded', value: 1 }
+      ]
+    });
+    expect(knockOut(doomedAndWounded, pc, pf2e, crit).dead).toBe(true);
+    const doomed3 = participant({ conditions: [{ id: 'doomed', value: 3 }] });
+    expect(knockOut(doomed3, pc, pf2e, hit).dead).toBe(true);
+  });
+
+  it('kills NPCs outright', () => {
+    expect(knockOut(participant(), { type: 'NPC' }, pf2e, hit)).toEqual({ dead: true });
+  });
+});
+
+describe('recoveryCheck (PF2e)', () => {
+  it('lowers dying by 1 on a success, losing it with wounded 1 at 0', () => {
+    const { state } = recoveryCheck(dyingAt(1), pf2e, 11);
+    expect(has(state, 'dying')).toBe(false);
+    expect(valueOf(state, 'wounded')).toBe(1);
+    expect(has(state, 'unconscious')).toBe(true);
+  });
+
+  it('upgrades a natural 20 and downgrades a natural 1', () => {
+    expect(valueOf(recoveryCheck(dyingAt(3), pf2e, 20).state, 'dying')).toBe(1);
+    expect(valueOf(recoveryCheck(dyingAt(1), pf2e, 1).state, 'dying')).toBe(3);
+  });
+
+  it('raises dying by 1 on a failure', () => {
+    const { state } = recoveryCheck(dyingAt(2), pf2e, 5);
+    expect(valueOf(state, 'dying')).toBe(3);
+    expect(state.dead).toBeUndefined();
+  });
+});
+
+describe('recover', () => {
+  it('ends dying and unconsciousness, raising wounded', () => {
+    const state = recover(dyingAt(2, { id: 'wounded', value: 1 }), pf2e);
+    expect(has(state, 'dying')).toBe(false);
+    expect(has(state, 'unconscious')).toBe(false);
+    expect(valueOf(state, 'wounded')).toBe(2);
+  });
+
+  it('leaves a dead creature dead', () => {
+    const dead = participant({ ...dyingAt(4), dead: true });
+    const state = recover(dead, pf2e);
+    expect(state.dead).toBe(true);
+    expect(valueOf(state, 'dying')).toBe(4);
+    expect(recover({ ...dead, deathSaves: { successes: 0, failures: 3 } }, dnd5e).dead).toBe(true);
+  });
+});
+
+describe('knockOut (5e)', () => {
+  it('starts death saves when damage takes the creature to 0 HP', () => {
+    const state = knockOut(participant(), pc, dnd5e, {
+      hpBefore: 5,
+      hpDamage: 19,
+      maxHp: 15,
+      critical: false
+    });
+    expect(state.deathSaves).toEqual({ successes: 0, failures: 0 });
+    expect(has(state, 'unconscious')).toBe(true);
+    expect(state.dead).toBeUndefined();
+  });
+
+  it('kills outright when the damage left over is at least the maximum HP', () => {
+    const state = knockOut(participant(), pc, dnd5e, {
+      hpBefore: 5,
+      hpDamage: 20,
+      maxHp: 15,
+      critical: false
+    });
+    expect(state.dead).toBe(true);
+  });
+
+  it('ends being stable with a failed save when a stable creature is hit', () => {
+    const stable = participant({
+      conditions: [{ id: 'unconscious' }],
+      deathSaves: { successes: 3, failures: 1 }
+    });
+    const damage = { hpBefore: 0, hpDamage: 4, maxHp: 15, critical: false };
+    const state = knockOut(stable, pc, dnd5e, damage);
+    expect(state.deathSaves).toEqual({ successes: 0, failures: 2 });
+    expect(needsRecoveryCheck({ ...stable, ...state }, dnd5e)).toBe(true);
+    expect(knockOut(stable, pc, dnd5e, { ...damage, critical: true }).dead).toBe(true);
+  });
+});
+
+describe('recoveryCheck (5e)', () => {
+  const saving = participant({
+    conditions: [{ id: 'unconscious' }],
+    deathSaves: { successes: 1, failures: 1 }
+  });
+
+  it('counts 10 or higher as a success', () => {
+    expect(recoveryCheck(saving, dnd5e, 10).state.deathSaves).toEqual({
+      successes: 2,
+      failures: 1
+    });
+  });
+
+  it('counts a natural 1 as two failures', () => {
+    const { state } = recoveryCheck(saving, dnd5e, 1);
+    expect(state.deathSaves).toEqual({ successes: 1, failures: 3 });
+    expect(state.dead).toBe(true);
+  });
+
+  it('regains 1 HP on a natural 20', () => {
+    const { state, regainHp } = recoveryCheck(saving, dnd5e, 20);
+    expect(regainHp).toBe(1);
+    expect(state.deathSaves).toBeUndefined();
+    expect(has(state, 'unconscious')).toBe(false);
+  });
+
+  it('stops once the creature is stable', () => {
+    const stable = { ...saving, deathSaves: { successes: 3, failures: 0 } };
+    expect(needsRecoveryCheck(stable, dnd5e)).toBe(false);
+    expect(formatDeathSaves(stable.deathSaves)).toBe('Death saves 3✓ 0✗');
+  });
+});
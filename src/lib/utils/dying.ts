@@ -0,0 +1,232 @@
+import type { Character, DeathSaves, EncounterParticipant, ParticipantCondition } from '../types';
+import type { GameRules } from '../rules';
+import { applyCondition, removeCondition, setConditionValue } from './conditions';
+
+/**
+ * The parts of a participant that say how close to death it is
+ */
+export type KnockoutState = Pick<EncounterParticipant, 'conditions' | 'deathSaves' | 'dead'>;
+
+/**
+ * Damage that reached a creature's HP, after temporary HP
+ */
+export interface KnockoutDamage {
+  /** HP before the damage */
+  hpBefore: number;
+  /** Damage taken from HP, including any beyond what took it to 0 */
+  hpDamage: number;
+  maxHp: number;
+  critical: boolean;
+}
+
+/**
+ * Result of a recovery check (PF2e) or death save (5e)
+ */
+export interface RecoveryResult {
+  state: KnockoutState;
+  /** HP the creature regains, on a natural 20 death save */
+  regainHp?: number;
+}
+
+function valueOf(conditions: ParticipantCondition[] | undefined, id: string): number {
+  return conditions?.find((c) => c.id === id)?.value ?? 0;
+}
+
+function stateOf(participant: EncounterParticipant): KnockoutState {
+  const { conditions, deathSaves, dead } = participant;
+  return { conditions, deathSaves, dead };
+}
+
+function withConditions(state: KnockoutState, conditions: ParticipantCondition[]): KnockoutState {
+  return { ...state, conditions: conditions.length ? conditions : undefined };
+}
+
+/**
+ * Sets dying, keeping the creature unconscious; it dies once dying reaches
+ * the maximum less its doomed value
+ */
+function setDying(state: KnockoutState, rules: GameRules, maxDying: number, value: number) {
+  const deathAt = Math.max(maxDying - valueOf(state.conditions, 'doomed'), 1);
+  let conditions = setConditionValue(state.conditions ?? [], rules.id, 'dying', value);
+  conditions = applyCondition(conditions, rules.id, 'unconscious');
+  return { ...withConditions(state, conditions), dead: value >= deathAt || undefined };
+}
+
+/**
+ * Removes dying, raising wounded by 1 as losing dying always does in PF2e
+ */
+function loseDying(conditions: ParticipantCondition[], rules: GameRules) {
+  const wounded = valueOf(conditions, 'wounded');
+  return setConditionValue(
+    removeCondition(conditions, rules.id, 'dying'),
+    rules.id,
+    'wounded',
+    wounded + 1
+  );
+}
+
+/**
+ * Whether a character just dies at 0 HP rather than following the dying rules
+ */
+export function diesAtZero(character: Pick<Character, 'type'>): boolean {
+  return character.type === 'NPC' || character.type === 'Hazard';
+}
+
+/**
+ * Works out a creature's state after damage took it to 0 HP, or hit it
+ * while already there. NPCs and hazards die outright. In PF2e the creature
+ * gains dying 1 plus its wounded value (2 on a critical hit), or dying
+ * rises by 1 (2) if it already has it. In 5e it falls unconscious and
+ * makes death saves; damage at 0 HP is a failed save (two on a critical
+ * hit), and damage beyond 0 HP of at least its maximum HP kills it.
+ */
+export function knockOut(
+  participant: EncounterParticipant,
+  character: Pick<Character, 'type'>,
+  rules: GameRules,
+  damage: KnockoutDamage
+): KnockoutState {
+  const state = stateOf(participant);
+  if (participant.dead || damage.hpDamage <= 0) return state;
+  if (diesAtZero(character)) return { ...state, dead: true };
+
+  const { dying } = rules;
+  const increase = damage.critical ? 2 : 1;
+  switch (dying.model) {
+    case 'dying': {
+      const current = valueOf(participant.conditions, 'dying');
+      const value =
+        current > 0 ? current + increase : increase + valueOf(participant.conditions, 'wounded');
+      return setDying(state, rules, dying.maxDying, Math.min(value, dying.maxDying));
+    }
+    case 'deathSaves': {
+      if (damage.hpDamage - damage.hpBefore >= damage.maxHp) return { ...state, dead: true };
+      const unconscious = withConditions(
+        state,
+        applyCondition(participant.conditions ?? [], rules.id, 'unconscious')
+      );
+      if (damage.hpBefore > 0) return { ...unconscious, deathSaves: { successes: 0, failures: 0 } };
+
+      // Taking damage ends being stable
+      const saves = participant.deathSaves ?? { successes: 0, failures: 0 };
+      const failures = Math.min(saves.failures + increase, dying.saves);
+      return {
+        ...unconscious,
+        deathSaves: {
+          successes: saves.successes >= dying.saves ? 0 : saves.successes,
+          failures
+        },
+        dead: failures >= dying.saves || undefined
+      };
+    }
+    default:
+      return state;
+  }
+}
+
+/**
+ * Works out a creature's state after healing brings it back above 0 HP:
+ * dying (raising wounded), death saves and unconsciousness from being at
+ * 0 HP end. Healing does not raise the dead, so a dead creature is unchanged.
+ */
+export function recover(participant: EncounterParticipant, rules: GameRules): KnockoutState {
+  if (participant.dead) return stateOf(participant);
+  let conditions = participant.conditions ?? [];
+  if (valueOf(conditions, 'dying') > 0) conditions = loseDying(conditions, rules);
+  conditions = removeCondition(conditions, rules.id, 'unconscious');
+  return {
+    ...withConditions(stateOf(participant), conditions),
+    deathSaves: undefined
+  };
+}
+
+/**
+ * Whether a creature makes a recovery check (PF2e) or death save (5e) at
+ * the start of its turn: it is dying, or at 0 HP and not yet stable
+ */
+export function needsRecoveryCheck(participant: EncounterParticipant, rules: GameRules): boolean {
+  if (participant.dead) return false;
+  const { dying } = rules;
+  switch (dying.model) {
+    case 'dying':
+      return valueOf(participant.conditions, 'dying') > 0;
+    case 'deathSaves':
+      return (
+        !!participant.deathSaves &&
+        participant.deathSaves.successes < dying.saves &&
+        participant.deathSaves.failures < dying.saves
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies a recovery check or death save
+ * @param roll - The d20 rolled
+ * @description PF2e: a flat check against DC 10 + dying; dying falls by 1
+ * on a success and 2 on a critical success, and rises by 1 on a failure and
+ * 2 on a critical failure. Reaching dying 0 leaves the creature unconscious
+ * at 0 HP with wounded raised by 1. 5e: 10 or higher succeeds, a natural 1
+ * counts as two failures and a natural 20 regains 1 HP.
+ */
+export function recoveryCheck(
+  participant: EncounterParticipant,
+  rules: GameRules,
+  roll: number
+): RecoveryResult {
+  const state = stateOf(participant);
+  const { dying } = rules;
+  switch (dying.model) {
+    case 'dying': {
+      const current = valueOf(participant.conditions, 'dying');
+      const dc = 10 + current;
+      let degree = roll >= dc + 10 ? 3 : roll >= dc ? 2 : roll <= dc - 10 ? 0 : 1;
+      if (roll === 20) degree = Math.min(degree + 1, 3);
+      if (roll === 1) degree = Math.max(degree - 1, 0);
+
+      const value = current + [2, 1, -1, -2][degree];
+      if (value <= 0) {
+        return { state: withConditions(state, loseDying(participant.conditions ?? [], rules)) };
+      }
+      return { state: setDying(state, rules, dying.maxDying, Math.min(value, dying.maxDying)) };
+    }
+    case 'deathSaves': {
+      if (roll === 20) return { state: recover(participant, rules), regainHp: 1 };
+      const saves = participant.deathSaves ?? { successes: 0, failures: 0 };
+      if (roll >= 10) {
+        return { state: { ...state, deathSaves: { ...saves, successes: saves.successes + 1 } } };
+      }
+      const failures = Math.min(saves.failures + (roll === 1 ? 2 : 1), dying.saves);
+      return {
+        state: {
+          ...state,
+          deathSaves: { ...saves, failures },
+          dead: failures >= dying.saves || undefined
+        }
+      };
+    }
+    default:
+      return { state };
+  }
+}
+
+/**
+ * The knockout values of a participant, for the combat log
+ */
+export function knockoutSummary(state: KnockoutState): Record<string, number | undefined> {
+  return {
+    dying: valueOf(state.conditions, 'dying') || undefined,
+    wounded: valueOf(state.conditions, 'wounded') || undefined,
+    successes: state.deathSaves?.successes,
+    failures: state.deathSaves?.failures,
+    dead: state.dead ? 1 : undefined
+  };
+}
+
+/**
+ * Describes death saves, e.g. "Death saves 2✓ 1✗"
+ */
+export function formatDeathSaves(saves: DeathSaves): string {
+  return `Death saves ${saves.successes}✓ ${saves.failures}✗`;
+}
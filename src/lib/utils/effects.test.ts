@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { Encounter, EffectExpiry, ParticipantEffect } from '../types';
+import {
+  effectExpiry,
+  effectsEndingThisTurn,
+  expireEffects,
+  formatEffect,
+  hasExpired
+} from './effects';
+
+/**
+ * An encounter with Amiri (initiative 20), the Bandit (15) and the Cleric (10)
+ */
+function encounter(currentTurn: number, currentRound = 1): Encounter {
+  return {
+    id: 'encounter',
+    instanceId: 'instance',
+    name: 'Ambush',
+    isActive: true,
+    currentRound,
+    currentTurn,
+    participants: [
+      { characterId: 'amiri', initiative: 20 },
+      { characterId: 'bandit', initiative: 15 },
+      { characterId: 'cleric', initiative: 10 }
+    ],
+    createdAt: new Date(),
+    lastUpdated: new Date()
+  };
+}
+
+const INITIATIVE: Record<string, number> = { amiri: 20, bandit: 15, cleric: 10 };
+
+/**
+ * An effect ending at the start or end of a participant's turn in a round
+ */
+function effect(
+  name: string,
+  characterId: string,
+  round: number,
+  boundary: EffectExpiry['boundary']
+): ParticipantEffect {
+  return {
+    id: name,
+    name,
+    duration: { value: 1, unit: 'rounds' },
+    expiresAt: { round, characterId, initiative: INITIATIVE[characterId], boundary }
+  };
+}
+
+describe('effectExpiry', () => {
+  it('ends "until the end of your next turn" after the anchor acts again', () => {
+    const anchor = { characterId: 'bandit', initiative: 15 };
+    expect(effectExpiry(encounter(1), { value: 1, unit: 'rounds' }, anchor, 'end')).toEqual({
+      round: 2,
+      characterId: 'bandit',
+      initiative: 15,
+      boundary: 'end'
+    });
+  });
+
+  it('counts the anchor turn still to come this round as the first', () => {
+    const anchor = { characterId: 'cleric', initiative: 10 };
+    expect(effectExpiry(encounter(1), { value: 1, unit: 'rounds' }, anchor, 'end').round).toBe(1);
+    expect(effectExpiry(encounter(1), { value: 3, unit: 'rounds' }, anchor, 'end').round).toBe(3);
+  });
+
+  it('counts a minute as 10 rounds', () => {
+    const anchor = { characterId: 'amiri', initiative: 20 };
+    expect(effectExpiry(encounter(1), { value: 1, unit: 'minutes' }, anchor, 'start').round).toBe(
+      11
+    );
+  });
+});
+
+describe('hasExpired', () => {
+  const atBandit = (boundary: EffectExpiry['boundary']) => effect('Bless', 'bandit', 2, boundary);
+
+  it('ends an effect at the end of the anchor turn once the next turn starts', () => {
+    expect(hasExpired(atBandit('end'), encounter(0, 2), { round: 2, turn: 1 })).toBe(false);
+    expect(hasExpired(atBandit('end'), encounter(1, 2), { round: 2, turn: 2 })).toBe(true);
+  });
+
+  it('ends an effect at the start of the anchor turn as that turn starts', () => {
+    expect(hasExpired(atBandit('start'), encounter(0, 2), { round: 2, turn: 1 })).toBe(true);
+    expect(hasExpired(atBandit('start'), encounter(2, 1), { round: 2, turn: 0 })).toBe(false);
+  });
+
+  it('falls back to the initiative of an anchor that left the encounter', () => {
+    // Initiative 12 falls between the Bandit (15) and the Cleric (10)
+    const gone = effect('Haste', 'rogue', 1, 'end');
+    gone.expiresAt.initiative = 12;
+    expect(hasExpired(gone, encounter(0), { round: 1, turn: 1 })).toBe(false);
+    expect(hasExpired(gone, encounter(1), { round: 1, turn: 2 })).toBe(true);
+  });
+});
+
+describe('expireEffects', () => {
+  it('splits running effects from those that ended', () => {
+    const ended = effect('Shield', 'amiri', 1, 'end');
+    const running = effect('Bless', 'amiri', 2, 'end');
+    expect(expireEffects([ended, running], encounter(0), { round: 1, turn: 1 })).toEqual({
+      remaining: [running],
+      expired: [ended]
+    });
+  });
+});
+
+describe('effectsEndingThisTurn', () => {
+  it('lists effects ending at the end of this turn or the start of the next', () => {
+    const current = encounter(1);
+    const endOfBandit = effect('Rage', 'bandit', 1, 'end');
+    const startOfCleric = effect('Mark', 'cleric', 1, 'start');
+    const endOfCleric = effect('Bless', 'cleric', 1, 'end');
+    current.participants[0].effects = [endOfBandit, endOfCleric];
+    current.participants[2].effects = [startOfCleric];
+
+    expect(effectsEndingThisTurn(current)).toEqual([
+      { characterId: 'amiri', effect: endOfBandit },
+      { characterId: 'cleric', effect: startOfCleric }
+    ]);
+  });
+});
+
+describe('formatEffect', () => {
+  it('shows the rounds left', () => {
+    const bless = effect('Bless', 'amiri', 3, 'end');
+    expect(formatEffect(bless, encounter(0))).toBe('Bless (2 rounds)');
+    expect(formatEffect(bless, encounter(0, 2))).toBe('Bless (1 round)');
+    expect(formatEffect(bless, encounter(0, 3))).toBe('Bless (ends this round)');
+  });
+});
@@ -0,0 +1,96 @@
+import type { EffectDuration, EffectExpiry, Encounter, ParticipantEffect } from '../types';
+import { compareTurns, nextTurnPosition, turnOf, type TurnPosition } from './turnOrder';
+
+export const ROUNDS_PER_MINUTE = 10;
+
+/**
+ * An effect together with the participant it affects
+ */
+export interface ParticipantEffectRef {
+  characterId: string;
+  effect: ParticipantEffect;
+}
+
+export function durationInRounds(duration: EffectDuration): number {
+  return duration.unit === 'minutes' ? duration.value * ROUNDS_PER_MINUTE : duration.value;
+}
+
+/**
+ * Works out when an effect created now ends, counting the duration in turns
+ * of the anchor creature. "Until the end of the caster's next turn" is
+ * 1 round ending at the end of the caster's turn; a 1-minute spell is
+ * 10 rounds ending at the start of it. If the anchor has yet to act this
+ * round, that turn is the first one counted.
+ * @param anchor - Creature the effect is counted against, usually the source
+ */
+export function effectExpiry(
+  encounter: Encounter,
+  duration: EffectDuration,
+  anchor: Pick<EffectExpiry, 'characterId' | 'initiative'>,
+  boundary: EffectExpiry['boundary']
+): EffectExpiry {
+  const rounds = durationInRounds(duration);
+  const anchorStillToAct = turnOf(encounter, anchor) > encounter.currentTurn;
+  return {
+    round: encounter.currentRound + (anchorStillToAct ? Math.max(rounds - 1, 0) : rounds),
+    ...anchor,
+    boundary
+  };
+}
+
+/**
+ * Whether an effect has ended once the turn at `now` starts
+ */
+export function hasExpired(
+  effect: ParticipantEffect,
+  encounter: Encounter,
+  now: TurnPosition
+): boolean {
+  const { round, boundary } = effect.expiresAt;
+  const order = compareTurns({ round, turn: turnOf(encounter, effect.expiresAt) }, now);
+  return order < 0 || (order === 0 && boundary === 'start');
+}
+
+/**
+ * Splits effects into those still running when the turn at `now` starts and those that ended
+ */
+export function expireEffects(
+  effects: ParticipantEffect[],
+  encounter: Encounter,
+  now: TurnPosition
+): { remaining: ParticipantEffect[]; expired: ParticipantEffect[] } {
+  return {
+    remaining: effects.filter((effect) => !hasExpired(effect, encounter, now)),
+    expired: effects.filter((effect) => hasExpired(effect, encounter, now))
+  };
+}
+
+/**
+ * Rounds left before the effect's final round; 0 means it ends this round
+ */
+export function roundsRemaining(effect: ParticipantEffect, encounter: Encounter): number {
+  return Math.max(effect.expiresAt.round - encounter.currentRound, 0);
+}
+
+/**
+ * Displays an effect with the time it has left, e.g. "Bless (3 rounds)"
+ */
+export function formatEffect(effect: ParticipantEffect, encounter: Encounter): string {
+  const rounds = roundsRemaining(effect, encounter);
+  if (rounds === 0) return `${effect.name} (ends this round)`;
+  return `${effect.name} (${rounds} ${rounds === 1 ? 'round' : 'rounds'})`;
+}
+
+/**
+ * Effects that end when the turn passes: those lasting until the end of
+ * the current turn and those ending at the start of the next one
+ */
+export function effectsEndingThisTurn(encounter: Encounter): ParticipantEffectRef[] {
+  if (encounter.participants.length === 0) return [];
+  const next = nextTurnPosition(encounter);
+  return encounter.participants.flatMap((p) =>
+    (p.effects ?? [])
+      .filter((effect) => hasExpired(effect, encounter, next))
+      .map((effect) => ({ characterId: p.characterId, effect }))
+  );
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { Character, CharacterType, Encounter } from '../types';
+import { GAME_RULES } from '../rules';
+import { formatChallengeRating, formatEncounterRating, rateEncounter } from './encounterBudget';
+
+function character(
+  id: string,
+  type: CharacterType,
+  stats: Pick<Character, 'level' | 'challengeRating'>
+): Character {
+  return {
+    id,
+    instanceId: 'instance',
+    name: id,
+    type,
+    notes: '',
+    hp: { current: 10, max: 10 },
+    ac: 15,
+    lastUpdated: new Date(),
+    ...stats
+  };
+}
+
+/**
+ * Rates an encounter between the given characters
+ */
+function rate(system: 'pf2e' | 'dnd5e' | 'generic', characters: Character[]) {
+  const encounter: Encounter = {
+    id: 'encounter',
+    instanceId: 'instance',
+    name: 'Ambush',
+    isActive: true,
+    currentRound: 1,
+    currentTurn: 0,
+    participants: characters.map((c) => ({ characterId: c.id, initiative: 10 })),
+    createdAt: new Date(),
+    lastUpdated: new Date()
+  };
+  return rateEncounter(encounter, new Map(characters.map((c) => [c.id, c])), GAME_RULES[system]);
+}
+
+const party = (size: number, level: number) =>
+  Array.from({ length: size }, (_, i) => character(`pc${i}`, 'PC', { level }));
+
+describe('rateEncounter (PF2e)', () => {
+  it('costs creatures by level against the party level', () => {
+    const rating = rate('pf2e', [
+      ...party(4, 3),
+      character('ogre', 'NPC', { level: 4 }),
+      character('goblin', 'NPC', { level: 1 })
+    ]);
+    expect(rating).toMatchObject({ xp: 80, difficulty: 'moderate', partyAward: 80 });
+    expect(formatEncounterRating(rating!)).toBe('Moderate (80 XP)');
+  });
+
+  it('treats creatures beyond +4 as +4 and those below -4 as free', () => {
+    const rating = rate('pf2e', [
+      ...party(4, 5),
+      character('dragon', 'NPC', { level: 12 }),
+      character('rat', 'NPC', { level: 0 })
+    ]);
+    expect(rating?.xp).toBe(160);
+  });
+
+  it('adjusts budgets for the party size and awards XP as for four', () => {
+    const rating = rate('pf2e', [...party(5, 1), character('orc', 'NPC', { level: 3 })]);
+    expect(rating?.budgets.find((b) => b.difficulty === 'severe')?.xp).toBe(150);
+    expect(rating).toMatchObject({ xp: 80, difficulty: 'low', partyAward: 64, characterAward: 64 });
+  });
+});
+
+describe('rateEncounter (5e)', () => {
+  it('multiplies XP for the number of creatures and compares it with the thresholds', () => {
+    const rating = rate('dnd5e', [
+      ...party(4, 1),
+      character('goblin1', 'NPC', { challengeRating: 0.25 }),
+      character('goblin2', 'NPC', { challengeRating: 0.25 })
+    ]);
+    // 100 XP × 1.5 for two creatures against a medium threshold of 200
+    expect(rating).toMatchObject({ xp: 150, difficulty: 'easy', partyAward: 100 });
+    expect(rating?.characterAward).toBe(25);
+  });
+
+  it('shifts the multiplier a step up for small parties and down for large ones', () => {
+    const ogre = character('ogre', 'NPC', { challengeRating: 2 });
+    expect(rate('dnd5e', [...party(2, 3), ogre])?.xp).toBe(675);
+    expect(rate('dnd5e', [...party(4, 3), ogre])?.xp).toBe(450);
+    expect(rate('dnd5e', [...party(6, 3), ogre])?.xp).toBe(225);
+  });
+
+  it('goes past the ends of the multiplier table', () => {
+    const horde = Array.from({ length: 15 }, (_, i) =>
+      character(`kobold${i}`, 'NPC', { challengeRating: 0.125 })
+    );
+    expect(rate('dnd5e', [...party(2, 5), ...horde])?.xp).toBe(375 * 5);
+  });
+
+  it('splits the XP evenly, rounding down', () => {
+    const rating = rate('dnd5e', [
+      ...party(3, 1),
+      character('bandit', 'NPC', { challengeRating: 0.125 })
+    ]);
+    expect(rating).toMatchObject({ partyAward: 25, characterAward: 8 });
+  });
+});
+
+describe('rateEncounter', () => {
+  it('does not rate without PCs or without an encounter budget', () => {
+    expect(rate('pf2e', [character('ogre', 'NPC', { level: 4 })])).toBeUndefined();
+    expect(rate('generic', party(4, 1))).toBeUndefined();
+  });
+});
+
+describe('formatChallengeRating', () => {
+  it('shows fractions the way stat blocks do', () => {
+    expect(formatChallengeRating(0.125)).toBe('1/8');
+    expect(formatChallengeRating(0.5)).toBe('1/2');
+    expect(formatChallengeRating(3)).toBe('3');
+  });
+});
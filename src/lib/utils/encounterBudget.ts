@@ -0,0 +1,162 @@
+import type { Character, Encounter } from '../types';
+import type { EncounterBudget, GameRules } from '../rules';
+
+/**
+ * How hard an encounter is for its party, and the XP it is worth
+ */
+export interface EncounterRating {
+  /** Hardest difficulty the encounter reaches, e.g. "moderate" */
+  difficulty: string;
+  /** XP compared with the budgets: the creatures' XP, in 5e multiplied for their number */
+  xp: number;
+  /** Budget (PF2e) or threshold (5e) of each difficulty for this party, easiest first */
+  budgets: { difficulty: string; xp: number }[];
+  /** PCs the encounter was rated for */
+  partySize: number;
+  /** XP the party earns, added to the instance's total */
+  partyAward: number;
+  /** XP each character earns */
+  characterAward: number;
+}
+
+/**
+ * The DMG's multipliers beyond the table, used when the party size shifts
+ * the multiplier off either end
+ */
+const SMALLEST_MULTIPLIER = 0.5;
+const LARGEST_MULTIPLIER = 5;
+
+function isEnemy(character: Character): boolean {
+  return character.type === 'NPC' || character.type === 'Hazard';
+}
+
+/**
+ * Shows a challenge rating the way stat blocks do: 0.25 → "1/4"
+ */
+export function formatChallengeRating(challengeRating: number): string {
+  const fractions: Record<number, string> = { 0.125: '1/8', 0.25: '1/4', 0.5: '1/2' };
+  return fractions[challengeRating] ?? String(challengeRating);
+}
+
+function hardestReached(budgets: EncounterRating['budgets'], xp: number): string {
+  const reached = budgets.filter((budget) => xp >= budget.xp);
+  return (reached[reached.length - 1] ?? budgets[0]).difficulty;
+}
+
+/**
+ * PF2e: creatures cost XP by level against the party level (the PCs' average).
+ * Creatures more than 4 levels below cost nothing; above +4 they are
+ * beyond the table and cost as much as a +4 creature. Each character
+ * earns the XP the encounter is worth to a party of four.
+ */
+function rateByLevel(
+  budget: Extract<EncounterBudget, { model: 'levelBudget' }>,
+  party: Character[],
+  enemies: Character[]
+): EncounterRating {
+  const size = party.length;
+  const partyLevel = Math.round(party.reduce((sum, pc) => sum + (pc.level ?? 1), 0) / size);
+  const xp = enemies.reduce((sum, enemy) => {
+    const difference = Math.min((enemy.level ?? partyLevel) - partyLevel, 4);
+    return sum + (budget.creatureXp[difference] ?? 0);
+  }, 0);
+  const budgets = budget.difficulties.map(({ difficulty, xp: forFour, perCharacter }) => ({
+    difficulty,
+    xp: forFour + (size - 4) * perCharacter
+  }));
+  const award = Math.round((xp * 4) / size);
+
+  return {
+    difficulty: hardestReached(budgets, xp),
+    xp,
+    budgets,
+    partySize: size,
+    partyAward: award,
+    characterAward: award
+  };
+}
+
+/**
+ * 5e: creatures are worth XP by challenge rating. The total is multiplied
+ * for the number of creatures, a step higher for parties under three and
+ * a step lower for six or more, and compared with the sum of the PCs'
+ * thresholds. The party shares the unmultiplied XP.
+ */
+function rateByThresholds(
+  budget: Extract<EncounterBudget, { model: 'xpThresholds' }>,
+  party: Character[],
+  enemies: Character[]
+): EncounterRating {
+  const size = party.length;
+  const total = enemies.reduce((sum, enemy) => {
+    const challengeRating = enemy.challengeRating ?? enemy.level ?? 0;
+    return sum + (budget.challengeXp[formatChallengeRating(challengeRating)] ?? 0);
+  }, 0);
+
+  let step = budget.multipliers.filter(([count]) => enemies.length >= count).length - 1;
+  if (size < 3) step += 1;
+  if (size >= 6) step -= 1;
+  const multiplier =
+    step < 0
+      ? SMALLEST_MULTIPLIER
+      : step >= budget.multipliers.length
+        ? LARGEST_MULTIPLIER
+        : budget.multipliers[step][1];
+  const xp = Math.round(total * multiplier);
+
+  const budgets = budget.difficulties.map((difficulty, index) => ({
+    difficulty,
+    xp: party.reduce((sum, pc) => {
+      const level = Math.min(Math.max(pc.level ?? 1, 1), 20);
+      return sum + budget.thresholds[level][index];
+    }, 0)
+  }));
+
+  return {
+    difficulty: hardestReached(budgets, xp),
+    xp,
+    budgets,
+    partySize: size,
+    partyAward: total,
+    characterAward: Math.floor(total / size)
+  };
+}
+
+/**
+ * Rates an encounter against its party: the PCs taking part, against the
+ * NPCs and hazards. Companions and other related characters count for
+ * neither side.
+ * @param characters - Characters the participants refer to
+ * @returns The rating, or undefined if the system has no encounter budget
+ *          or there are no PCs
+ */
+export function rateEncounter(
+  encounter: Encounter,
+  characters: Map<string, Character>,
+  rules: GameRules
+): EncounterRating | undefined {
+  const taking = encounter.participants
+    .map((p) => characters.get(p.characterId))
+    .filter((character): character is Character => !!character);
+  const party = taking.filter((character) => character.type === 'PC');
+  const enemies = taking.filter(isEnemy);
+  if (party.length === 0) return undefined;
+
+  const budget = rules.encounterBudget;
+  switch (budget.model) {
+    case 'levelBudget':
+      return rateByLevel(budget, party, enemies);
+    case 'xpThresholds':
+      return rateByThresholds(budget, party, enemies);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describes a rating, e.g. "Moderate (80 XP)"
+ */
+export function formatEncounterRating(rating: EncounterRating): string {
+  const difficulty = rating.difficulty.charAt(0).toUpperCase() + rating.difficulty.slice(1);
+  return `${difficulty} (${rating.xp} XP)`;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToText, parseFoundryActors } from './foundry';
+
+const goblin = {
+  name: 'Goblin Warrior',
+  type: 'npc',
+  _stats: { systemId: 'pf2e' },
+  system: {
+    attributes: {
+      hp: { value: 6, max: 6 },
+      ac: { value: 16 },
+      weaknesses: [{ type: 'fire', value: 2 }]
+    },
+    perception: { mod: 2 },
+    details: {
+      level: { value: -1 },
+      publicNotes: '<p>Goblins &amp; their <strong>dogs</strong>.</p>',
+      privateNotes: ''
+    },
+    saves: { fortitude: { value: 5 }, reflex: { value: 7 }, will: { value: 3 } }
+  }
+};
+
+const trap = {
+  name: 'Poisoned Dart Gallery',
+  type: 'hazard',
+  system: {
+    attributes: { hp: { value: 0, max: 0 }, ac: { value: 20 }, stealth: { value: 16 } },
+    details: { level: { value: 3 }, disable: '<p>@Check[thievery|dc:21]{Thievery DC 21}</p>' }
+  }
+};
+
+const bandit = {
+  name: 'Bandit',
+  type: 'npc',
+  data: {
+    attributes: { hp: { value: 11, max: 11 }, ac: { calc: 'default' }, init: { bonus: 1 } },
+    abilities: { str: { value: 11 }, dex: { value: 14 }, con: { value: 12 } },
+    details: { cr: 0.125, biography: { value: '<p>Roll [[/r 1d6+1]] damage</p>' } },
+    traits: { dr: { value: ['cold'] } }
+  },
+  items: [
+    { type: 'equipment', system: { equipped: true, armor: { value: 12, type: 'light' } } },
+    {
+      type: 'equipment',
+      system: { equipped: true, type: { value: 'shield' }, armor: { value: 2 } }
+    }
+  ]
+};
+
+describe('htmlToText', () => {
+  it('keeps text, enricher labels and roll formulas', () => {
+    expect(htmlToText('<p>Make a @UUID[Compendium.x]{Grab}.</p><p>[[/r 2d6]] &lt;b&gt;</p>')).toBe(
+      'Make a Grab.\n2d6 <b>'
+    );
+  });
+});
+
+describe('parseFoundryActors', () => {
+  it('maps a PF2e NPC', () => {
+    const { characters, errors } = parseFoundryActors(JSON.stringify(goblin));
+    expect(errors).toEqual([]);
+    expect(characters).toEqual([
+      {
+        name: 'Goblin Warrior',
+        type: 'NPC',
+        hp: { current: 6, max: 6 },
+        ac: 16,
+        level: -1,
+        initiativeModifier: 2,
+        perception: 2,
+        weaknesses: [{ type: 'fire', value: 2 }],
+        saves: { fortitude: 5, reflex: 7, will: 3 },
+        notes: 'Description:\nGoblins & their dogs.'
+      }
+    ]);
+  });
+
+  it('maps a PF2e hazard, which rolls Stealth for initiative', () => {
+    const [hazard] = parseFoundryActors(JSON.stringify(trap)).characters;
+    expect(hazard).toMatchObject({
+      type: 'Hazard',
+      ac: 20,
+      level: 3,
+      initiativeModifier: 16,
+      notes: 'Disable:\nThievery DC 21'
+    });
+    expect(hazard).not.toHaveProperty('perception');
+  });
+
+  it('maps a 5e NPC, working out AC from its equipped armor and shield', () => {
+    const [npc] = parseFoundryActors(JSON.stringify(bandit)).characters;
+    expect(npc).toMatchObject({
+      type: 'NPC',
+      ac: 16,
+      challengeRating: 0.125,
+      initiativeModifier: 3,
+      abilityScores: { strength: 11, dexterity: 14, wisdom: 10 },
+      resistances: [{ type: 'cold' }],
+      notes: 'Description:\nRoll 1d6+1 damage'
+    });
+  });
+
+  it('reads compendium packs with one actor per line', () => {
+    const pack = [goblin, trap].map((actor) => JSON.stringify(actor)).join('\n');
+    expect(parseFoundryActors(pack).characters.map((c) => c.name)).toEqual([
+      'Goblin Warrior',
+      'Poisoned Dart Gallery'
+    ]);
+  });
+
+  it('reports each actor that does not map, keeping the rest', () => {
+    const actors = [
+      goblin,
+      { name: 'Valeros', type: 'character', _stats: { systemId: 'pf2e' }, system: {} },
+      { name: 'Stormtrooper', type: 'npc', _stats: { systemId: 'swade' }, system: {} },
+      { name: 'Empty', type: 'npc' },
+      { id: 'scene' }
+    ];
+    const { characters, errors } = parseFoundryActors(JSON.stringify(actors));
+    expect(characters).toHaveLength(1);
+    expect(errors).toEqual([
+      { actor: 'Valeros', message: 'Actor type "character" is not an NPC or hazard' },
+      { actor: 'Stormtrooper', message: 'Actor is not from the PF2e or D&D 5e system' },
+      { actor: 'Empty', message: 'Actor has no system data' },
+      { actor: undefined, message: 'Not a Foundry actor' }
+    ]);
+  });
+
+  it('reports a file that is not JSON', () => {
+    expect(parseFoundryActors('not json')).toEqual({
+      characters: [],
+      errors: [{ message: 'File is not valid JSON' }]
+    });
+  });
+});
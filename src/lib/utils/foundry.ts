@@ -0,0 +1,370 @@
+import type { Character } from '../types';
+import { GAME_RULES } from '../rules';
+
+/**
+ * Character fields read from a Foundry actor; the instance and ID are set on import
+ */
+export type FoundryCharacter = Omit<Character, 'id' | 'instanceId' | 'lastUpdated'>;
+
+/**
+ * An actor that could not be turned into a character
+ */
+export interface FoundryActorError {
+  /** Name of the file the actor came from, when several files are imported */
+  file?: string;
+  /** Actor name, if the actor had one */
+  actor?: string;
+  message: string;
+}
+
+export interface FoundryParseResult {
+  characters: FoundryCharacter[];
+  errors: FoundryActorError[];
+}
+
+/** Game systems we can read actors from, as Foundry names them */
+type FoundrySystem = 'pf2e' | 'dnd5e';
+
+interface FoundryValue {
+  value?: unknown;
+}
+
+/**
+ * The parts of an actor's system data we read. Exports vary by system and
+ * version, so every field is optional and checked before use.
+ */
+interface FoundrySystemData {
+  attributes?: {
+    hp?: { value?: unknown; max?: unknown; temp?: unknown };
+    ac?: { value?: unknown; flat?: unknown; calc?: string };
+    perception?: FoundryValue;
+    stealth?: FoundryValue;
+    init?: { bonus?: unknown };
+    immunities?: FoundryDefense[];
+    resistances?: FoundryDefense[];
+    weaknesses?: FoundryDefense[];
+  };
+  /** 5e damage immunities, resistances and vulnerabilities */
+  traits?: {
+    di?: { value?: unknown };
+    dr?: { value?: unknown };
+    dv?: { value?: unknown };
+  };
+  perception?: { mod?: unknown };
+  details?: {
+    level?: FoundryValue;
+    cr?: unknown;
+    publicNotes?: unknown;
+    privateNotes?: unknown;
+    blurb?: unknown;
+    description?: unknown;
+    disable?: unknown;
+    routine?: unknown;
+    reset?: unknown;
+    biography?: FoundryValue;
+  };
+  abilities?: Record<string, FoundryValue | undefined>;
+  saves?: Record<string, FoundryValue | undefined>;
+}
+
+interface FoundryDefense {
+  type?: unknown;
+  value?: unknown;
+}
+
+interface FoundryItem {
+  type?: string;
+  system?: {
+    equipped?: boolean;
+    type?: { value?: string };
+    armor?: { value?: unknown; dex?: unknown; type?: string };
+  };
+}
+
+interface FoundryActor {
+  name: string;
+  type: string;
+  system?: FoundrySystemData;
+  /** System data before Foundry v10 */
+  data?: FoundrySystemData;
+  items?: FoundryItem[];
+  _stats?: { systemId?: string };
+}
+
+/**
+ * Raised when an actor's data does not map to a character
+ */
+class ActorMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActorMappingError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+/**
+ * Converts Foundry's HTML descriptions to plain text, keeping the labels of
+ * enrichers such as `@UUID[...]{Grab}` and the formulas of inline rolls
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/@\w+\[[^\]]*\]\{([^}]*)\}/g, '$1')
+    .replace(/@\w+\[([^\]]*)\]/g, '$1')
+    .replace(/\[\[\/\w+ ([^\]]*)\]\]/g, '$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[#\w]+;/g, (entity) => ENTITIES[entity] ?? entity)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Joins the non-empty HTML fields of an actor into notes, under headings
+ */
+function notesFrom(sections: [string, unknown][]): string {
+  return sections
+    .filter(([, html]) => typeof html === 'string' && htmlToText(html))
+    .map(([heading, html]) => `${heading}:\n${htmlToText(html as string)}`)
+    .join('\n\n');
+}
+
+function number(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function modifier(score: unknown): number {
+  return GAME_RULES.dnd5e.abilityModifier(number(score) ?? 10);
+}
+
+/**
+ * Which game system an actor belongs to: from `_stats.systemId` (Foundry
+ * v10 and later), or else from the shape of its data
+ */
+function systemOf(actor: FoundryActor, system: FoundrySystemData): FoundrySystem | undefined {
+  const id = actor._stats?.systemId;
+  if (id === 'pf2e' || id === 'dnd5e') return id;
+  if (id) return undefined;
+  if (system.details?.level !== undefined || actor.type === 'hazard') return 'pf2e';
+  if (system.details?.cr !== undefined) return 'dnd5e';
+  return undefined;
+}
+
+function hitPoints(system: FoundrySystemData): Character['hp'] {
+  const max = number(system.attributes?.hp?.max) ?? 0;
+  const current = number(system.attributes?.hp?.value) ?? max;
+  const temp = number(system.attributes?.hp?.temp);
+  return temp ? { current, max, temp } : { current, max };
+}
+
+/**
+ * PF2e immunities, resistances and weaknesses, listed as `{ type, value }`
+ */
+function defenses(
+  list: FoundryDefense[] | undefined
+): { type: string; value?: number }[] | undefined {
+  const read = (list ?? [])
+    .filter((d) => typeof d.type === 'string')
+    .map((d) => ({ type: d.type as string, value: number(d.value) }));
+  return read.length > 0 ? read : undefined;
+}
+
+/**
+ * 5e damage traits: a list, or a Set serialized as an array or object
+ */
+function damageTypes(value: unknown): string[] | undefined {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? Object.keys(value)
+      : [];
+  const types = list.filter((type): type is string => typeof type === 'string');
+  return types.length > 0 ? types : undefined;
+}
+
+function fromPf2e(actor: FoundryActor, system: FoundrySystemData): FoundryCharacter {
+  if (actor.type !== 'npc' && actor.type !== 'hazard') {
+    throw new ActorMappingError(`Actor type "${actor.type}" is not an NPC or hazard`);
+  }
+  const hazard = actor.type === 'hazard';
+  const level = number(system.details?.level?.value);
+
+  // Older versions keep perception under attributes
+  const perception = number(system.perception?.mod ?? system.attributes?.perception?.value);
+  // Hazards roll Stealth for initiative
+  const initiative = hazard ? number(system.attributes?.stealth?.value) : perception;
+
+  const saves = ['fortitude', 'reflex', 'will'].map((save) => number(system.saves?.[save]?.value));
+  const character: FoundryCharacter = {
+    name: actor.name,
+    type: hazard ? 'Hazard' : 'NPC',
+    hp: hitPoints(system),
+    ac: number(system.attributes?.ac?.value) ?? 0,
+    level,
+    initiativeModifier: initiative,
+    notes: hazard
+      ? notesFrom([
+          ['Description', system.details?.description],
+          ['Disable', system.details?.disable],
+          ['Routine', system.details?.routine],
+          ['Reset', system.details?.reset]
+        ])
+      : notesFrom([
+          ['Description', system.details?.publicNotes ?? system.details?.blurb],
+          ['GM notes', system.details?.privateNotes]
+        ])
+  };
+  if (!hazard) character.perception = perception;
+  const immunities = defenses(system.attributes?.immunities)?.map((d) => d.type);
+  if (immunities) character.immunities = immunities;
+  const resistances = defenses(system.attributes?.resistances);
+  if (resistances) character.resistances = resistances;
+  const weaknesses = defenses(system.attributes?.weaknesses);
+  if (weaknesses) character.weaknesses = weaknesses;
+  if (saves.every((save) => save !== undefined)) {
+    const [fortitude, reflex, will] = saves as number[];
+    character.saves = { fortitude, reflex, will };
+  }
+  return character;
+}
+
+/**
+ * AC of a 5e actor. Exports only carry the computed value for some
+ * calculations, so the default one is worked out from equipped armor.
+ */
+function armorClass5e(actor: FoundryActor, system: FoundrySystemData): number {
+  const ac = system.attributes?.ac ?? {};
+  const dex = modifier(system.abilities?.dex?.value);
+  const explicit = number(ac.value);
+  if (explicit !== undefined) return explicit;
+
+  switch (ac.calc) {
+    case 'flat':
+    case 'natural':
+      return number(ac.flat) ?? 10 + dex;
+    case 'mage':
+    case 'draconic':
+      return 13 + dex;
+  }
+
+  const equipped = (actor.items ?? []).filter(
+    (item) => item.type === 'equipment' && item.system?.equipped
+  );
+  const armorType = (item: FoundryItem) => item.system?.type?.value ?? item.system?.armor?.type;
+  const armor = equipped.find((item) => ['light', 'medium', 'heavy'].includes(armorType(item) ?? ''));
+  const shield = equipped.find((item) => armorType(item) === 'shield');
+
+  let total = 10 + dex;
+  if (armor) {
+    const type = armorType(armor);
+    const maxDex = number(armor.system?.armor?.dex) ?? (type === 'medium' ? 2 : Infinity);
+    total = (number(armor.system?.armor?.value) ?? 10) + (type === 'heavy' ? 0 : Math.min(dex, maxDex));
+  }
+  return total + (shield ? (number(shield.system?.armor?.value) ?? 2) : 0);
+}
+
+function fromDnd5e(actor: FoundryActor, system: FoundrySystemData): FoundryCharacter {
+  if (actor.type !== 'npc') {
+    throw new ActorMappingError(`Actor type "${actor.type}" is not an NPC`);
+  }
+  const abilities = system.abilities ?? {};
+
+  return {
+    name: actor.name,
+    type: 'NPC',
+    hp: hitPoints(system),
+    ac: armorClass5e(actor, system),
+    challengeRating: number(system.details?.cr),
+    initiativeModifier:
+      modifier(abilities.dex?.value) + (number(system.attributes?.init?.bonus) ?? 0),
+    abilityScores: {
+      strength: number(abilities.str?.value) ?? 10,
+      dexterity: number(abilities.dex?.value) ?? 10,
+      constitution: number(abilities.con?.value) ?? 10,
+      intelligence: number(abilities.int?.value) ?? 10,
+      wisdom: number(abilities.wis?.value) ?? 10,
+      charisma: number(abilities.cha?.value) ?? 10
+    },
+    immunities: damageTypes(system.traits?.di?.value),
+    resistances: damageTypes(system.traits?.dr?.value)?.map((type) => ({ type })),
+    weaknesses: damageTypes(system.traits?.dv?.value)?.map((type) => ({ type })),
+    notes: notesFrom([['Description', system.details?.biography?.value]])
+  };
+}
+
+function isActor(value: unknown): value is FoundryActor {
+  const actor = value as Partial<FoundryActor> | null;
+  return !!actor && typeof actor.name === 'string' && typeof actor.type === 'string';
+}
+
+function fromActor(value: unknown): FoundryCharacter {
+  if (!isActor(value)) {
+    throw new ActorMappingError('Not a Foundry actor');
+  }
+  const actor = value;
+  const system = actor.system ?? actor.data;
+  if (!system || typeof system !== 'object') {
+    throw new ActorMappingError('Actor has no system data');
+  }
+
+  switch (systemOf(actor, system)) {
+    case 'pf2e':
+      return fromPf2e(actor, system);
+    case 'dnd5e':
+      return fromDnd5e(actor, system);
+    default:
+      throw new ActorMappingError('Actor is not from the PF2e or D&D 5e system');
+  }
+}
+
+/**
+ * Reads the actors in a file: a single exported actor, an array of actors,
+ * or a compendium pack with one actor per line (Foundry's `.db` files)
+ */
+function readActors(text: string): unknown[] {
+  const trimmed = text.trim();
+  try {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return trimmed.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+  }
+}
+
+/**
+ * Maps the actors in a Foundry VTT export file to NPC and Hazard characters.
+ * PF2e and D&D 5e actors are supported; anything else is reported as an error
+ * rather than failing the whole file.
+ * @param text - File contents
+ */
+export function parseFoundryActors(text: string): FoundryParseResult {
+  let actors: unknown[];
+  try {
+    actors = readActors(text);
+  } catch {
+    return { characters: [], errors: [{ message: 'File is not valid JSON' }] };
+  }
+
+  const result: FoundryParseResult = { characters: [], errors: [] };
+  for (const actor of actors) {
+    try {
+      result.characters.push(fromActor(actor));
+    } catch (error) {
+      result.errors.push({
+        actor: isActor(actor) ? actor.name : undefined,
+        message: error instanceof Error ? error.message : 'Could not read actor'
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,15 @@
+/**
+ * Game systems with rules support. Anything else gets generic behaviour.
+ */
+export type GameSystemId = 'pf2e' | 'dnd5e' | 'generic';
+
+/**
+ * Recognizes the free-text `GameInstance.system`, e.g. "Pathfinder 2E",
+ * "PF2e (Remaster)", "D&D 5E" or "5e"
+ */
+export function gameSystemOf(system?: string): GameSystemId {
+  if (!system) return 'generic';
+  if (/\bpf\s*2|pathfinder\s*(2|second)/i.test(system)) return 'pf2e';
+  if (/\b5(e|th)\b|\b(d&d|dnd)\s*5|\b(d&d|dnd)\s*2024/i.test(system)) return 'dnd5e';
+  return 'generic';
+}
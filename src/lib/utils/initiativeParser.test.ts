@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Character } from '../types';
+import { matchInitiatives, parseDiceRolls } from './initiativeParser';
+
+function character(id: string, name: string, discordId?: string): Character {
+  return {
+    id,
+    instanceId: 'campaign',
+    name,
+    type: 'PC',
+    discordId,
+    notes: '',
+    hp: { current: 20, max: 20 },
+    ac: 16,
+    lastUpdated: new Date()
+  };
+}
+
+const party = [
+  character('valeros', 'Valeros the Brave', '111'),
+  character('merisiel', 'Merisiel', '222'),
+  character('ezren', 'Ezren'),
+  character('goblin-1', 'Goblin Warrior 1'),
+  character('goblin-2', 'Goblin Warrior 2')
+];
+
+describe('parseDiceRolls', () => {
+  it('reads free text totals', () => {
+    expect(parseDiceRolls('Valeros: 23\nEzren - 12')).toEqual([
+      { line: 'Valeros: 23', lineNumber: 1, total: 23, name: 'Valeros' },
+      { line: 'Ezren - 12', lineNumber: 2, total: 12, name: 'Ezren' }
+    ]);
+  });
+
+  it('attributes an Avrae result to the mention in the header above it', () => {
+    const rolls = parseDiceRolls(
+      '<@222> :game_die:\n**Result**: 1d20 (15) + 3\n**Total**: 18\n\nsome chatter'
+    );
+    expect(rolls).toEqual([{ line: '**Total**: 18', lineNumber: 3, total: 18, discordId: '222' }]);
+  });
+
+  it('reads Dice Maiden and Sidekick lines', () => {
+    const rolls = parseDiceRolls(
+      '@Merisiel Initiative Roll: [17] Result: 21\n**Ezren** rolls 1d20+5 → 14\nValeros rolled initiative = **9**'
+    );
+    expect(rolls.map(({ name, total }) => ({ name, total }))).toEqual([
+      { name: 'Merisiel Initiative', total: 21 },
+      { name: 'Ezren', total: 14 },
+      { name: 'Valeros', total: 9 }
+    ]);
+  });
+
+  it('reads a mention in the line itself and negative totals', () => {
+    expect(parseDiceRolls('<@!111> Result: -1')).toMatchObject([{ discordId: '111', total: -1 }]);
+  });
+
+  it('ignores lines without a total', () => {
+    expect(parseDiceRolls('Everyone roll initiative!\n\nGood luck')).toEqual([]);
+  });
+});
+
+describe('matchInitiatives', () => {
+  it('matches by Discord ID, exact name and leading words', () => {
+    const rolls = parseDiceRolls(
+      '<@111> Result: 19\nEzren: 12\n@Merisiel Initiative Roll: [17] Result: 21'
+    );
+    const { matched, unmatched } = matchInitiatives(rolls, party);
+    expect(matched.map(({ characterId, initiative }) => ({ characterId, initiative }))).toEqual([
+      { characterId: 'valeros', initiative: 19 },
+      { characterId: 'ezren', initiative: 12 },
+      { characterId: 'merisiel', initiative: 21 }
+    ]);
+    expect(unmatched).toEqual([]);
+  });
+
+  it('leaves ambiguous and unknown names unmatched', () => {
+    const { matched, unmatched } = matchInitiatives(
+      parseDiceRolls('Goblin Warrior: 8\nSeoni: 15\n<@999> Result: 4'),
+      party
+    );
+    expect(matched).toEqual([]);
+    expect(unmatched.map((roll) => roll.lineNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the last roll when a character rolled twice', () => {
+    const { matched } = matchInitiatives(parseDiceRolls('Ezren: 4\nEzren: 17'), party);
+    expect(matched).toMatchObject([{ characterId: 'ezren', initiative: 17 }]);
+  });
+});
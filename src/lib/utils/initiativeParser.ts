@@ -0,0 +1,169 @@
+import type { Character } from '../types';
+
+/**
+ * A roll result read from pasted Discord text
+ */
+export interface ParsedRoll {
+  /** The pasted line holding the total */
+  line: string;
+  /** 1-based line number in the pasted text */
+  lineNumber: number;
+  total: number;
+  /** Name the roll was attributed to, if any */
+  name?: string;
+  /** Discord user ID from a `<@id>` mention, if any */
+  discordId?: string;
+}
+
+/**
+ * A roll matched to a character
+ */
+export interface InitiativeMatch {
+  characterId: string;
+  initiative: number;
+  roll: ParsedRoll;
+}
+
+export interface InitiativeParseResult {
+  matched: InitiativeMatch[];
+  /** Rolls that could not be matched to exactly one character */
+  unmatched: ParsedRoll[];
+}
+
+/** `<@123>` or `<@!123>` */
+const MENTION = /<@!?(\d+)>/;
+
+/**
+ * Totals as printed by dice bots, most specific first:
+ * Dice Maiden `Result: 18`, Avrae `**Total**: 18` or `` = `18` ``,
+ * Sidekick `→ 18` or `= **18**`
+ */
+const TOTAL_PATTERNS = [
+  // Avrae prints `**Result**: 1d20 (15) + 3` before the total, so skip dice notation
+  /\b(?:result|total)\**\s*:?\s*\**\s*[`*]*\s*(-?\d+)(?!\d|d\d)/i,
+  /(?:=|→|->)\s*[`*]*\s*(-?\d+)[`*]*\s*$/
+];
+
+/**
+ * Who a line is about, before the roll: `Valeros: 1d20...`, `@Valeros Roll: ...`,
+ * `**Valeros** rolls ...`, `Valeros rolled initiative ...`
+ */
+const SUBJECT_PATTERNS = [
+  /^@?\**([^:*@<>]+?)\**\s*(?:rolled|rolls|roll|'s request)\b/i,
+  /^@?\**([^:*@<>]+?)\**\s*:/
+];
+
+/** Free text such as `Valeros: 23` or `Valeros - 23` */
+const FREE_TEXT = /^@?\**([^:*@<>=]+?)\**\s*[:=-]\s*(-?\d+)\s*$/;
+
+/** Avrae's reply header: a mention on its own line, e.g. `<@123> :game_die:` */
+const HEADER = /^<@!?\d+>(?:\s*:[a-z_]+:)?\s*$/i;
+
+/** Labels in bot output that look like a name but are not one */
+const BOT_LABELS = /^(result|total|roll)$/i;
+
+function cleanName(name: string): string {
+  return name.replace(/[*_~`]/g, '').trim();
+}
+
+/**
+ * Reads roll totals from pasted Discord channel text. Lines without a total
+ * are ignored, except that a bot reply header (a mention on its own line)
+ * attributes the totals that follow it.
+ * @param text - Pasted channel text
+ */
+export function parseDiceRolls(text: string): ParsedRoll[] {
+  const rolls: ParsedRoll[] = [];
+  let pending: Pick<ParsedRoll, 'name' | 'discordId'> | undefined;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    const mention = line.match(MENTION)?.[1];
+
+    if (HEADER.test(line)) {
+      pending = { discordId: mention };
+      return;
+    }
+
+    const free = line.match(FREE_TEXT);
+    const total = free
+      ? Number(free[2])
+      : TOTAL_PATTERNS.map((pattern) => line.match(pattern)?.[1]).find(Boolean);
+    if (total === undefined) return;
+
+    const found = free
+      ? free[1]
+      : SUBJECT_PATTERNS.map((pattern) => line.match(pattern)?.[1]).find(Boolean);
+    const name = found && cleanName(found);
+    const subject = mention
+      ? { discordId: mention }
+      : name && !BOT_LABELS.test(name)
+        ? { name }
+        : pending;
+
+    rolls.push({ line, lineNumber: index + 1, total: Number(total), ...subject });
+    pending = undefined;
+  });
+
+  return rolls;
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Whether one name is the other followed by more words
+ */
+function startsWithName(longer: string, shorter: string): boolean {
+  return longer === shorter || longer.startsWith(`${shorter} `);
+}
+
+/**
+ * Finds the one character a roll belongs to: by Discord ID, then exact name,
+ * then a unique leading-words match (`Valeros` matches `Valeros the Brave`,
+ * and Dice Maiden's `Merisiel Initiative` matches `Merisiel`)
+ */
+function findCharacter(roll: ParsedRoll, characters: Character[]): Character | undefined {
+  if (roll.discordId) {
+    const owned = characters.filter((c) => c.discordId === roll.discordId);
+    return owned.length === 1 ? owned[0] : undefined;
+  }
+  if (!roll.name) return undefined;
+
+  const name = normalize(roll.name);
+  const exact = characters.filter((c) => normalize(c.name) === name);
+  if (exact.length === 1) return exact[0];
+
+  const partial = characters.filter((c) => {
+    const candidate = normalize(c.name);
+    return startsWithName(candidate, name) || startsWithName(name, candidate);
+  });
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * Matches parsed rolls to characters. When a character rolled more than
+ * once, the last roll wins.
+ * @param rolls - Output of parseDiceRolls
+ * @param characters - Characters that can be matched, e.g. an encounter's participants
+ */
+export function matchInitiatives(
+  rolls: ParsedRoll[],
+  characters: Character[]
+): InitiativeParseResult {
+  const matched = new Map<string, InitiativeMatch>();
+  const unmatched: ParsedRoll[] = [];
+
+  for (const roll of rolls) {
+    const character = findCharacter(roll, characters);
+    if (character) {
+      matched.set(character.id, { characterId: character.id, initiative: roll.total, roll });
+    } else {
+      unmatched.push(roll);
+    }
+  }
+
+  return { matched: [...matched.values()], unmatched };
+}
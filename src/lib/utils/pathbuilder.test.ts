@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { fromPathbuilder, parsePathbuilder, PathbuilderError } from './pathbuilder';
+import type { PathbuilderBuild } from './pathbuilder';
+
+const valeros: PathbuilderBuild = {
+  name: 'Valeros',
+  class: 'Fighter',
+  ancestry: 'Human',
+  level: 3,
+  abilities: { str: 18, dex: 14, con: 14, int: 10, wis: 12, cha: 10 },
+  attributes: { ancestryhp: 8, classhp: 10, bonushp: 0, bonushpPerLevel: 0 },
+  proficiencies: { perception: 4, fortitude: 4, reflex: 4, will: 2, athletics: 2 },
+  lores: [['Warfare', 2]],
+  weapons: [{ name: 'Longsword' }],
+  armor: [{ name: 'Full Plate' }],
+  equipment: [
+    ['Healing Potion (Minor)', 2],
+    ['Rope', 1]
+  ],
+  acTotal: { acTotal: 21 }
+};
+
+function exported(build: unknown) {
+  return JSON.stringify({ success: true, build });
+}
+
+describe('parsePathbuilder', () => {
+  it('reads the build from an export', () => {
+    expect(parsePathbuilder(exported(valeros))).toEqual(valeros);
+  });
+
+  it('rejects files that are not Pathbuilder exports', () => {
+    expect(() => parsePathbuilder('{')).toThrow('File is not valid JSON');
+    expect(() => parsePathbuilder(JSON.stringify({ success: false }))).toThrow(PathbuilderError);
+    expect(() => parsePathbuilder(exported({ name: 'Valeros' }))).toThrow(
+      'Pathbuilder export is missing required data'
+    );
+  });
+});
+
+describe('fromPathbuilder', () => {
+  it('maps HP, AC, ability scores, saves and skills', () => {
+    const { character, related, warnings } = fromPathbuilder(valeros);
+    expect(character).toMatchObject({
+      name: 'Valeros',
+      class: 'Fighter',
+      race: 'Human',
+      level: 3,
+      ac: 21,
+      hpMax: 44,
+      perception: 8,
+      saves: { fortitude: 9, reflex: 9, will: 6 }
+    });
+    expect(character.abilityScores).toMatchObject({ strength: 18, dexterity: 14, wisdom: 12 });
+    expect(character.skills).toMatchObject({
+      Athletics: 9,
+      Acrobatics: 2,
+      'Lore (Warfare)': 5
+    });
+    expect(character.equipment).toEqual([
+      'Longsword',
+      'Full Plate',
+      'Healing Potion (Minor) (2)',
+      'Rope'
+    ]);
+    expect(related).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads ability modifiers from remastered exports', () => {
+    const remastered = {
+      ...valeros,
+      abilities: { str: 4, dex: 2, con: 2, int: 0, wis: 1, cha: 0 }
+    };
+    expect(fromPathbuilder(remastered).character).toEqual(fromPathbuilder(valeros).character);
+  });
+
+  it('adds Familiars, Companions and Eidolons with what follows from the master', () => {
+    const { related, warnings } = fromPathbuilder({
+      ...valeros,
+      familiars: [{ name: 'Hoot' }],
+      pets: [
+        { name: 'Fang', type: 'Animal Companion' },
+        { name: 'Radiance', type: 'Eidolon' }
+      ]
+    });
+    expect(related).toEqual([
+      { name: 'Hoot', type: 'Familiar', level: 3, hpMax: 15, ac: 21 },
+      { name: 'Fang', type: 'Companion', level: 3 },
+      { name: 'Radiance', type: 'Eidolon', level: 3, hpMax: 44 }
+    ]);
+    expect(warnings).toEqual([
+      "Set Fang's HP and AC by hand; Pathbuilder does not export them",
+      "Set Radiance's AC by hand; Pathbuilder does not export it"
+    ]);
+  });
+});
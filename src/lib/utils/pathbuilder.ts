@@ -0,0 +1,216 @@
+import type {
+  AbilityScores,
+  ImportedCharacter,
+  ImportedRelatedCharacter,
+  RelatedCharacterType
+} from '../types';
+import { GAME_RULES, type ProficiencyRank } from '../rules';
+
+type Ability = 'str' | 'dex' | 'con' | 'int' | 'wis' | 'cha';
+
+/**
+ * The parts of a Pathbuilder 2e JSON export ("Export JSON" in the app) we read.
+ * Proficiency ranks are 0 (untrained), 2, 4, 6 or 8 (legendary).
+ */
+export interface PathbuilderBuild {
+  name: string;
+  class?: string;
+  ancestry?: string;
+  level: number;
+  /** Ability scores, or modifiers in newer (remastered) exports */
+  abilities: Record<Ability, number>;
+  attributes: {
+    ancestryhp: number;
+    classhp: number;
+    bonushp?: number;
+    bonushpPerLevel?: number;
+  };
+  proficiencies: Record<string, number>;
+  /** `[name, rank]` pairs */
+  lores?: [string, number][];
+  /** `[name, quantity, ...]` tuples */
+  equipment?: [string, number, ...unknown[]][];
+  weapons?: { name: string; qty?: number }[];
+  armor?: { name: string; qty?: number }[];
+  acTotal: { acTotal: number };
+  familiars?: { name: string; type?: string }[];
+  /** Animal companions and, for summoners, the eidolon */
+  pets?: { name: string; type?: string }[];
+}
+
+/**
+ * Raised for a file that is not a Pathbuilder 2e export
+ */
+export class PathbuilderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathbuilderError';
+  }
+}
+
+const SKILL_ABILITIES: Record<string, Ability> = {
+  acrobatics: 'dex',
+  arcana: 'int',
+  athletics: 'str',
+  crafting: 'int',
+  deception: 'cha',
+  diplomacy: 'cha',
+  intimidation: 'cha',
+  medicine: 'wis',
+  nature: 'wis',
+  occultism: 'int',
+  performance: 'cha',
+  religion: 'wis',
+  society: 'int',
+  stealth: 'dex',
+  survival: 'wis',
+  thievery: 'dex'
+};
+
+/** Pathbuilder's numeric proficiency ranks */
+const RANKS: Record<number, ProficiencyRank> = {
+  0: 'untrained',
+  2: 'trained',
+  4: 'expert',
+  6: 'master',
+  8: 'legendary'
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Reads ability modifiers. Older exports give scores (18), newer ones give
+ * modifiers (+4); no legal PC has every score at 7 or below, so that tells them apart.
+ */
+function abilityModifiers(abilities: Record<Ability, number>): Record<Ability, number> {
+  const values = Object.values(abilities);
+  const areModifiers = values.every((value) => value <= 7);
+  return Object.fromEntries(
+    Object.entries(abilities).map(([ability, value]) => [
+      ability,
+      areModifiers ? value : GAME_RULES.pf2e.abilityModifier(value)
+    ])
+  ) as Record<Ability, number>;
+}
+
+/**
+ * Maps a related creature's Pathbuilder type to ours; pets default to Companion
+ */
+function relatedType(type: string | undefined, fallback: RelatedCharacterType): RelatedCharacterType {
+  if (/familiar/i.test(type ?? '')) return 'Familiar';
+  if (/eidolon/i.test(type ?? '')) return 'Eidolon';
+  if (/companion/i.test(type ?? '')) return 'Companion';
+  return fallback;
+}
+
+/**
+ * Reads a Pathbuilder 2e JSON export
+ * @param json - File contents
+ * @throws {PathbuilderError} If the file is not a successful Pathbuilder export
+ */
+export function parsePathbuilder(json: string): PathbuilderBuild {
+  let raw: { success?: boolean; build?: PathbuilderBuild };
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new PathbuilderError('File is not valid JSON');
+  }
+  const build = raw?.build;
+  if (!raw?.success || !build) {
+    throw new PathbuilderError('File is not a Pathbuilder 2e export');
+  }
+  if (
+    !build.name ||
+    !build.abilities ||
+    !build.attributes ||
+    !build.proficiencies ||
+    typeof build.acTotal?.acTotal !== 'number'
+  ) {
+    throw new PathbuilderError('Pathbuilder export is missing required data');
+  }
+  return build;
+}
+
+/**
+ * Maps a Pathbuilder build to our character model. Modifiers include the
+ * ability modifier and proficiency bonus, but not item bonuses.
+ */
+export function fromPathbuilder(build: PathbuilderBuild): ImportedCharacter {
+  const level = build.level;
+  const mods = abilityModifiers(build.abilities);
+  const proficiency = (rank = 0) =>
+    GAME_RULES.pf2e.proficiencyBonus(RANKS[rank] ?? 'untrained', level);
+  const check = (ability: Ability, rank?: number) => mods[ability] + proficiency(rank);
+
+  const { ancestryhp, classhp, bonushp = 0, bonushpPerLevel = 0 } = build.attributes;
+  const hpMax = ancestryhp + bonushp + (classhp + mods.con + bonushpPerLevel) * level;
+
+  const abilityScores: AbilityScores = {
+    strength: 10 + mods.str * 2,
+    dexterity: 10 + mods.dex * 2,
+    constitution: 10 + mods.con * 2,
+    intelligence: 10 + mods.int * 2,
+    wisdom: 10 + mods.wis * 2,
+    charisma: 10 + mods.cha * 2
+  };
+
+  const skills: Record<string, number> = {};
+  for (const [skill, ability] of Object.entries(SKILL_ABILITIES)) {
+    skills[capitalize(skill)] = check(ability, build.proficiencies[skill]);
+  }
+  for (const [lore, rank] of build.lores ?? []) {
+    skills[`Lore (${lore})`] = check('int', rank);
+  }
+
+  const item = (name: string, qty = 1) => (qty > 1 ? `${name} (${qty})` : name);
+  const equipment = [
+    ...(build.weapons ?? []).map((w) => item(w.name, w.qty)),
+    ...(build.armor ?? []).map((a) => item(a.name, a.qty)),
+    ...(build.equipment ?? []).map(([name, qty]) => item(name, qty))
+  ];
+
+  const warnings: string[] = [];
+  const ac = build.acTotal.acTotal;
+
+  const related: ImportedRelatedCharacter[] = [
+    ...(build.familiars ?? []).map((f) => ({ name: f.name, type: relatedType(f.type, 'Familiar') })),
+    ...(build.pets ?? []).map((p) => ({ name: p.name, type: relatedType(p.type, 'Companion') }))
+  ].map(({ name, type }) => {
+    // Pathbuilder exports no stats for these; use the rules where they follow from the master
+    switch (type) {
+      case 'Familiar':
+        return { name, type, level, hpMax: 5 * level, ac };
+      case 'Eidolon':
+        // Eidolons share their summoner's hit points
+        warnings.push(`Set ${name}'s AC by hand; Pathbuilder does not export it`);
+        return { name, type, level, hpMax };
+      default:
+        warnings.push(`Set ${name}'s HP and AC by hand; Pathbuilder does not export them`);
+        return { name, type, level };
+    }
+  });
+
+  return {
+    character: {
+      name: build.name,
+      ac,
+      level,
+      class: build.class,
+      race: build.ancestry,
+      abilityScores,
+      perception: check('wis', build.proficiencies.perception),
+      saves: {
+        fortitude: check('con', build.proficiencies.fortitude),
+        reflex: check('dex', build.proficiencies.reflex),
+        will: check('wis', build.proficiencies.will)
+      },
+      skills,
+      equipment,
+      hpMax
+    },
+    related,
+    warnings
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { Character, CharacterType, Encounter, EncounterParticipant } from '../types';
+import { compareTurns, followTurn, nextTurnPosition, sortTurnOrder, turnOf } from './turnOrder';
+
+function character(id: string, type: CharacterType, dexterity?: number): Character {
+  return {
+    id,
+    instanceId: 'instance',
+    name: id,
+    type,
+    notes: '',
+    hp: { current: 10, max: 10 },
+    ac: 15,
+    ...(dexterity !== undefined && { abilityScores: { dexterity } })
+  } as Character;
+}
+
+function participant(characterId: string, initiative: number): EncounterParticipant {
+  return { characterId, initiative };
+}
+
+function encounter(participants: EncounterParticipant[], currentTurn = 0): Encounter {
+  return {
+    id: 'encounter',
+    instanceId: 'instance',
+    name: 'Ambush',
+    isActive: true,
+    currentRound: 1,
+    currentTurn,
+    participants,
+    createdAt: new Date(),
+    lastUpdated: new Date()
+  };
+}
+
+const ids = (participants: EncounterParticipant[]) => participants.map((p) => p.characterId);
+
+describe('sortTurnOrder', () => {
+  const characters = new Map(
+    [
+      character('fighter', 'PC', 12),
+      character('goblin', 'NPC', 16),
+      character('trap', 'Hazard', 10),
+      character('rogue', 'PC', 18)
+    ].map((c) => [c.id, c])
+  );
+  const tied = [
+    participant('fighter', 15),
+    participant('goblin', 15),
+    participant('rogue', 20),
+    participant('trap', 15)
+  ];
+
+  it('puts higher initiative first and keeps manual ties as arranged', () => {
+    expect(ids(sortTurnOrder(tied, characters, 'manual'))).toEqual([
+      'rogue',
+      'fighter',
+      'goblin',
+      'trap'
+    ]);
+  });
+
+  it('puts enemies ahead of PCs on a tie in PF2e', () => {
+    expect(ids(sortTurnOrder(tied, characters, 'enemiesFirst'))).toEqual([
+      'rogue',
+      'goblin',
+      'trap',
+      'fighter'
+    ]);
+  });
+
+  it('breaks ties by Dexterity in 5e', () => {
+    expect(ids(sortTurnOrder(tied, characters, 'dexterity'))).toEqual([
+      'rogue',
+      'goblin',
+      'fighter',
+      'trap'
+    ]);
+  });
+
+  it('keeps ties the rules leave open in their current order', () => {
+    const twins = [participant('fighter', 15), participant('rogue', 15)];
+    expect(ids(sortTurnOrder(twins, characters, 'enemiesFirst'))).toEqual(['fighter', 'rogue']);
+  });
+});
+
+describe('nextTurnPosition', () => {
+  const participants = [participant('rogue', 20), participant('goblin', 15)];
+
+  it('moves to the next participant, then to the top of the next round', () => {
+    expect(nextTurnPosition(encounter(participants, 0))).toEqual({ round: 1, turn: 1 });
+    expect(nextTurnPosition(encounter(participants, 1))).toEqual({ round: 2, turn: 0 });
+  });
+
+  it('throws without participants', () => {
+    expect(() => nextTurnPosition(encounter([]))).toThrow();
+  });
+});
+
+describe('compareTurns', () => {
+  it('orders by round, then by turn', () => {
+    expect(compareTurns({ round: 1, turn: 2 }, { round: 2, turn: 0 })).toBeLessThan(0);
+    expect(compareTurns({ round: 2, turn: 1 }, { round: 2, turn: 0 })).toBeGreaterThan(0);
+    expect(compareTurns({ round: 2, turn: 1 }, { round: 2, turn: 1 })).toBe(0);
+  });
+});
+
+describe('turnOf', () => {
+  const current = encounter([participant('rogue', 20), participant('goblin', 15)]);
+
+  it('finds the turn of a participant', () => {
+    expect(turnOf(current, { characterId: 'goblin', initiative: 15 })).toBe(1);
+  });
+
+  it('places a creature that left between those around its initiative', () => {
+    expect(turnOf(current, { characterId: 'fighter', initiative: 17 })).toBe(0.5);
+    expect(turnOf(current, { initiative: 10 })).toBe(1.5);
+  });
+});
+
+describe('followTurn', () => {
+  const participants = [
+    participant('rogue', 20),
+    participant('goblin', 15),
+    participant('fighter', 10)
+  ];
+
+  it('keeps the turn with the acting creature when others join', () => {
+    const reordered = [participant('ogre', 25), ...participants];
+    expect(followTurn(encounter(participants, 1), reordered)).toEqual({ currentTurn: 2 });
+  });
+
+  it('passes the turn on when the acting creature leaves', () => {
+    const without = participants.filter((p) => p.characterId !== 'goblin');
+    expect(followTurn(encounter(participants, 1), without)).toEqual({ currentTurn: 1 });
+  });
+
+  it('starts the next round when the last creature to act leaves', () => {
+    const without = participants.filter((p) => p.characterId !== 'fighter');
+    expect(followTurn(encounter(participants, 2), without)).toEqual({
+      currentTurn: 0,
+      currentRound: 2
+    });
+  });
+
+  it('puts the top of the order up before the encounter starts', () => {
+    const idle = { ...encounter(participants, 2), isActive: false };
+    expect(followTurn(idle, participants)).toEqual({ currentTurn: 0 });
+  });
+});
@@ -0,0 +1,112 @@
+import type { Character, Encounter, EncounterParticipant, TieBreaker } from '../types';
+
+/**
+ * A turn in an encounter: the index of the acting participant in a round
+ */
+export interface TurnPosition {
+  round: number;
+  turn: number;
+}
+
+/**
+ * The participant whose turn it is
+ */
+export function currentParticipant(encounter: Encounter): EncounterParticipant | undefined {
+  return encounter.participants[encounter.currentTurn];
+}
+
+/**
+ * The turn after the current one, starting a new round after the last participant
+ * @throws {Error} If the encounter has no participants
+ */
+export function nextTurnPosition(encounter: Encounter): TurnPosition {
+  if (encounter.participants.length === 0) throw new Error('No participants in encounter');
+
+  const turn = encounter.currentTurn + 1;
+  return turn >= encounter.participants.length
+    ? { round: encounter.currentRound + 1, turn: 0 }
+    : { round: encounter.currentRound, turn };
+}
+
+/**
+ * Orders turns: earlier rounds first, then earlier in the round
+ */
+export function compareTurns(a: TurnPosition, b: TurnPosition): number {
+  return a.round - b.round || a.turn - b.turn;
+}
+
+/**
+ * Where a creature's turn falls in the turn order. If it is no longer in the
+ * encounter, the position between those acting before and after its initiative.
+ */
+export function turnOf(
+  encounter: Encounter,
+  anchor: { characterId?: string; initiative: number }
+): number {
+  const index = encounter.participants.findIndex((p) => p.characterId === anchor.characterId);
+  if (anchor.characterId && index !== -1) return index;
+  return encounter.participants.filter((p) => p.initiative > anchor.initiative).length - 0.5;
+}
+
+function isEnemy(character?: Character): boolean {
+  return character?.type === 'NPC' || character?.type === 'Hazard';
+}
+
+/**
+ * Compares participants for turn order: higher initiative first, then by the
+ * tie-breaker. Participants the rules leave tied compare as 0 and keep the
+ * order the GM arranged them in.
+ * @param characters - Characters the participants refer to, for the tie-breaker
+ */
+export function compareTurnOrder(
+  a: EncounterParticipant,
+  b: EncounterParticipant,
+  characters: Map<string, Character>,
+  tieBreaker: TieBreaker
+): number {
+  const byInitiative = b.initiative - a.initiative;
+  if (byInitiative !== 0 || tieBreaker === 'manual') return byInitiative;
+
+  const first = characters.get(a.characterId);
+  const second = characters.get(b.characterId);
+  if (tieBreaker === 'enemiesFirst') return Number(isEnemy(second)) - Number(isEnemy(first));
+  return (second?.abilityScores?.dexterity ?? 0) - (first?.abilityScores?.dexterity ?? 0);
+}
+
+/**
+ * Sorts participants into turn order. The sort is stable, so ties the rules
+ * don't decide keep their current order and newcomers go after them.
+ */
+export function sortTurnOrder(
+  participants: EncounterParticipant[],
+  characters: Map<string, Character> = new Map(),
+  tieBreaker: TieBreaker = 'manual'
+): EncounterParticipant[] {
+  return [...participants].sort((a, b) => compareTurnOrder(a, b, characters, tieBreaker));
+}
+
+/**
+ * Keeps the turn with the creature whose turn it is when participants are
+ * added, removed or reordered. If that creature has left, the turn passes to
+ * the next one still there, or to the top of the next round. Before an
+ * encounter is running the top of the order is up.
+ * @param participants - The new participants, in turn order
+ * @returns The turn fields to write alongside the participants
+ */
+export function followTurn(
+  encounter: Encounter,
+  participants: EncounterParticipant[]
+): Pick<Encounter, 'currentTurn'> & Partial<Pick<Encounter, 'currentRound'>> {
+  if (!encounter.isActive) return { currentTurn: 0 };
+
+  const indexes = new Map(participants.map((p, index) => [p.characterId, index]));
+  for (const p of encounter.participants.slice(encounter.currentTurn)) {
+    const index = indexes.get(p.characterId);
+    if (index !== undefined) return { currentTurn: index };
+  }
+  const hadTurn = encounter.currentTurn < encounter.participants.length;
+  if (hadTurn && participants.length > 0) {
+    return { currentTurn: 0, currentRound: encounter.currentRound + 1 };
+  }
+  return { currentTurn: 0 };
+}